@@ -0,0 +1,16 @@
+import { createHash } from "node:crypto";
+import { randomToken } from "@/app/Hashing/tokens";
+
+/**
+ * PKCE (RFC 7636) code verifier — 64 hex chars, within the 43–128 char range.
+ */
+export function createCodeVerifier(): string {
+    return randomToken(32);
+}
+
+/**
+ * `S256` code challenge for a verifier.
+ */
+export function codeChallenge(verifier: string): string {
+    return createHash("sha256").update(verifier).digest("base64url");
+}
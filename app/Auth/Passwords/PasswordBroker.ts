@@ -0,0 +1,152 @@
+import type { DatabaseManager } from "@ninots/orm";
+import type { NotificationSender } from "@ninots/notifications";
+import type { UserProvider } from "@/app/Auth/UserProvider";
+import { hashToken, randomToken, tokenMatches } from "@/app/Hashing/tokens";
+import type { User } from "@/app/Models/User";
+import { ResetPasswordNotification } from "@/app/Notifications/ResetPasswordNotification";
+import { getDatabaseManager } from "@/bootstrap/database";
+
+export type PasswordResetStatus =
+    | "passwords.sent"
+    | "passwords.reset"
+    | "passwords.user"
+    | "passwords.token"
+    | "passwords.throttled";
+
+export const PASSWORD_RESET_MESSAGES: Record<PasswordResetStatus, string> = {
+    "passwords.sent": "We have emailed your password reset link.",
+    "passwords.reset": "Your password has been reset.",
+    "passwords.user": "We can't find a user with that email address.",
+    "passwords.token": "This password reset token is invalid.",
+    "passwords.throttled": "Please wait before retrying.",
+};
+
+export type PasswordBrokerOptions = {
+    table: string;
+    /** Token lifetime in minutes. */
+    expire: number;
+    /** Seconds before another link may be sent to the same email. */
+    throttle: number;
+};
+
+export type ResetCredentials = {
+    email: string;
+    token: string;
+    password: string;
+};
+
+type TokenRow = { email: string; token: string; created_at: string };
+
+/**
+ * Password reset broker — one hashed, expiring token per email in `options.table`.
+ */
+export class PasswordBroker {
+    constructor(
+        private readonly provider: UserProvider,
+        private readonly notifications: NotificationSender,
+        private readonly options: PasswordBrokerOptions,
+        private readonly now: () => Date = () => new Date(),
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+    ) {}
+
+    /**
+     * Create a token and email the reset link.
+     */
+    public async sendResetLink(email: string): Promise<PasswordResetStatus> {
+        const user = await this.provider.retrieveByCredentials({ email });
+        if (user === null) {
+            return "passwords.user";
+        }
+
+        if (await this.recentlyCreatedToken(email)) {
+            return "passwords.throttled";
+        }
+
+        const token = await this.createToken(email);
+        await this.notifications.send({ email }, new ResetPasswordNotification(token, email));
+        return "passwords.sent";
+    }
+
+    /**
+     * Replace any pending token for `email` with a new one (returned in plain text).
+     */
+    public async createToken(email: string): Promise<string> {
+        const token = randomToken();
+        await this.deleteToken(email);
+        await this.database()
+            .connection()
+            .run(`INSERT INTO ${this.options.table} (email, token, created_at) VALUES (?, ?, ?)`, [
+                email,
+                hashToken(token),
+                this.now().toISOString(),
+            ]);
+        return token;
+    }
+
+    public async tokenExists(email: string, token: string): Promise<boolean> {
+        const row = await this.findRow(email);
+        return row !== null && !this.expired(row) && tokenMatches(row.token, token);
+    }
+
+    /**
+     * Validate the token and update the password; the token is consumed on success.
+     *
+     * The default update also clears the remember token so other devices are logged out.
+     * Unknown emails report an invalid token, so the form cannot be used to find accounts.
+     */
+    public async reset(
+        credentials: ResetCredentials,
+        update: (user: User, password: string) => Promise<void> = (user, password) =>
+            this.updatePassword(user, password),
+    ): Promise<PasswordResetStatus> {
+        const user = await this.provider.retrieveByCredentials({ email: credentials.email });
+        if (user === null) {
+            return "passwords.token";
+        }
+
+        if (!(await this.tokenExists(credentials.email, credentials.token))) {
+            return "passwords.token";
+        }
+
+        await update(user, credentials.password);
+        await this.deleteToken(credentials.email);
+        return "passwords.reset";
+    }
+
+    public async deleteToken(email: string): Promise<void> {
+        await this.database().connection().run(`DELETE FROM ${this.options.table} WHERE email = ?`, [email]);
+    }
+
+    /**
+     * Remove tokens past their expiry.
+     */
+    public async deleteExpired(): Promise<void> {
+        const cutoff = new Date(this.now().getTime() - this.options.expire * 60_000).toISOString();
+        await this.database().connection().run(`DELETE FROM ${this.options.table} WHERE created_at < ?`, [cutoff]);
+    }
+
+    private async updatePassword(user: User, password: string): Promise<void> {
+        user.setAttribute("password", password);
+        await user.save();
+        await this.provider.updateRememberToken(user, null);
+    }
+
+    private async recentlyCreatedToken(email: string): Promise<boolean> {
+        const row = await this.findRow(email);
+        if (row === null || this.options.throttle <= 0) {
+            return false;
+        }
+        return this.now().getTime() - new Date(row.created_at).getTime() < this.options.throttle * 1000;
+    }
+
+    private expired(row: TokenRow): boolean {
+        return this.now().getTime() - new Date(row.created_at).getTime() >= this.options.expire * 60_000;
+    }
+
+    private async findRow(email: string): Promise<TokenRow | null> {
+        const rows = await this.database()
+            .connection()
+            .query<TokenRow>(`SELECT email, token, created_at FROM ${this.options.table} WHERE email = ?`, [email]);
+        return rows[0] ?? null;
+    }
+}
@@ -0,0 +1,198 @@
+import type { AuthSessionStore } from "@ninots/auth";
+import { randomToken } from "@/app/Hashing/tokens";
+import { readCookie, serializeCookie, type CookieOptions } from "@/app/Http/cookies";
+import type { User } from "@/app/Models/User";
+import type { Credentials, UserProvider } from "./UserProvider";
+
+/**
+ * Name of the guard the `auth.session` middleware builds.
+ */
+export const SESSION_GUARD = "session";
+
+export type SessionGuardOptions = {
+    /** "Remember me" cookie lifetime in minutes. */
+    rememberLifetime: number;
+    /** Attributes shared with the session cookie (path, domain, secure, sameSite). */
+    cookie: CookieOptions;
+};
+
+/**
+ * Stateful guard: the user id lives in the session, with an optional
+ * "remember me" cookie (`<id>|<token>`) that restores it once the session expires.
+ *
+ * One guard per request — built by the `auth.session` middleware and read
+ * through {@link import("./auth").auth}.
+ */
+export class SessionGuard {
+    private current: User | null = null;
+    private resolved = false;
+    private recalled = false;
+    private readonly cookies: string[] = [];
+
+    constructor(
+        private readonly name: string,
+        private readonly session: AuthSessionStore,
+        private readonly provider: UserProvider,
+        private readonly request: Request,
+        private readonly options: SessionGuardOptions,
+    ) {}
+
+    /**
+     * Session key holding the authenticated user id of guard `name`.
+     */
+    public static sessionKeyFor(name: string): string {
+        return `login_${name}`;
+    }
+
+    /**
+     * Session key holding the authenticated user id.
+     */
+    public sessionKey(): string {
+        return SessionGuard.sessionKeyFor(this.name);
+    }
+
+    public rememberCookieName(): string {
+        return `remember_${this.name}`;
+    }
+
+    /**
+     * The authenticated user, resolved from the session or the remember cookie.
+     */
+    public async user(): Promise<User | null> {
+        if (this.resolved) {
+            return this.current;
+        }
+        this.resolved = true;
+
+        const id = this.session.get<number | string | undefined>(this.sessionKey());
+        if (id !== undefined) {
+            this.current = await this.provider.retrieveById(id);
+        }
+
+        if (this.current === null) {
+            this.current = await this.userFromRecaller();
+            if (this.current !== null) {
+                this.recalled = true;
+                this.session.put(this.sessionKey(), this.current.getAttribute("id"));
+            }
+        }
+
+        return this.current;
+    }
+
+    public async id(): Promise<number | null> {
+        const user = await this.user();
+        return user === null ? null : Number(user.getAttribute("id"));
+    }
+
+    public async check(): Promise<boolean> {
+        return (await this.user()) !== null;
+    }
+
+    public async guest(): Promise<boolean> {
+        return !(await this.check());
+    }
+
+    /**
+     * Whether the current user was restored from the remember cookie.
+     */
+    public viaRemember(): boolean {
+        return this.recalled;
+    }
+
+    /**
+     * Check credentials without logging in.
+     */
+    public async validate(credentials: Credentials): Promise<boolean> {
+        const user = await this.provider.retrieveByCredentials(credentials);
+        return user !== null && (await this.provider.validateCredentials(user, credentials));
+    }
+
+    /**
+     * Log in with credentials; `false` when no user matches or the password is wrong.
+     */
+    public async attempt(credentials: Credentials, remember = false): Promise<boolean> {
+        const user = await this.provider.retrieveByCredentials(credentials);
+        if (user === null || !(await this.provider.validateCredentials(user, credentials))) {
+            return false;
+        }
+
+        await this.login(user, remember);
+        return true;
+    }
+
+    /**
+     * Log `user` in, regenerating the session id to prevent fixation.
+     */
+    public async login(user: User, remember = false): Promise<void> {
+        await this.session.regenerate();
+        this.session.put(this.sessionKey(), user.getAttribute("id"));
+
+        if (remember) {
+            const token = randomToken();
+            await this.provider.updateRememberToken(user, token);
+            this.queueCookie(`${String(user.getAttribute("id"))}|${token}`, this.options.rememberLifetime * 60);
+        }
+
+        this.current = user;
+        this.resolved = true;
+        this.recalled = false;
+    }
+
+    /**
+     * Log out, invalidate the session and cycle the remember token.
+     */
+    public async logout(): Promise<void> {
+        const user = await this.user();
+        if (user !== null && typeof user.getAttribute("remember_token") === "string") {
+            await this.provider.updateRememberToken(user, null);
+        }
+
+        await this.session.regenerate(true);
+        if (readCookie(this.request, this.rememberCookieName()) !== undefined) {
+            this.queueCookie("", 0);
+        }
+
+        this.current = null;
+        this.resolved = true;
+        this.recalled = false;
+    }
+
+    /**
+     * Give the user a fresh remember token so "remember me" cookies held by other
+     * devices stop working; this device's cookie is re-issued when it sent one.
+     */
+    public async cycleRememberToken(): Promise<void> {
+        const user = await this.user();
+        if (user === null) {
+            return;
+        }
+
+        const token = randomToken();
+        await this.provider.updateRememberToken(user, token);
+        if (readCookie(this.request, this.rememberCookieName()) !== undefined) {
+            this.queueCookie(`${String(user.getAttribute("id"))}|${token}`, this.options.rememberLifetime * 60);
+        }
+    }
+
+    /**
+     * `Set-Cookie` values to attach to the response (remember cookie set/clear).
+     */
+    public queuedCookies(): string[] {
+        return [...this.cookies];
+    }
+
+    private async userFromRecaller(): Promise<User | null> {
+        const recaller = readCookie(this.request, this.rememberCookieName());
+        const separator = recaller?.indexOf("|") ?? -1;
+        if (recaller === undefined || separator <= 0) {
+            return null;
+        }
+
+        return this.provider.retrieveByRememberToken(recaller.slice(0, separator), recaller.slice(separator + 1));
+    }
+
+    private queueCookie(value: string, maxAge: number): void {
+        this.cookies.push(serializeCookie(this.rememberCookieName(), value, { ...this.options.cookie, maxAge }));
+    }
+}
@@ -0,0 +1,73 @@
+import type { PersonalAccessToken } from "@/app/Models/PersonalAccessToken";
+import type { User } from "@/app/Models/User";
+import type { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+import type { UserProvider } from "./UserProvider";
+
+/**
+ * Stateless guard: authenticates `Authorization: Bearer <id>|<secret>` against
+ * `personal_access_tokens`. One guard per request — built by the `auth.token` middleware.
+ */
+export class TokenGuard {
+    private current: User | null = null;
+    private accessToken: PersonalAccessToken | null = null;
+    private resolved = false;
+
+    constructor(
+        private readonly request: Request,
+        private readonly tokens: PersonalAccessTokenService,
+        private readonly provider: UserProvider,
+    ) {}
+
+    public bearerToken(): string | null {
+        const header = this.request.headers.get("Authorization") ?? "";
+        const match = /^Bearer\s+(.+)$/i.exec(header);
+        return match?.[1]?.trim() ?? null;
+    }
+
+    public async user(): Promise<User | null> {
+        if (this.resolved) {
+            return this.current;
+        }
+        this.resolved = true;
+
+        const plainTextToken = this.bearerToken();
+        const token = plainTextToken !== null ? await this.tokens.findToken(plainTextToken) : null;
+        const user = token !== null ? await this.provider.retrieveById(Number(token.getAttribute("user_id"))) : null;
+
+        if (token !== null && user !== null) {
+            await this.tokens.touch(token);
+            this.accessToken = token;
+            this.current = user;
+        }
+
+        return this.current;
+    }
+
+    /**
+     * The token used to authenticate this request.
+     */
+    public async token(): Promise<PersonalAccessToken | null> {
+        await this.user();
+        return this.accessToken;
+    }
+
+    public async id(): Promise<number | null> {
+        const user = await this.user();
+        return user === null ? null : Number(user.getAttribute("id"));
+    }
+
+    public async check(): Promise<boolean> {
+        return (await this.user()) !== null;
+    }
+
+    public async guest(): Promise<boolean> {
+        return !(await this.check());
+    }
+
+    /**
+     * Whether the current token grants `ability` (`false` for guests).
+     */
+    public async tokenCan(ability: string): Promise<boolean> {
+        return (await this.token())?.can(ability) ?? false;
+    }
+}
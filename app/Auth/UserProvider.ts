@@ -0,0 +1,77 @@
+import type { Hasher } from "@/app/Hashing/Hasher";
+import { hashToken, tokenMatches } from "@/app/Hashing/tokens";
+import { User } from "@/app/Models/User";
+
+export type Credentials = Record<string, unknown> & { password?: unknown };
+
+/**
+ * Retrieves users for guards — by id, credentials or "remember me" token.
+ */
+export interface UserProvider {
+    retrieveById(id: number | string): Promise<User | null>;
+    retrieveByCredentials(credentials: Credentials): Promise<User | null>;
+    validateCredentials(user: User, credentials: Credentials): Promise<boolean>;
+    retrieveByRememberToken(id: number | string, token: string): Promise<User | null>;
+    updateRememberToken(user: User, token: string | null): Promise<void>;
+}
+
+/**
+ * `eloquent` provider backed by the {@link User} model.
+ *
+ * Remember tokens are stored as SHA-256 digests, so a leaked `users` row
+ * cannot be replayed as a cookie.
+ */
+export class EloquentUserProvider implements UserProvider {
+    constructor(private readonly hasher: Hasher) {}
+
+    public async retrieveById(id: number | string): Promise<User | null> {
+        const key = Number(id);
+        return Number.isInteger(key) && key > 0 ? User.find(key) : null;
+    }
+
+    /**
+     * Match every credential except `password` as a column equality.
+     */
+    public async retrieveByCredentials(credentials: Credentials): Promise<User | null> {
+        let query = User.query();
+        let constrained = false;
+
+        for (const [column, value] of Object.entries(credentials)) {
+            if (column === "password" || value === undefined) {
+                continue;
+            }
+            query = query.where(column, "=", value);
+            constrained = true;
+        }
+
+        if (!constrained) {
+            return null;
+        }
+
+        const users = await query.limit(1).get();
+        return users.all()[0] ?? null;
+    }
+
+    public async validateCredentials(user: User, credentials: Credentials): Promise<boolean> {
+        const hashed = user.getAttribute("password");
+        if (typeof credentials.password !== "string" || typeof hashed !== "string") {
+            return false;
+        }
+        return this.hasher.check(credentials.password, hashed);
+    }
+
+    public async retrieveByRememberToken(id: number | string, token: string): Promise<User | null> {
+        const user = await this.retrieveById(id);
+        const stored = user?.getAttribute("remember_token");
+        if (user === null || typeof stored !== "string" || stored.length === 0) {
+            return null;
+        }
+
+        return tokenMatches(stored, token) ? user : null;
+    }
+
+    public async updateRememberToken(user: User, token: string | null): Promise<void> {
+        user.setAttribute("remember_token", token === null ? null : hashToken(token));
+        await user.save();
+    }
+}
@@ -0,0 +1,56 @@
+import type { User } from "@/app/Models/User";
+import type { SessionGuard } from "./SessionGuard";
+import type { TokenGuard } from "./TokenGuard";
+
+/** Guards by `config/auth.ts` guard name. */
+export type Guards = {
+    session: SessionGuard;
+    token: TokenGuard;
+};
+
+export type GuardName = keyof Guards;
+
+const guards = new WeakMap<Request, Partial<Guards>>();
+
+/**
+ * Attach a guard to the request (called by the `auth.session` / `auth.token` middleware).
+ */
+export function setRequestGuard<K extends GuardName>(request: Request, name: K, guard: Guards[K]): void {
+    const attached = guards.get(request) ?? {};
+    attached[name] = guard;
+    guards.set(request, attached);
+}
+
+/**
+ * The named guard for `request` (the session guard by default).
+ *
+ * @throws Error when the route is not behind the guard's middleware
+ */
+export function auth<K extends GuardName = "session">(request: Request, name: K = "session" as K): Guards[K] {
+    const guard = guards.get(request)?.[name];
+    if (guard === undefined) {
+        throw new Error(`No [${name}] guard on this request — add the \`auth.${name}\` middleware.`);
+    }
+    return guard as Guards[K];
+}
+
+/**
+ * The authenticated user for `request` from whichever guard is attached, or `null` for guests.
+ */
+export async function user(request: Request): Promise<User | null> {
+    for (const guard of Object.values(guards.get(request) ?? {})) {
+        const current = await guard.user();
+        if (current !== null) {
+            return current;
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether the request's API token grants `ability` (`false` without a token guard or token).
+ */
+export async function tokenCan(request: Request, ability: string): Promise<boolean> {
+    const guard = guards.get(request)?.token;
+    return guard !== undefined && (await guard.tokenCan(ability));
+}
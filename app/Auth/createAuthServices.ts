@@ -0,0 +1,65 @@
+/**
+ * Session auth wiring for the starter — user providers and guard options from `config/auth.ts`.
+ *
+ * @packageDocumentation
+ */
+
+import type { NotificationSender } from "@ninots/notifications";
+import authConfig from "@/config/auth";
+import { sessionCookieOptions } from "@/app/Session/createSessionServices";
+import type { Hasher } from "@/app/Hashing/Hasher";
+import { PasswordBroker } from "./Passwords/PasswordBroker";
+import type { SessionGuardOptions } from "./SessionGuard";
+import { EloquentUserProvider, type UserProvider } from "./UserProvider";
+
+/** Container key for the default guard's {@link UserProvider}. */
+export const USER_PROVIDER_KEY = "UserProvider";
+
+/** Container key for the `users` {@link PasswordBroker}. */
+export const PASSWORD_BROKER_KEY = "PasswordBroker";
+
+/** Models addressable from `providers.*.model`. */
+const PROVIDER_MODELS = new Set(["User"]);
+
+/**
+ * Create the {@link UserProvider} named in `config/auth.ts` → `providers`.
+ */
+export function createUserProvider(
+    hasher: Hasher,
+    name: string = authConfig.guards[authConfig.defaults.guard as keyof typeof authConfig.guards].provider,
+): UserProvider {
+    const config = authConfig.providers[name as keyof typeof authConfig.providers];
+    if (config === undefined) {
+        throw new Error(`Auth user provider [${name}] is not defined.`);
+    }
+    if (config.driver !== "eloquent" || !PROVIDER_MODELS.has(config.model)) {
+        throw new Error(`Unsupported auth user provider [${name}]: ${config.driver} / ${config.model}`);
+    }
+    return new EloquentUserProvider(hasher);
+}
+
+/**
+ * Remember cookie shares the session cookie's path / domain / secure / SameSite.
+ */
+export function sessionGuardOptions(): SessionGuardOptions {
+    return {
+        rememberLifetime: authConfig.remember.lifetime,
+        cookie: sessionCookieOptions(),
+    };
+}
+
+/**
+ * Create the {@link PasswordBroker} named in `config/auth.ts` → `passwords`.
+ */
+export function createPasswordBroker(
+    hasher: Hasher,
+    notifications: NotificationSender,
+    name: keyof typeof authConfig.passwords = "users",
+): PasswordBroker {
+    const config = authConfig.passwords[name];
+    return new PasswordBroker(createUserProvider(hasher, config.provider), notifications, {
+        table: config.table,
+        expire: config.expire,
+        throttle: config.throttle,
+    });
+}
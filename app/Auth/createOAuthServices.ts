@@ -1,30 +1,28 @@
-import type { ProviderConfig } from "@ninots/social-auth";
-import { OAuthManager } from "@ninots/social-auth";
+import { OAuthManager, type ProviderConfig } from "@ninots/social-auth";
+import servicesConfig from "@/config/services";
 
 /**
- * Optional OAuth / social-auth wiring for the starter.
+ * OAuth / social login wiring for the starter.
  * Compose in the app only — `@ninots/auth` does not import `@ninots/social-auth`.
  *
  * Env keys (see `.env.example`): GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, GITHUB_REDIRECT_URI.
+ * Providers without credentials are not registered, so their routes answer 404.
  */
 export const OAUTH_MANAGER_KEY = "ninots.oauth";
 
-export function createOAuthManager(): OAuthManager | null {
-    const clientId = process.env.GITHUB_CLIENT_ID;
-    const clientSecret = process.env.GITHUB_CLIENT_SECRET;
-    const redirectUri = process.env.GITHUB_REDIRECT_URI;
+export function createOAuthManager(): OAuthManager {
+    const providers: Record<string, ProviderConfig> = {};
+    const github = servicesConfig.github;
 
-    if (!clientId || !clientSecret || !redirectUri) {
-        return null;
+    if (github.clientId && github.clientSecret && github.redirectUri) {
+        providers.github = {
+            clientId: github.clientId,
+            clientSecret: github.clientSecret,
+            redirectUri: github.redirectUri,
+            scopes: github.scopes,
+            usePkce: true,
+        };
     }
 
-    const github: ProviderConfig = {
-        clientId,
-        clientSecret,
-        redirectUri,
-        scopes: ["read:user", "user:email"],
-        usePkce: true,
-    };
-
-    return new OAuthManager({ github });
+    return new OAuthManager(providers);
 }
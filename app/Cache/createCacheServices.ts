@@ -13,6 +13,22 @@ import cacheConfig from "@/config/cache";
 /** Container key for {@link CacheManager}. */
 export const CACHE_MANAGER_KEY = "CacheManager";
 
+/**
+ * Whether store `name` is seen by every process — `array` lives and dies with one.
+ */
+export function isSharedCacheStore(name: string = cacheConfig.default): boolean {
+    const stores: Record<string, { driver: string }> = cacheConfig.stores;
+    return stores[name]?.driver !== "array";
+}
+
+/**
+ * Store for coordinating processes (scheduler mutexes, `queue:restart`): the
+ * default store when it is shared, the `file` store otherwise.
+ */
+export function sharedCacheStore(cache: CacheManager): ReturnType<CacheManager["store"]> {
+    return cache.store(isSharedCacheStore() ? cacheConfig.default : "file");
+}
+
 /**
  * Create the canonical {@link CacheManager} with array / file / redis stores.
  */
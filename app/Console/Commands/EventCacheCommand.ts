@@ -0,0 +1,28 @@
+import { Command } from "@ninots/console";
+import type { EventDiscovery } from "@/app/Events/EventDiscovery";
+
+export type EventDiscoveryCommandOptions = {
+    resolveDiscovery: () => EventDiscovery;
+};
+
+/**
+ * `nino event:cache` — write the discovered listeners to a manifest so
+ * production boots without scanning `app/Listeners`.
+ */
+export class EventCacheCommand extends Command {
+    protected override signature = "event:cache";
+    protected override description = "Cache the discovered events and listeners";
+
+    constructor(private readonly options: EventDiscoveryCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const manifest = this.options.resolveDiscovery().cache();
+        const listeners = Object.values(manifest).reduce((total, entries) => total + entries.length, 0);
+        this.info(
+            `Cached ${String(listeners)} listener(s) for ${String(Object.keys(manifest).length)} event(s) successfully`,
+        );
+        return 0;
+    }
+}
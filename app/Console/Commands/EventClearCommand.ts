@@ -0,0 +1,23 @@
+import { Command } from "@ninots/console";
+import type { EventDiscoveryCommandOptions } from "./EventCacheCommand";
+
+/**
+ * `nino event:clear` — delete the `event:cache` manifest so discovery scans again.
+ */
+export class EventClearCommand extends Command {
+    protected override signature = "event:clear";
+    protected override description = "Clear the cached events and listeners";
+
+    constructor(private readonly options: EventDiscoveryCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        if (this.options.resolveDiscovery().clear()) {
+            this.info("Cached events cleared successfully");
+        } else {
+            this.info("No cached events to clear");
+        }
+        return 0;
+    }
+}
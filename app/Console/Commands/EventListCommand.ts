@@ -0,0 +1,34 @@
+import { Command } from "@ninots/console";
+import type { EventListenerRegistrar } from "@/app/Events/EventListenerRegistrar";
+
+export type EventListCommandOptions = {
+    resolveRegistrar: () => EventListenerRegistrar | Promise<EventListenerRegistrar>;
+};
+
+/**
+ * `nino event:list` — every event with its listeners, marking the queued ones.
+ */
+export class EventListCommand extends Command {
+    protected override signature = "event:list";
+    protected override description = "List the application's events and listeners";
+
+    constructor(private readonly options: EventListCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const events = (await this.options.resolveRegistrar()).all();
+        if (events.size === 0) {
+            this.info("No events have listeners.");
+            return 0;
+        }
+
+        for (const [event, listeners] of [...events].sort(([a], [b]) => a.localeCompare(b))) {
+            this.line(event);
+            for (const { listener, queued } of listeners) {
+                this.line(`  ⇂ ${listener}${queued ? " (queued)" : ""}`);
+            }
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,95 @@
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { Command } from "@ninots/console";
+
+export type MakeMailCommandOptions = {
+    paths: { basePath: string };
+};
+
+function kebabCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+function mailableStub(className: string, view: string): string {
+    return `import { type Content, type Envelope, Mailable } from "@/app/Mail/Mailable";
+import { ${className} as ${className}View, type ${className}Props } from "@/resources/views/mail/${view}";
+
+/**
+ * The ${className} email.
+ */
+export class ${className} extends Mailable<${className}Props> {
+    public envelope(): Envelope {
+        return { subject: "${className}" };
+    }
+
+    public content(): Content<${className}Props> {
+        return {
+            view: ${className}View,
+            props: {},
+        };
+    }
+}
+`;
+}
+
+function viewStub(className: string): string {
+    return `import { withLayout } from "@ninots/view";
+import { MailLayout } from "@/resources/views/layouts/mail";
+
+export type ${className}Props = Record<string, never>;
+
+function ${className}Page(_props: ${className}Props) {
+    return (
+        <section>
+            <h1>${className}</h1>
+            <p>Hello!</p>
+        </section>
+    );
+}
+
+export const ${className} = withLayout(MailLayout, ${className}Page, { title: "${className}" });
+`;
+}
+
+/**
+ * \`nino make:mail\` — scaffold a mailable under \`app/Mail\` and its view under \`resources/views/mail\`.
+ */
+export class MakeMailCommand extends Command {
+    protected override signature = "make:mail {name}";
+    protected override description = "Create a new mailable class with a TSX view";
+
+    constructor(private readonly options: MakeMailCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const className = this.argument("name");
+
+        if (typeof className !== "string" || !/^[A-Z][A-Za-z0-9]*$/.test(className)) {
+            this.warn("Mailable name must be PascalCase, e.g. OrderShipped");
+            return 1;
+        }
+
+        const view = kebabCase(className);
+        const files = [
+            { path: `app/Mail/${className}.ts`, contents: mailableStub(className, view) },
+            { path: `resources/views/mail/${view}.tsx`, contents: viewStub(className) },
+        ];
+
+        for (const file of files) {
+            if (existsSync(join(this.options.paths.basePath, file.path))) {
+                this.warn(`File already exists: ${file.path}`);
+                return 1;
+            }
+        }
+
+        for (const file of files) {
+            const target = join(this.options.paths.basePath, file.path);
+            await mkdir(dirname(target), { recursive: true });
+            await writeFile(target, file.contents, "utf8");
+            this.info(`Created: ${file.path}`);
+        }
+        return 0;
+    }
+}
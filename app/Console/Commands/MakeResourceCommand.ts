@@ -0,0 +1,64 @@
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { Command } from "@ninots/console";
+
+export type MakeResourceCommandOptions = {
+    paths: { basePath: string };
+};
+
+function resourceStub(className: string, model: string | undefined): string {
+    const modelImport = model !== undefined ? `import type { ${model} } from "@/app/Models/${model}";\n` : "";
+    const resourceType = model ?? "Record<string, unknown>";
+    const body =
+        model !== undefined ? `            id: this.resource.getAttribute("id"),\n` : `            ...this.resource,\n`;
+
+    return `${modelImport}import { JsonResource } from "@/app/Http/Resources/JsonResource";
+
+/**
+ * Public API shape of ${model !== undefined ? `a {@link ${model}}` : "the resource"}.
+ */
+export class ${className} extends JsonResource<${resourceType}> {
+    public toArray(): Record<string, unknown> {
+        return {
+${body}        };
+    }
+}
+`;
+}
+
+/**
+ * `nino make:resource` — scaffold an API resource under `app/Http/Resources`.
+ */
+export class MakeResourceCommand extends Command {
+    protected override signature = "make:resource {name} {--model=}";
+    protected override description = "Create a new API resource class";
+
+    constructor(private readonly options: MakeResourceCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const nameArgument = this.argument("name");
+        const modelOption = this.option("model");
+
+        if (typeof nameArgument !== "string" || !/^[A-Z][A-Za-z0-9]*$/.test(nameArgument)) {
+            this.warn("Resource name must be PascalCase, e.g. PostResource");
+            return 1;
+        }
+
+        const className = nameArgument.endsWith("Resource") ? nameArgument : `${nameArgument}Resource`;
+        const model = typeof modelOption === "string" && modelOption.length > 0 ? modelOption : undefined;
+        const target = join(this.options.paths.basePath, "app/Http/Resources", `${className}.ts`);
+
+        if (existsSync(target)) {
+            this.warn(`Resource already exists: app/Http/Resources/${className}.ts`);
+            return 1;
+        }
+
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, resourceStub(className, model), "utf8");
+        this.info(`Resource created: app/Http/Resources/${className}.ts`);
+        return 0;
+    }
+}
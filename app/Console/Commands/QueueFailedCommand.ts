@@ -0,0 +1,35 @@
+import { Command } from "@ninots/console";
+import type { FailedJobStore } from "@/app/Queue/FailedJobStore";
+
+export type FailedJobCommandOptions = {
+    resolveFailedJobs: () => FailedJobStore;
+};
+
+/**
+ * `nino queue:failed` — list jobs recorded in `failed_jobs`.
+ */
+export class QueueFailedCommand extends Command {
+    protected override signature = "queue:failed";
+    protected override description = "List all of the failed queue jobs";
+
+    constructor(private readonly options: FailedJobCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const jobs = await this.options.resolveFailedJobs().all();
+        if (jobs.length === 0) {
+            this.info("No failed jobs");
+            return 0;
+        }
+
+        this.line(`${"ID".padEnd(6)} ${"CONNECTION".padEnd(12)} ${"QUEUE".padEnd(12)} ${"JOB".padEnd(30)} FAILED AT`);
+        for (const job of jobs) {
+            this.line(
+                `${String(job.id).padEnd(6)} ${job.connection.padEnd(12)} ${job.queue.padEnd(12)} ` +
+                    `${job.payload.jobName.padEnd(30)} ${job.failedAt.toISOString()}`,
+            );
+        }
+        return 0;
+    }
+}
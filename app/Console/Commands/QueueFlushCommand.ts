@@ -0,0 +1,20 @@
+import { Command } from "@ninots/console";
+import type { FailedJobCommandOptions } from "./QueueFailedCommand";
+
+/**
+ * `nino queue:flush` — delete every failed job.
+ */
+export class QueueFlushCommand extends Command {
+    protected override signature = "queue:flush";
+    protected override description = "Delete all of the failed queue jobs";
+
+    constructor(private readonly options: FailedJobCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const count = await this.options.resolveFailedJobs().flush();
+        this.info(`Deleted ${String(count)} failed job(s)`);
+        return 0;
+    }
+}
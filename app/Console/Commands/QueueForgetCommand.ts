@@ -0,0 +1,24 @@
+import { Command } from "@ninots/console";
+import type { FailedJobCommandOptions } from "./QueueFailedCommand";
+
+/**
+ * `nino queue:forget` — delete one failed job.
+ */
+export class QueueForgetCommand extends Command {
+    protected override signature = "queue:forget {id}";
+    protected override description = "Delete a failed queue job";
+
+    constructor(private readonly options: FailedJobCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const id = String(this.argument("id") ?? "");
+        if (!(await this.options.resolveFailedJobs().forget(Number(id)))) {
+            this.warn(`No failed job with id [${id}]`);
+            return 1;
+        }
+        this.info(`Failed job #${id} deleted`);
+        return 0;
+    }
+}
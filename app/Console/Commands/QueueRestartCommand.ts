@@ -0,0 +1,42 @@
+import { Command } from "@ninots/console";
+import { QUEUE_RESTART_KEY } from "@/app/Queue/Worker";
+
+type RestartCache = { put(key: string, value: unknown, seconds?: number): Promise<unknown> };
+
+export type QueueRestartCommandOptions = {
+    /** Store workers poll (see {@link import("@/app/Cache/createCacheServices").sharedCacheStore}). */
+    resolveCache: () => RestartCache | Promise<RestartCache>;
+    /** `false` when the default cache store is per-process and the signal falls back to the `file` store. */
+    sharedStore?: boolean;
+    now?: () => Date;
+};
+
+/**
+ * `nino queue:restart` — tell running workers to exit after their current job
+ * (run it after a deploy; the process manager starts them again on the new code).
+ *
+ * The signal only reaches workers that read the same cache store: with the
+ * per-process `array` default it lands in the `file` store, so only workers on
+ * this machine see it, and the command warns about it.
+ */
+export class QueueRestartCommand extends Command {
+    protected override signature = "queue:restart";
+    protected override description = "Restart queue workers after their current job";
+
+    constructor(private readonly options: QueueRestartCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const cache = await this.options.resolveCache();
+        await cache.put(QUEUE_RESTART_KEY, (this.options.now?.() ?? new Date()).getTime());
+        if (this.options.sharedStore === false) {
+            this.warn(
+                "The default cache store is per-process: the signal went to the file store and only reaches " +
+                    "workers on this machine. Set CACHE_STORE=redis to restart workers everywhere.",
+            );
+        }
+        this.info("Broadcasting queue restart signal.");
+        return 0;
+    }
+}
@@ -0,0 +1,42 @@
+import { Command } from "@ninots/console";
+import type { ReservableQueue } from "@/app/Queue/ReservableQueue";
+import type { FailedJobCommandOptions } from "./QueueFailedCommand";
+
+export type QueueRetryCommandOptions = FailedJobCommandOptions & {
+    /** Queue connection a failed job came from. */
+    resolveQueue: (connection: string) => ReservableQueue | Promise<ReservableQueue>;
+};
+
+/**
+ * `nino queue:retry` — push failed jobs back onto their queue (`all` retries every one).
+ */
+export class QueueRetryCommand extends Command {
+    protected override signature = "queue:retry {id}";
+    protected override description = "Retry a failed queue job, or all of them";
+
+    constructor(private readonly options: QueueRetryCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const idArgument = String(this.argument("id") ?? "");
+        const failedJobs = this.options.resolveFailedJobs();
+
+        const jobs =
+            idArgument === "all"
+                ? await failedJobs.all()
+                : [await failedJobs.find(Number(idArgument))].filter((job) => job !== null);
+        if (jobs.length === 0) {
+            this.warn(idArgument === "all" ? "No failed jobs" : `No failed job with id [${idArgument}]`);
+            return 1;
+        }
+
+        for (const job of jobs) {
+            const queue = await this.options.resolveQueue(job.connection);
+            await queue.pushRaw(job.payload, job.queue);
+            await failedJobs.forget(job.id);
+            this.info(`Failed job #${String(job.id)} pushed back onto the [${job.queue}] queue`);
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,44 @@
+import queueConfig from "@/config/queue";
+import { TableMigrationCommand } from "./TableMigrationCommand";
+
+function migrationStub(table: string): string {
+    return `import type { Connection, Migration } from "@ninots/orm";
+
+/**
+ * Create ${table} table migration (\`QUEUE_CONNECTION=database\`).
+ */
+export default class CreateJobsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(\`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                queue TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                reserved_at INTEGER,
+                available_at INTEGER NOT NULL,
+                created_at INTEGER NOT NULL
+            )
+        \`);
+        await connection.run("CREATE INDEX IF NOT EXISTS ${table}_queue_index ON ${table} (queue)");
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("DROP TABLE IF EXISTS ${table}");
+    }
+}
+`;
+}
+
+/**
+ * `nino queue:table` — write the migration for the database queue's `jobs` table.
+ */
+export class QueueTableCommand extends TableMigrationCommand {
+    protected override signature = "queue:table";
+    protected override description = "Create a migration for the queue jobs database table";
+    protected override readonly migrationName = "create_jobs_table";
+
+    protected override stub(): string {
+        return migrationStub(queueConfig.connections.database.table);
+    }
+}
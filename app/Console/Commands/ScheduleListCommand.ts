@@ -0,0 +1,31 @@
+import { Command } from "@ninots/console";
+import type { ScheduleCommandOptions } from "./ScheduleRunCommand";
+
+/**
+ * `nino schedule:list` — show every scheduled task with its cron expression and next run.
+ */
+export class ScheduleListCommand extends Command {
+    protected override signature = "schedule:list";
+    protected override description = "List the scheduled tasks";
+
+    constructor(private readonly options: ScheduleCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const schedule = await this.options.resolveSchedule();
+        const now = this.options.now?.() ?? new Date();
+        const events = schedule.all();
+
+        if (events.length === 0) {
+            this.info("No scheduled tasks have been defined.");
+            return 0;
+        }
+
+        for (const event of events) {
+            const next = event.nextRunDate(now, schedule.timezone).toISOString();
+            this.line(`${event.getExpression().padEnd(16)} ${event.description.padEnd(40)} Next due: ${next}`);
+        }
+        return 0;
+    }
+}
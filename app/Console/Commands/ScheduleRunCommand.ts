@@ -0,0 +1,49 @@
+import { Command } from "@ninots/console";
+import type { Schedule } from "@/app/Console/Scheduling/Schedule";
+
+export type ScheduleCommandOptions = {
+    resolveSchedule: () => Schedule | Promise<Schedule>;
+    now?: () => Date;
+};
+
+/**
+ * `nino schedule:run` — run the tasks due this minute. Call it from cron:
+ * `* * * * * cd /path/to/app && bun nino schedule:run`.
+ */
+export class ScheduleRunCommand extends Command {
+    protected override signature = "schedule:run";
+    protected override description = "Run the scheduled tasks that are due";
+
+    constructor(protected readonly options: ScheduleCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const schedule = await this.options.resolveSchedule();
+        return this.runDueEvents(schedule, this.options.now?.() ?? new Date());
+    }
+
+    /**
+     * Run the events due at `now` and report each one; exit code 1 when any failed.
+     */
+    protected async runDueEvents(schedule: Schedule, now: Date): Promise<number> {
+        const results = await schedule.runDueEvents(now);
+        if (results.length === 0) {
+            this.info("No scheduled commands are ready to run.");
+            return 0;
+        }
+
+        let failed = false;
+        for (const { event, ran, error } of results) {
+            if (error !== undefined) {
+                failed = true;
+                this.warn(`Failed: ${event.description} (${error instanceof Error ? error.message : String(error)})`);
+            } else if (ran) {
+                this.info(`Ran: ${event.description}`);
+            } else {
+                this.line(`Skipped: ${event.description} (still running)`);
+            }
+        }
+        return failed ? 1 : 0;
+    }
+}
@@ -0,0 +1,61 @@
+import { type ScheduleCommandOptions, ScheduleRunCommand } from "./ScheduleRunCommand";
+
+export type ScheduleWorkCommandOptions = ScheduleCommandOptions & {
+    /** Stops the loop; defaults to SIGINT / SIGTERM. */
+    signal?: AbortSignal;
+};
+
+function sleepUntil(date: Date, now: Date, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, Math.max(0, date.getTime() - now.getTime()));
+        function done(): void {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            resolve();
+        }
+        signal.addEventListener("abort", done, { once: true });
+    });
+}
+
+/**
+ * `nino schedule:work` — run the scheduler in the foreground at the start of
+ * every minute (local development; use cron + `schedule:run` in production).
+ */
+export class ScheduleWorkCommand extends ScheduleRunCommand {
+    protected override signature = "schedule:work";
+    protected override description = "Run the scheduler every minute in the foreground";
+
+    constructor(protected override readonly options: ScheduleWorkCommandOptions) {
+        super(options);
+    }
+
+    public override async handle(): Promise<number> {
+        const schedule = await this.options.resolveSchedule();
+        const now = this.options.now ?? (() => new Date());
+        const signal = this.options.signal ?? this.processSignal();
+
+        this.info("Running scheduled tasks every minute. Press Ctrl+C to stop");
+
+        while (!signal.aborted) {
+            const current = now();
+            const nextMinute = new Date(Math.floor(current.getTime() / 60_000) * 60_000 + 60_000);
+            await sleepUntil(nextMinute, current, signal);
+            if (!signal.aborted) {
+                await this.runDueEvents(schedule, nextMinute);
+            }
+        }
+
+        this.info("Scheduler stopped");
+        return 0;
+    }
+
+    private processSignal(): AbortSignal {
+        const controller = new AbortController();
+        const stop = (): void => {
+            controller.abort();
+        };
+        process.once("SIGINT", stop);
+        process.once("SIGTERM", stop);
+        return controller.signal;
+    }
+}
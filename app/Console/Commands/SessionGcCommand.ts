@@ -0,0 +1,25 @@
+import { Command } from "@ninots/console";
+import type { SessionGarbageCollector } from "@/app/Session/SessionGarbageCollector";
+
+export type SessionGcCommandOptions = {
+    resolveCollector: () => SessionGarbageCollector | Promise<SessionGarbageCollector>;
+};
+
+/**
+ * `nino session:gc` — delete expired sessions of the file or database driver.
+ */
+export class SessionGcCommand extends Command {
+    protected override signature = "session:gc";
+    protected override description = "Delete expired sessions";
+
+    constructor(private readonly options: SessionGcCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const collector = await this.options.resolveCollector();
+        const removed = await collector.collect();
+        this.info(`Removed ${String(removed)} expired session(s)`);
+        return 0;
+    }
+}
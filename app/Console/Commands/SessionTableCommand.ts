@@ -0,0 +1,44 @@
+import sessionConfig from "@/config/session";
+import { TableMigrationCommand } from "./TableMigrationCommand";
+
+function migrationStub(table: string): string {
+    return `import type { Connection, Migration } from "@ninots/orm";
+
+/**
+ * Create ${table} table migration (\`SESSION_DRIVER=database\`).
+ */
+export default class CreateSessionsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(\`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER,
+                ip_address TEXT,
+                user_agent TEXT,
+                payload TEXT NOT NULL,
+                last_activity INTEGER NOT NULL
+            )
+        \`);
+        await connection.run("CREATE INDEX IF NOT EXISTS ${table}_user_id_index ON ${table} (user_id)");
+        await connection.run("CREATE INDEX IF NOT EXISTS ${table}_last_activity_index ON ${table} (last_activity)");
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("DROP TABLE IF EXISTS ${table}");
+    }
+}
+`;
+}
+
+/**
+ * `nino session:table` — write the migration for the database session driver's table.
+ */
+export class SessionTableCommand extends TableMigrationCommand {
+    protected override signature = "session:table";
+    protected override description = "Create a migration for the session database table";
+    protected override readonly migrationName = "create_sessions_table";
+
+    protected override stub(): string {
+        return migrationStub(sessionConfig.table);
+    }
+}
@@ -0,0 +1,49 @@
+import { mkdir, readdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Command } from "@ninots/console";
+import databaseConfig from "@/config/database";
+
+export type TableMigrationCommandOptions = {
+    paths: { basePath: string };
+    now?: () => Date;
+};
+
+function migrationTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return (
+        `${date.getFullYear()}_${pad(date.getMonth() + 1)}_${pad(date.getDate())}_` +
+        `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    );
+}
+
+/**
+ * Base for `*:table` generators — writes one timestamped migration for a
+ * framework table and refuses when a migration with that name already exists.
+ */
+export abstract class TableMigrationCommand extends Command {
+    /** Migration name without timestamp, e.g. `create_sessions_table`. */
+    protected abstract readonly migrationName: string;
+
+    constructor(private readonly options: TableMigrationCommandOptions) {
+        super();
+    }
+
+    protected abstract stub(): string;
+
+    public async handle(): Promise<number> {
+        const relative = databaseConfig.migrations.directory;
+        const directory = join(this.options.paths.basePath, relative);
+        await mkdir(directory, { recursive: true });
+
+        const existing = (await readdir(directory)).find((file) => file.endsWith(`_${this.migrationName}.ts`));
+        if (existing !== undefined) {
+            this.warn(`Migration already exists: ${relative}/${existing}`);
+            return 1;
+        }
+
+        const file = `${migrationTimestamp(this.options.now?.() ?? new Date())}_${this.migrationName}.ts`;
+        await writeFile(join(directory, file), this.stub(), "utf8");
+        this.info(`Migration created: ${relative}/${file}`);
+        return 0;
+    }
+}
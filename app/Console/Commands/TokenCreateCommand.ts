@@ -0,0 +1,61 @@
+import { Command } from "@ninots/console";
+import { User } from "@/app/Models/User";
+import type { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+
+export type TokenCommandOptions = {
+    resolveTokens: () => PersonalAccessTokenService;
+};
+
+/**
+ * `nino token:create` — issue a personal access token for a user (printed once).
+ */
+export class TokenCreateCommand extends Command {
+    protected override signature = "token:create {email} {--name=cli} {--abilities=} {--expires=}";
+    protected override description = "Create a personal access token for a user";
+
+    constructor(private readonly options: TokenCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const email = this.argument("email");
+        const nameOption = this.option("name");
+        const abilitiesOption = this.option("abilities");
+        const expiresOption = this.option("expires");
+
+        const users = await User.query()
+            .where("email", "=", String(email ?? ""))
+            .limit(1)
+            .get();
+        const user = users.all()[0];
+        if (user === undefined) {
+            this.warn(`No user with email [${String(email ?? "")}]`);
+            return 1;
+        }
+
+        const expiresInDays =
+            typeof expiresOption === "string" && expiresOption.length > 0 ? Number(expiresOption) : null;
+        if (expiresInDays !== null && !(expiresInDays > 0)) {
+            this.warn("--expires must be a positive number of days");
+            return 1;
+        }
+
+        const abilities =
+            typeof abilitiesOption === "string" && abilitiesOption.length > 0
+                ? abilitiesOption.split(",").map((ability) => ability.trim())
+                : ["*"];
+
+        const { accessToken, plainTextToken } = await this.options
+            .resolveTokens()
+            .create(user, typeof nameOption === "string" && nameOption.length > 0 ? nameOption : "cli", {
+                abilities,
+                ...(expiresInDays !== null ? { expiresAt: new Date(Date.now() + expiresInDays * 86_400_000) } : {}),
+            });
+
+        this.info(
+            `Token #${String(accessToken.getAttribute("id"))} created — copy it now, it will not be shown again:`,
+        );
+        this.line(plainTextToken);
+        return 0;
+    }
+}
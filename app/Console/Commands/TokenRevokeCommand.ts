@@ -0,0 +1,45 @@
+import { Command } from "@ninots/console";
+import { User } from "@/app/Models/User";
+import type { TokenCommandOptions } from "./TokenCreateCommand";
+
+/**
+ * `nino token:revoke` — revoke one token (`--id`) or all tokens of a user (`--user`).
+ */
+export class TokenRevokeCommand extends Command {
+    protected override signature = "token:revoke {--id=} {--user=}";
+    protected override description = "Revoke a personal access token, or all tokens of a user";
+
+    constructor(private readonly options: TokenCommandOptions) {
+        super();
+    }
+
+    public async handle(): Promise<number> {
+        const idOption = this.option("id");
+        const userOption = this.option("user");
+        const tokens = this.options.resolveTokens();
+
+        if (typeof idOption === "string" && idOption.length > 0) {
+            if (!(await tokens.revoke(Number(idOption)))) {
+                this.warn(`Token #${idOption} not found`);
+                return 1;
+            }
+            this.info(`Token #${idOption} revoked`);
+            return 0;
+        }
+
+        if (typeof userOption === "string" && userOption.length > 0) {
+            const users = await User.query().where("email", "=", userOption).limit(1).get();
+            const user = users.all()[0];
+            if (user === undefined) {
+                this.warn(`No user with email [${userOption}]`);
+                return 1;
+            }
+            const count = await tokens.revokeAll(Number(user.getAttribute("id")));
+            this.info(`Revoked ${String(count)} token(s) for ${userOption}`);
+            return 0;
+        }
+
+        this.warn("Pass --id=<token id> or --user=<email>");
+        return 1;
+    }
+}
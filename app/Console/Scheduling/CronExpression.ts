@@ -0,0 +1,149 @@
+/** Inclusive bounds of minute, hour, day of month, month and day of week. */
+const FIELD_BOUNDS: [number, number][] = [
+    [0, 59],
+    [0, 23],
+    [1, 31],
+    [1, 12],
+    [0, 7],
+];
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+type TimeParts = { minute: number; hour: number; day: number; month: number; weekday: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock fields of `date` in `timezone`.
+ */
+function timeParts(date: Date, timezone: string): TimeParts {
+    let formatter = formatters.get(timezone);
+    if (formatter === undefined) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            hourCycle: "h23",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            weekday: "short",
+        });
+        formatters.set(timezone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        minute: Number(parts.minute),
+        hour: Number(parts.hour),
+        day: Number(parts.day),
+        month: Number(parts.month),
+        weekday: DAY_NAMES.indexOf((parts.weekday ?? "").toLowerCase()),
+    };
+}
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+    const named = names?.indexOf(value.toLowerCase()) ?? -1;
+    return named !== -1 ? named + offset : Number(value);
+}
+
+function parseField(field: string, position: number): Set<number> {
+    const [min, max] = FIELD_BOUNDS[position] ?? [0, 0];
+    const names = position === 3 ? MONTH_NAMES : position === 4 ? DAY_NAMES : undefined;
+    const offset = position === 3 ? 1 : 0;
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const [range = "", stepText] = part.split("/");
+        const step = stepText === undefined ? 1 : Number(stepText);
+        let [from, to] = [min, max];
+        if (range !== "*") {
+            const [start = "", end] = range.split("-");
+            from = parseValue(start, names, offset);
+            to = end === undefined ? (stepText === undefined ? from : max) : parseValue(end, names, offset);
+        }
+
+        if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+            throw new Error(`Invalid cron field [${field}]`);
+        }
+        for (let value = from; value <= to; value += step) {
+            // Day of week 7 is Sunday, like 0.
+            values.add(position === 4 && value === 7 ? 0 : value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Five-field cron expression (`minute hour day-of-month month day-of-week`),
+ * evaluated in a given timezone.
+ *
+ * Supports `*`, lists, ranges, steps and month / weekday names. As in cron, when
+ * both day fields are restricted a day matching either one is due.
+ */
+export class CronExpression {
+    private constructor(
+        public readonly expression: string,
+        private readonly fields: Set<number>[],
+        private readonly restrictsDayOfMonth: boolean,
+        private readonly restrictsDayOfWeek: boolean,
+    ) {}
+
+    /**
+     * @throws Error when `expression` is not a valid five-field cron expression
+     */
+    public static parse(expression: string): CronExpression {
+        const parts = expression.trim().split(/\s+/);
+        if (parts.length !== 5) {
+            throw new Error(`Invalid cron expression [${expression}]: expected 5 fields`);
+        }
+        return new CronExpression(
+            parts.join(" "),
+            parts.map((field, position) => parseField(field, position)),
+            parts[2] !== "*",
+            parts[4] !== "*",
+        );
+    }
+
+    public isDue(date: Date, timezone = "UTC"): boolean {
+        const time = timeParts(date, timezone);
+        return this.matchesHour(time) && this.fields[0]?.has(time.minute) === true;
+    }
+
+    /**
+     * First minute strictly after `after` at which the expression is due.
+     */
+    public nextRunDate(after: Date, timezone = "UTC"): Date {
+        let candidate = new Date(Math.floor(after.getTime() / 60_000) * 60_000 + 60_000);
+        // Scan by hour until the day/hour matches, then by minute; four years covers Feb 29.
+        const limit = candidate.getTime() + 4 * 366 * 24 * 60 * 60_000;
+
+        while (candidate.getTime() < limit) {
+            const time = timeParts(candidate, timezone);
+            if (!this.matchesHour(time)) {
+                candidate = new Date(candidate.getTime() + (60 - time.minute) * 60_000);
+                continue;
+            }
+            if (this.fields[0]?.has(time.minute) === true) {
+                return candidate;
+            }
+            candidate = new Date(candidate.getTime() + 60_000);
+        }
+
+        throw new Error(`Cron expression [${this.expression}] is never due`);
+    }
+
+    private matchesHour(time: TimeParts): boolean {
+        const [, hours, days, months, weekdays] = this.fields;
+        const dayOfMonth = days?.has(time.day) === true;
+        const dayOfWeek = weekdays?.has(time.weekday) === true;
+        const day =
+            this.restrictsDayOfMonth && this.restrictsDayOfWeek ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+
+        return day && months?.has(time.month) === true && hours?.has(time.hour) === true;
+    }
+}
@@ -0,0 +1,88 @@
+import type { QueueableJob } from "@ninots/queue";
+import { ScheduledEvent, type SchedulerCache } from "./ScheduledEvent";
+
+export type ScheduleOptions = {
+    cache: SchedulerCache;
+    /** Run a console command in-process (`kernel.run(argv)`); resolves to its exit code. */
+    runCommand: (argv: string[]) => Promise<number>;
+    /** Push a job onto the queue (`Bus.dispatch`). */
+    dispatch: (job: QueueableJob) => Promise<void>;
+    /** Default IANA timezone for cron expressions (`config.app.timezone`). */
+    timezone: string;
+    /** Current `APP_ENV`, matched against `environments()` filters. */
+    environment: string;
+};
+
+export type ScheduleRunResult = { event: ScheduledEvent; ran: boolean; error?: unknown };
+
+/**
+ * Registry of scheduled tasks, filled by `registerConsoleRoutes()` in
+ * `routes/console.ts` and driven once a minute by `nino schedule:run`.
+ */
+export class Schedule {
+    private readonly events: ScheduledEvent[] = [];
+
+    constructor(private readonly options: ScheduleOptions) {}
+
+    public get timezone(): string {
+        return this.options.timezone;
+    }
+
+    /**
+     * Run a nino command, e.g. `schedule.command("session:gc").daily()`.
+     */
+    public command(name: string, args: string[] = []): ScheduledEvent {
+        const argv = [name, ...args];
+        return this.add(
+            new ScheduledEvent(argv.join(" "), async () => {
+                const code = await this.options.runCommand(argv);
+                if (code !== 0) {
+                    throw new Error(`Command [${argv.join(" ")}] exited with code ${String(code)}`);
+                }
+            }),
+        );
+    }
+
+    /**
+     * Run a closure in the scheduler process.
+     */
+    public call(callback: () => unknown | Promise<unknown>, description = "Closure"): ScheduledEvent {
+        return this.add(new ScheduledEvent(description, callback));
+    }
+
+    /**
+     * Dispatch `job` onto the queue; a worker runs it.
+     */
+    public job(job: QueueableJob): ScheduledEvent {
+        return this.add(new ScheduledEvent(job.constructor.name, () => this.options.dispatch(job)));
+    }
+
+    public all(): ScheduledEvent[] {
+        return [...this.events];
+    }
+
+    public dueEvents(now: Date): ScheduledEvent[] {
+        return this.events.filter((event) => event.isDue(now, this.options.environment, this.options.timezone));
+    }
+
+    /**
+     * Run every event due at `now`, in registration order. A failing event is
+     * reported in the result and does not stop the others.
+     */
+    public async runDueEvents(now: Date): Promise<ScheduleRunResult[]> {
+        const results: ScheduleRunResult[] = [];
+        for (const event of this.dueEvents(now)) {
+            try {
+                results.push({ event, ran: await event.run(this.options.cache) });
+            } catch (error) {
+                results.push({ event, ran: true, error });
+            }
+        }
+        return results;
+    }
+
+    private add(event: ScheduledEvent): ScheduledEvent {
+        this.events.push(event);
+        return event;
+    }
+}
@@ -0,0 +1,202 @@
+import { CronExpression } from "./CronExpression";
+
+/**
+ * Subset of the cache API used for `withoutOverlapping()` — a store shared by every
+ * `schedule:run` process (see {@link import("@/app/Cache/createCacheServices").sharedCacheStore}).
+ */
+export type SchedulerCache = {
+    /** Store `value` only when `key` is missing; `true` when it was stored (atomic). */
+    add(key: string, value: unknown, seconds?: number): Promise<boolean>;
+    forget(key: string): Promise<unknown>;
+};
+
+type Task = () => unknown | Promise<unknown>;
+
+const DAYS = { sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6 };
+
+export type DayName = keyof typeof DAYS;
+
+function parseTime(time: string): [number, number] {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+    const hour = Number(match?.[1]);
+    const minute = Number(match?.[2]);
+    if (match === null || hour > 23 || minute > 59) {
+        throw new Error(`Invalid time [${time}], expected HH:MM`);
+    }
+    return [hour, minute];
+}
+
+/** Cron fields the frequency helpers splice: minute, hour, day of month, month, day of week. */
+const FIELDS = { minute: 0, hour: 1, dayOfMonth: 2, month: 3, dayOfWeek: 4 };
+
+/**
+ * One scheduled task: what to run, when (a cron expression built with the
+ * fluent helpers) and under which conditions.
+ *
+ * Helpers only set the fields they name, so they combine in any order:
+ * `weekdays().dailyAt("08:00")` runs at 08:00 Monday to Friday.
+ */
+export class ScheduledEvent {
+    private expression = "* * * * *";
+    private zone: string | undefined;
+    private envs: string[] = [];
+    private overlapMinutes: number | null = null;
+
+    constructor(
+        private label: string,
+        private readonly task: Task,
+    ) {}
+
+    public get description(): string {
+        return this.label;
+    }
+
+    public describe(description: string): this {
+        this.label = description;
+        return this;
+    }
+
+    public cron(expression: string): this {
+        CronExpression.parse(expression);
+        this.expression = expression;
+        return this;
+    }
+
+    public getExpression(): string {
+        return this.expression;
+    }
+
+    public everyMinute(): this {
+        return this.splice({ minute: "*" });
+    }
+
+    public everyFiveMinutes(): this {
+        return this.splice({ minute: "*/5" });
+    }
+
+    public everyTenMinutes(): this {
+        return this.splice({ minute: "*/10" });
+    }
+
+    public everyFifteenMinutes(): this {
+        return this.splice({ minute: "*/15" });
+    }
+
+    public everyThirtyMinutes(): this {
+        return this.splice({ minute: "0,30" });
+    }
+
+    public hourly(): this {
+        return this.splice({ minute: "0" });
+    }
+
+    public hourlyAt(minute: number): this {
+        return this.splice({ minute: String(minute) });
+    }
+
+    public daily(): this {
+        return this.dailyAt("00:00");
+    }
+
+    /**
+     * Every day at `time` (`"HH:MM"`, in the event's timezone).
+     */
+    public dailyAt(time: string): this {
+        const [hour, minute] = parseTime(time);
+        return this.splice({ minute: String(minute), hour: String(hour) });
+    }
+
+    public weekdays(): this {
+        return this.splice({ dayOfWeek: "1-5" });
+    }
+
+    public weekends(): this {
+        return this.splice({ dayOfWeek: "0,6" });
+    }
+
+    public weekly(): this {
+        return this.weeklyOn("sunday");
+    }
+
+    public weeklyOn(day: DayName, time = "00:00"): this {
+        return this.dailyAt(time).splice({ dayOfWeek: String(DAYS[day]) });
+    }
+
+    public monthly(): this {
+        return this.monthlyOn(1);
+    }
+
+    public monthlyOn(day: number, time = "00:00"): this {
+        return this.dailyAt(time).splice({ dayOfMonth: String(day) });
+    }
+
+    /**
+     * Evaluate the expression in `timezone` (IANA name) instead of the app default.
+     */
+    public timezone(timezone: string): this {
+        this.zone = timezone;
+        return this;
+    }
+
+    /**
+     * Only run when `APP_ENV` is one of `environments`.
+     */
+    public environments(...environments: string[]): this {
+        this.envs = environments;
+        return this;
+    }
+
+    /**
+     * Skip a run while the previous one still holds the cache lock (released
+     * when it ends, or after `expiresAt` minutes if the process died). The lock
+     * is taken with an atomic `add`, so only one process gets it.
+     */
+    public withoutOverlapping(expiresAt = 1440): this {
+        this.overlapMinutes = expiresAt;
+        return this;
+    }
+
+    public isDue(now: Date, environment: string, defaultTimezone: string): boolean {
+        if (this.envs.length > 0 && !this.envs.includes(environment)) {
+            return false;
+        }
+        return CronExpression.parse(this.expression).isDue(now, this.zone ?? defaultTimezone);
+    }
+
+    public nextRunDate(now: Date, defaultTimezone: string): Date {
+        return CronExpression.parse(this.expression).nextRunDate(now, this.zone ?? defaultTimezone);
+    }
+
+    /**
+     * Run the task; `false` when skipped because a previous run still holds the lock.
+     */
+    public async run(cache: SchedulerCache): Promise<boolean> {
+        if (this.overlapMinutes === null) {
+            await this.task();
+            return true;
+        }
+
+        const key = this.mutexName();
+        if (!(await cache.add(key, true, this.overlapMinutes * 60))) {
+            return false;
+        }
+        try {
+            await this.task();
+        } finally {
+            await cache.forget(key);
+        }
+        return true;
+    }
+
+    private mutexName(): string {
+        return `framework/schedule-${Bun.hash(`${this.expression}${this.label}`).toString(16)}`;
+    }
+
+    private splice(values: Partial<Record<keyof typeof FIELDS, string>>): this {
+        const fields = this.expression.split(" ");
+        for (const [name, value] of Object.entries(values)) {
+            fields[FIELDS[name as keyof typeof FIELDS]] = value;
+        }
+        return this.cron(fields.join(" "));
+    }
+}
@@ -0,0 +1,164 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import type { EventClass, ListenerClass, ListenerMap } from "./EventListenerRegistrar";
+import { listenedEvents } from "./ListensTo";
+
+/** `"<path from the project root>#<export name>"`, e.g. `"app/Events/UserCreatedEvent.ts#UserCreatedEvent"`. */
+type ClassReference = string;
+
+/** Event → listeners, as written by `nino event:cache`. */
+export type EventManifest = Record<ClassReference, ClassReference[]>;
+
+export type EventDiscoveryOptions = {
+    basePath: string;
+    /** Globs relative to `basePath`. */
+    directories: string[];
+    /** Manifest path relative to `basePath`. */
+    cache: string;
+};
+
+const IMPORT = /import\s+(?:type\s+)?\{([^}]*)\}\s+from\s+["']([^"']+)["']/g;
+
+function isListenerClass(value: unknown): value is ListenerClass {
+    return (
+        typeof value === "function" &&
+        typeof (value.prototype as { handle?: unknown } | undefined)?.handle === "function"
+    );
+}
+
+/**
+ * Type names of the first parameter of `handle()` in class `name`
+ * (`handle(event: A | B)` → `["A", "B"]`).
+ */
+function handledTypes(source: string, name: string): string[] {
+    const start = source.search(new RegExp(`\\bclass\\s+${name}\\b`));
+    if (start === -1) {
+        return [];
+    }
+    const next = source.slice(start + 1).search(/\bclass\s+[\w$]+/);
+    const body = next === -1 ? source.slice(start) : source.slice(start, start + 1 + next);
+    const parameter = /\bhandle\s*\(\s*[\w$]+\s*:\s*([^),=]+)/.exec(body)?.[1] ?? "";
+    return parameter
+        .split("|")
+        .map((type) => type.trim())
+        .filter((type) => /^[A-Za-z_$][\w$]*$/.test(type));
+}
+
+/**
+ * Finds listeners in the configured directories and the events they handle:
+ * `@ListensTo(...)` when present, otherwise the type of `handle(event: X)`
+ * looked up through the file's named imports.
+ */
+export class EventDiscovery {
+    constructor(private readonly options: EventDiscoveryOptions) {}
+
+    /**
+     * Listeners from the cached manifest when present, otherwise from a fresh scan.
+     */
+    public listeners(): ListenerMap {
+        return this.load(this.cached() ?? this.discover());
+    }
+
+    public discover(): EventManifest {
+        const manifest: EventManifest = {};
+        for (const file of this.files()) {
+            const source = readFileSync(file, "utf8");
+            const exports = require(file) as Record<string, unknown>;
+
+            for (const [name, value] of Object.entries(exports)) {
+                if (!isListenerClass(value)) {
+                    continue;
+                }
+                const events = listenedEvents(value)?.map((event) => event.name) ?? handledTypes(source, name);
+                for (const event of events) {
+                    const reference = this.typeReference(event, source, file);
+                    manifest[reference] = [...(manifest[reference] ?? []), this.reference(file, name)];
+                }
+            }
+        }
+        return manifest;
+    }
+
+    public load(manifest: EventManifest): ListenerMap {
+        return Object.entries(manifest).map(([event, listeners]) => [
+            this.resolve<EventClass>(event),
+            listeners.map((listener) => this.resolve<ListenerClass>(listener)),
+        ]);
+    }
+
+    public cached(): EventManifest | null {
+        const path = join(this.options.basePath, this.options.cache);
+        return existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as EventManifest) : null;
+    }
+
+    /**
+     * Scan and write the manifest; returns what was written.
+     */
+    public cache(): EventManifest {
+        const manifest = this.discover();
+        const path = join(this.options.basePath, this.options.cache);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, `${JSON.stringify(manifest, null, 4)}\n`);
+        return manifest;
+    }
+
+    /**
+     * Delete the manifest; `false` when there was none.
+     */
+    public clear(): boolean {
+        const path = join(this.options.basePath, this.options.cache);
+        if (!existsSync(path)) {
+            return false;
+        }
+        rmSync(path);
+        return true;
+    }
+
+    private files(): string[] {
+        const files = new Set<string>();
+        for (const directory of this.options.directories) {
+            const glob = new Bun.Glob(`${directory}/**/*.{ts,tsx}`);
+            for (const file of glob.scanSync({ cwd: this.options.basePath, absolute: true })) {
+                if (!file.endsWith(".d.ts") && !file.endsWith(".test.ts")) {
+                    files.add(file);
+                }
+            }
+        }
+        return [...files].sort();
+    }
+
+    private typeReference(type: string, source: string, file: string): ClassReference {
+        for (const [, names = "", specifier = ""] of source.matchAll(IMPORT)) {
+            for (const entry of names.split(",")) {
+                const [imported = "", local = imported] = entry
+                    .replace(/^\s*type\s+/, "")
+                    .trim()
+                    .split(/\s+as\s+/);
+                if (local === type) {
+                    return this.reference(Bun.resolveSync(specifier, dirname(file)), imported);
+                }
+            }
+        }
+        if (new RegExp(`\\bclass\\s+${type}\\b`).test(source)) {
+            return this.reference(file, type);
+        }
+        throw new Error(`Cannot find where event [${type}] in ${this.relative(file)} is declared`);
+    }
+
+    private reference(file: string, name: string): ClassReference {
+        return `${this.relative(file)}#${name}`;
+    }
+
+    private relative(file: string): string {
+        return relative(this.options.basePath, file).split("\\").join("/");
+    }
+
+    private resolve<T>(reference: ClassReference): T {
+        const [path = "", name = ""] = reference.split("#");
+        const value = (require(join(this.options.basePath, path)) as Record<string, unknown>)[name];
+        if (typeof value !== "function") {
+            throw new Error(`[${reference}] does not export a class; run \`nino event:cache\` again`);
+        }
+        return value as T;
+    }
+}
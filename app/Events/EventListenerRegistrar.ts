@@ -0,0 +1,102 @@
+import type { EventDispatcher } from "@ninots/events";
+import type { Bus } from "@/app/Queue/Bus";
+import {
+    CallQueuedListener,
+    type QueuedEventListener,
+    type QueuedListenerLookup,
+} from "@/app/Queue/CallQueuedListener";
+import { type ShouldQueue, shouldQueue } from "@/app/Queue/ShouldQueue";
+
+export type EventClass = abstract new (...args: never[]) => object;
+
+export type ListenerClass = new (...args: never[]) => QueuedEventListener;
+
+/** Events and their listeners, as listed in `EventServiceProvider`. */
+export type ListenerMap = ReadonlyArray<readonly [EventClass, readonly ListenerClass[]]>;
+
+export type RegisteredListener = { listener: string; queued: boolean };
+
+/**
+ * Registers listeners on the {@link EventDispatcher}. Listeners marked
+ * {@link ShouldQueue} are dispatched as a {@link CallQueuedListener} job; the
+ * registrar then finds them again by name when a worker runs that job.
+ */
+export class EventListenerRegistrar implements QueuedListenerLookup {
+    private readonly queued = new Map<string, QueuedEventListener>();
+    private readonly events = new Map<string, EventClass>();
+    private readonly registered = new Map<EventClass, Map<ListenerClass, RegisteredListener>>();
+
+    constructor(
+        private readonly dispatcher: EventDispatcher,
+        private readonly bus: Pick<Bus, "dispatch" | "later">,
+        private readonly resolve: (listener: ListenerClass) => QueuedEventListener = (Listener) => new Listener(),
+    ) {}
+
+    public register(map: ListenerMap): this {
+        for (const [event, listeners] of map) {
+            for (const listener of listeners) {
+                this.listen(event, listener);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Register `Listener` for `event`; a pair that is already registered
+     * (listed in the provider and discovered) is skipped.
+     */
+    public listen(event: EventClass, Listener: ListenerClass): void {
+        const registered = this.registered.get(event) ?? new Map<ListenerClass, RegisteredListener>();
+        if (registered.has(Listener)) {
+            return;
+        }
+        this.registered.set(event, registered);
+
+        const listener = this.resolve(Listener);
+        registered.set(Listener, { listener: Listener.name, queued: shouldQueue(listener) });
+        if (!shouldQueue(listener)) {
+            this.dispatcher.listen(event, listener);
+            return;
+        }
+
+        this.events.set(event.name, event);
+        this.queued.set(Listener.name, listener);
+        this.dispatcher.listen(event, {
+            handle: (payload: object) => this.queue(Listener.name, listener, payload),
+        });
+    }
+
+    /**
+     * Event name → its listeners, in registration order (for `nino event:list`).
+     */
+    public all(): Map<string, RegisteredListener[]> {
+        return new Map([...this.registered].map(([event, listeners]) => [event.name, [...listeners.values()]]));
+    }
+
+    public listener(name: string): QueuedEventListener {
+        const listener = this.queued.get(name);
+        if (listener === undefined) {
+            throw new Error(`Queued listener [${name}] is not registered`);
+        }
+        return listener;
+    }
+
+    public eventClass(name: string): EventClass {
+        const event = this.events.get(name);
+        if (event === undefined) {
+            throw new Error(`Event [${name}] has no queued listeners`);
+        }
+        return event;
+    }
+
+    private async queue(name: string, listener: QueuedEventListener & ShouldQueue, event: object): Promise<void> {
+        const job = new CallQueuedListener(name, listener, event);
+        const options = { connection: listener.connection, queue: listener.queue };
+
+        if ((listener.delay ?? 0) > 0) {
+            await this.bus.later(listener.delay ?? 0, job, options);
+        } else {
+            await this.bus.dispatch(job, options);
+        }
+    }
+}
@@ -0,0 +1,17 @@
+import type { EventClass, ListenerClass } from "./EventListenerRegistrar";
+
+const listened = new WeakMap<object, EventClass[]>();
+
+/**
+ * Declare the events a discovered listener handles, when `handle()`'s
+ * parameter type alone is not enough (e.g. one listener for several events).
+ */
+export function ListensTo(...events: EventClass[]) {
+    return (listener: ListenerClass, _context?: unknown): void => {
+        listened.set(listener, events);
+    };
+}
+
+export function listenedEvents(listener: object): EventClass[] | undefined {
+    return listened.get(listener);
+}
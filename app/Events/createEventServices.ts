@@ -0,0 +1,9 @@
+import eventsConfig from "@/config/events";
+import { EventDiscovery } from "./EventDiscovery";
+
+/**
+ * Create {@link EventDiscovery} from `config/events.ts`, rooted at `basePath`.
+ */
+export function createEventDiscovery(basePath: string = process.cwd()): EventDiscovery {
+    return new EventDiscovery({ basePath, directories: eventsConfig.directories, cache: eventsConfig.cache });
+}
@@ -0,0 +1,15 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 401 — the request is not authenticated.
+ *
+ * HTML requests are redirected to {@link redirectTo} (the login page) instead.
+ */
+export class AuthenticationException extends HttpException {
+    constructor(
+        message = "Unauthenticated.",
+        public readonly redirectTo: string | null = null,
+    ) {
+        super(401, message);
+    }
+}
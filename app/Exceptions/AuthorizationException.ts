@@ -0,0 +1,10 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 403 — the current user may not perform this action.
+ */
+export class AuthorizationException extends HttpException {
+    constructor(message = "This action is unauthorized.") {
+        super(403, message);
+    }
+}
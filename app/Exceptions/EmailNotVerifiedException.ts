@@ -0,0 +1,15 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 403 — the user must verify their email address first.
+ *
+ * HTML requests are redirected to {@link redirectTo} (the verification notice) instead.
+ */
+export class EmailNotVerifiedException extends HttpException {
+    constructor(
+        message = "Your email address is not verified.",
+        public readonly redirectTo: string | null = null,
+    ) {
+        super(403, message);
+    }
+}
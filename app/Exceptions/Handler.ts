@@ -0,0 +1,168 @@
+import { render } from "@ninots/view";
+import { ErrorPage } from "@/resources/views/errors/error";
+import { AuthenticationException } from "./AuthenticationException";
+import { EmailNotVerifiedException } from "./EmailNotVerifiedException";
+import { HttpException } from "./HttpException";
+import { ValidationException } from "./ValidationException";
+
+/** Container key for {@link ExceptionHandler}. */
+export const EXCEPTION_HANDLER_KEY = "ExceptionHandler";
+
+type ErrorClass<T extends Error = Error> = abstract new (...args: never[]) => T;
+
+/**
+ * Default sink for reportable exceptions (the app wires the wide event logger).
+ */
+export type ExceptionReporter = (error: Error, request?: Request) => void;
+
+type ReportableCallback<T extends Error> = (error: T, request?: Request) => boolean | undefined;
+
+export type ExceptionHandlerOptions = {
+    /** Expose exception class / message / trace for unexpected errors. */
+    debug: boolean;
+    reporter?: ExceptionReporter;
+};
+
+const STATUS_TITLES: Record<number, string> = {
+    400: "Bad Request",
+    401: "Unauthorized",
+    403: "Forbidden",
+    404: "Not Found",
+    405: "Method Not Allowed",
+    419: "Page Expired",
+    422: "Unprocessable Content",
+    429: "Too Many Requests",
+    500: "Server Error",
+    503: "Service Unavailable",
+};
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Central exception handler — reports, then renders JSON or an HTML error view.
+ *
+ * JSON is returned for `/api/*` paths and `Accept: application/json`; every
+ * other request gets `resources/views/errors/error.tsx`.
+ */
+export class ExceptionHandler {
+    private readonly reportables: { type: ErrorClass; callback: ReportableCallback<Error> }[] = [];
+
+    private readonly dontReport: ErrorClass[] = [];
+
+    constructor(private readonly options: ExceptionHandlerOptions) {}
+
+    /**
+     * Register a report callback for an exception type.
+     * Returning `false` stops propagation to the default reporter.
+     */
+    public reportable<T extends Error>(type: ErrorClass<T>, callback: ReportableCallback<T>): this {
+        this.reportables.push({
+            type,
+            callback: (error, request) => (error instanceof type ? callback(error, request) : undefined),
+        });
+        return this;
+    }
+
+    /**
+     * Never report exceptions of this type.
+     */
+    public ignore(type: ErrorClass): this {
+        this.dontReport.push(type);
+        return this;
+    }
+
+    /**
+     * Client errors (HTTP < 500) and ignored types are not reported.
+     */
+    public shouldReport(error: Error): boolean {
+        if (error instanceof HttpException && error.status < 500) {
+            return false;
+        }
+        return !this.dontReport.some((type) => error instanceof type);
+    }
+
+    public report(error: Error, request?: Request): void {
+        if (!this.shouldReport(error)) {
+            return;
+        }
+
+        for (const reportable of this.reportables) {
+            if (reportable.callback(error, request) === false) {
+                return;
+            }
+        }
+
+        this.options.reporter?.(error, request);
+    }
+
+    /**
+     * Report and render in one step (middleware / serve entry point).
+     */
+    public async handle(request: Request, error: unknown): Promise<Response> {
+        const exception = toError(error);
+        this.report(exception, request);
+        return this.render(request, exception);
+    }
+
+    public async render(request: Request, error: Error): Promise<Response> {
+        const status = error instanceof HttpException ? error.status : 500;
+        const headers = error instanceof HttpException ? error.headers : {};
+
+        if (this.shouldReturnJson(request)) {
+            return Response.json(this.toJson(error, status), { status, headers });
+        }
+
+        if (
+            (error instanceof AuthenticationException || error instanceof EmailNotVerifiedException) &&
+            error.redirectTo !== null
+        ) {
+            return new Response(null, { status: 302, headers: { Location: error.redirectTo } });
+        }
+
+        const page = await render(ErrorPage, {
+            status,
+            title: STATUS_TITLES[status] ?? "Error",
+            message: this.publicMessage(error, status),
+            errors: error instanceof ValidationException ? error.errors : undefined,
+        });
+
+        const pageHeaders = new Headers(page.headers);
+        for (const [name, value] of Object.entries(headers)) {
+            pageHeaders.set(name, value);
+        }
+        return new Response(page.body, { status, headers: pageHeaders });
+    }
+
+    public shouldReturnJson(request: Request): boolean {
+        const { pathname } = new URL(request.url);
+        const accept = request.headers.get("Accept") ?? "";
+        return pathname === "/api" || pathname.startsWith("/api/") || accept.includes("application/json");
+    }
+
+    private toJson(error: Error, status: number): Record<string, unknown> {
+        const body: Record<string, unknown> = { message: this.publicMessage(error, status) };
+
+        if (error instanceof ValidationException) {
+            body.errors = error.errors;
+        }
+
+        if (this.options.debug && !(error instanceof HttpException)) {
+            body.exception = error.name;
+            body.trace = (error.stack ?? "")
+                .split("\n")
+                .slice(1)
+                .map((line) => line.trim());
+        }
+
+        return body;
+    }
+
+    private publicMessage(error: Error, status: number): string {
+        if (error instanceof HttpException) {
+            return error.message.length > 0 ? error.message : (STATUS_TITLES[status] ?? "Error");
+        }
+        return this.options.debug ? error.message : "Server Error";
+    }
+}
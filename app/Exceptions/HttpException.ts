@@ -0,0 +1,18 @@
+/**
+ * Base exception for errors that map to an HTTP status code.
+ */
+export class HttpException extends Error {
+    /**
+     * @param status - HTTP status code to render
+     * @param message - Public message (safe to show to clients)
+     * @param headers - Extra response headers (e.g. `Retry-After`)
+     */
+    constructor(
+        public readonly status: number,
+        message = "",
+        public readonly headers: Record<string, string> = {},
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
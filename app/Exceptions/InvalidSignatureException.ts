@@ -0,0 +1,10 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 403 — the URL signature is missing, tampered with or expired.
+ */
+export class InvalidSignatureException extends HttpException {
+    constructor(message = "Invalid signature.") {
+        super(403, message);
+    }
+}
@@ -0,0 +1,10 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 404 — the requested resource does not exist.
+ */
+export class NotFoundException extends HttpException {
+    constructor(message = "Not Found") {
+        super(404, message);
+    }
+}
@@ -0,0 +1,10 @@
+import { HttpException } from "./HttpException";
+
+/**
+ * 429 — the client exceeded a rate limit; carries `Retry-After` and `X-RateLimit-*` headers.
+ */
+export class ThrottleRequestsException extends HttpException {
+    constructor(headers: Record<string, string> = {}, message = "Too Many Attempts.") {
+        super(429, message, headers);
+    }
+}
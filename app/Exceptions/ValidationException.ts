@@ -0,0 +1,27 @@
+import { HttpException } from "./HttpException";
+
+/** Validation messages keyed by field (Laravel-style error bag). */
+export type ValidationErrors = Record<string, string[]>;
+
+/**
+ * 422 — request input failed validation.
+ */
+export class ValidationException extends HttpException {
+    constructor(
+        public readonly errors: ValidationErrors,
+        message = "The given data was invalid.",
+    ) {
+        super(422, message);
+    }
+
+    /**
+     * Build from a single field message.
+     */
+    public static withMessages(messages: Record<string, string>): ValidationException {
+        const errors: ValidationErrors = {};
+        for (const [field, message] of Object.entries(messages)) {
+            errors[field] = [message];
+        }
+        return new ValidationException(errors);
+    }
+}
@@ -0,0 +1,31 @@
+import { getWideEvent } from "@ninots/logger";
+
+/**
+ * Default {@link import("./Handler").ExceptionReporter}: attach the error to the
+ * request's wide event so it lands on the single canonical log line.
+ *
+ * Outside a wide-event context (CLI, routes without `wideEvent`) the error is
+ * written as its own JSON line on stderr.
+ */
+export function reportToWideEvent(error: Error, request?: Request): void {
+    const details = {
+        type: error.name,
+        message: error.message,
+        stack: error.stack,
+    };
+
+    const event = getWideEvent();
+    if (event !== undefined) {
+        event.set({ error: details });
+        return;
+    }
+
+    process.stderr.write(
+        `${JSON.stringify({
+            level: "error",
+            timestamp: new Date().toISOString(),
+            path: request !== undefined ? new URL(request.url).pathname : undefined,
+            error: details,
+        })}\n`,
+    );
+}
@@ -0,0 +1,69 @@
+/**
+ * Password hasher on top of `Bun.password` (argon2id / bcrypt).
+ *
+ * @packageDocumentation
+ */
+
+export type HashAlgorithm = "argon2id" | "bcrypt";
+
+export type HasherOptions = {
+    algorithm: HashAlgorithm;
+    memoryCost?: number;
+    timeCost?: number;
+    rounds?: number;
+};
+
+/** Full PHC / modular-crypt shapes, so a password that merely starts with `$2y$` is not mistaken for a hash. */
+const HASH_FORMATS = [
+    /^\$2[aby]\$(0[4-9]|[12]\d|3[01])\$[./A-Za-z0-9]{53}$/,
+    /^\$argon2(id|i|d)\$v=\d+\$m=\d+,t=\d+,p=\d+\$[A-Za-z0-9+/]{11,}\$[A-Za-z0-9+/]{16,}$/,
+];
+
+/**
+ * Hashes and verifies passwords with the configured algorithm.
+ */
+export class Hasher {
+    constructor(private readonly options: HasherOptions = { algorithm: "argon2id" }) {}
+
+    /**
+     * Hash a plaintext value.
+     */
+    public async make(value: string): Promise<string> {
+        return Bun.password.hash(value, this.algorithmOptions());
+    }
+
+    /**
+     * Verify a plaintext value against a stored hash (algorithm auto-detected).
+     */
+    public async check(value: string, hash: string): Promise<boolean> {
+        if (!this.isHashed(hash)) {
+            return false;
+        }
+        return Bun.password.verify(value, hash);
+    }
+
+    /**
+     * Whether a value is a well-formed argon2 / bcrypt hash (prefix, parameters, salt and digest).
+     */
+    public isHashed(value: string): boolean {
+        return HASH_FORMATS.some((format) => format.test(value));
+    }
+
+    /**
+     * Whether a stored hash was produced with a different algorithm than configured.
+     */
+    public needsRehash(hash: string): boolean {
+        return this.options.algorithm === "bcrypt" ? !hash.startsWith("$2") : !hash.startsWith("$argon2id$");
+    }
+
+    public getAlgorithm(): HashAlgorithm {
+        return this.options.algorithm;
+    }
+
+    private algorithmOptions(): Bun.Password.Argon2Algorithm | Bun.Password.BCryptAlgorithm {
+        if (this.options.algorithm === "bcrypt") {
+            return { algorithm: "bcrypt", cost: this.options.rounds };
+        }
+        return { algorithm: "argon2id", memoryCost: this.options.memoryCost, timeCost: this.options.timeCost };
+    }
+}
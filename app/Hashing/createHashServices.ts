@@ -0,0 +1,26 @@
+/**
+ * Hashing service wiring for the starter.
+ *
+ * @packageDocumentation
+ */
+
+import hashingConfig from "@/config/hashing";
+import { Hasher } from "./Hasher";
+
+/** Container key for {@link Hasher}. */
+export const HASHER_KEY = "Hasher";
+
+/**
+ * Create the canonical {@link Hasher} from `config/hashing.ts`.
+ */
+export function createHasher(): Hasher {
+    if (hashingConfig.driver === "bcrypt") {
+        return new Hasher({ algorithm: "bcrypt", rounds: hashingConfig.bcrypt.rounds });
+    }
+
+    return new Hasher({
+        algorithm: "argon2id",
+        memoryCost: hashingConfig.argon.memoryCost,
+        timeCost: hashingConfig.argon.timeCost,
+    });
+}
@@ -0,0 +1,25 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Random secrets (remember me, API and reset tokens) are stored as SHA-256
+ * digests: they carry enough entropy that a slow password hash buys nothing.
+ */
+export function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Constant-time check of `token` against a stored {@link hashToken} digest.
+ */
+export function tokenMatches(digest: string, token: string): boolean {
+    const expected = Buffer.from(digest);
+    const actual = Buffer.from(hashToken(token));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Hex-encoded random token of `bytes` bytes.
+ */
+export function randomToken(bytes = 32): string {
+    return randomBytes(bytes).toString("hex");
+}
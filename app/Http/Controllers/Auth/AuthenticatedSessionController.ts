@@ -0,0 +1,58 @@
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { auth } from "@/app/Auth/auth";
+import { ValidationException } from "@/app/Exceptions/ValidationException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { LoginRequest, type LoginData } from "@/app/Http/Requests/LoginRequest";
+import { LoginForm, type LoginFormProps } from "@/resources/views/auth/login";
+
+/**
+ * Session login / logout.
+ */
+export class AuthenticatedSessionController extends Controller {
+    public async create(request: Request): Promise<Response> {
+        return this.loginForm(request);
+    }
+
+    public async store(request: Request): Promise<Response> {
+        let data: LoginData;
+        try {
+            data = await new LoginRequest().validate(request);
+        } catch (error) {
+            if (error instanceof ValidationException) {
+                return this.loginForm(request, { errors: error.errors }, 422);
+            }
+            throw error;
+        }
+
+        const remember = data.remember !== undefined && data.remember !== "";
+        if (!(await auth(request).attempt({ email: data.email, password: data.password }, remember))) {
+            return this.loginForm(
+                request,
+                { email: data.email, errors: { email: ["These credentials do not match our records."] } },
+                422,
+            );
+        }
+
+        return this.redirect(route("dashboard"));
+    }
+
+    public async destroy(request: Request): Promise<Response> {
+        await auth(request).logout();
+        return this.redirect(route("home"));
+    }
+
+    private loginForm(request: Request, props: LoginFormProps = {}, status = 200): Promise<Response> {
+        return withCsrfToken(request, async (csrfToken) => {
+            const page = await render(LoginForm, {
+                ...props,
+                csrfToken,
+                formAction: route("login.store"),
+                registerHref: route("register"),
+                forgotPasswordHref: route("password.request"),
+            });
+            return new Response(page.body, { status, headers: page.headers });
+        });
+    }
+}
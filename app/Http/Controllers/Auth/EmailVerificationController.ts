@@ -0,0 +1,74 @@
+import type { QueueManager } from "@ninots/queue";
+import type { RouteParams } from "@ninots/routing";
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { user } from "@/app/Auth/auth";
+import { AuthorizationException } from "@/app/Exceptions/AuthorizationException";
+import { tokenMatches } from "@/app/Hashing/tokens";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import type { UserService } from "@/app/Services/UserService";
+import { VerifyEmail, type VerifyEmailProps } from "@/resources/views/auth/verify-email";
+
+/**
+ * Email verification — notice page, signed verification link and resend.
+ */
+export class EmailVerificationController extends Controller {
+    constructor(
+        private readonly users: UserService,
+        private readonly queue: QueueManager,
+        private readonly mail: AppMailManager,
+    ) {
+        super();
+    }
+
+    public async notice(request: Request): Promise<Response> {
+        const current = await user(request);
+        if (current?.hasVerifiedEmail()) {
+            return this.redirect(route("dashboard"));
+        }
+        return this.noticePage(request, { email: String(current?.getAttribute("email") ?? "") });
+    }
+
+    /**
+     * Behind `signed`: the link is the credential (it may be opened in another
+     * browser), so no session is required; `:hash` ties it to the address it was sent to.
+     *
+     * @throws AuthorizationException 403 when the user's email changed since the link was sent
+     */
+    public async verify(_request: Request, params?: RouteParams): Promise<Response> {
+        const verifying = await this.users.find(Number(params?.id));
+        if (verifying === null || !tokenMatches(params?.hash ?? "", String(verifying.getAttribute("email")))) {
+            throw new AuthorizationException("Invalid or expired verification link.");
+        }
+
+        await verifying.markEmailAsVerified();
+        return this.redirect(`${route("dashboard")}?verified=1`);
+    }
+
+    public async send(request: Request): Promise<Response> {
+        const current = await user(request);
+        if (current === null || current.hasVerifiedEmail()) {
+            return this.redirect(route("dashboard"));
+        }
+
+        const email = String(current.getAttribute("email"));
+        // `sync` runs the job as pushed; other connections rebuild it through the job registry, which injects mail too.
+        await this.queue.push(
+            new SendVerificationEmailJob(Number(current.getAttribute("id")), email).withMail(this.mail),
+        );
+
+        return this.noticePage(request, {
+            email,
+            status: "A new verification link has been sent to your email address.",
+        });
+    }
+
+    private noticePage(request: Request, props: VerifyEmailProps = {}): Promise<Response> {
+        return withCsrfToken(request, (csrfToken) =>
+            render(VerifyEmail, { ...props, csrfToken, formAction: route("verification.send") }),
+        );
+    }
+}
@@ -0,0 +1,56 @@
+import { type RouteParams, route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { PASSWORD_RESET_MESSAGES, type PasswordBroker } from "@/app/Auth/Passwords/PasswordBroker";
+import { ValidationException } from "@/app/Exceptions/ValidationException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { ResetPasswordRequest, type ResetPasswordData } from "@/app/Http/Requests/ResetPasswordRequest";
+import { ResetPasswordForm, type ResetPasswordFormProps } from "@/resources/views/auth/reset-password";
+
+/**
+ * Reset link target — validates the token and stores the new (hashed) password.
+ */
+export class NewPasswordController extends Controller {
+    constructor(private readonly passwords: PasswordBroker) {
+        super();
+    }
+
+    public async create(request: Request, params?: RouteParams): Promise<Response> {
+        const email = new URL(request.url).searchParams.get("email") ?? "";
+        return this.form(request, { token: params?.token ?? "", email });
+    }
+
+    public async store(request: Request): Promise<Response> {
+        let data: ResetPasswordData;
+        try {
+            data = await new ResetPasswordRequest().validate(request);
+        } catch (error) {
+            if (error instanceof ValidationException) {
+                return this.form(request, { errors: error.errors }, 422);
+            }
+            throw error;
+        }
+
+        const status = await this.passwords.reset(data);
+        if (status !== "passwords.reset") {
+            return this.form(
+                request,
+                { token: data.token, email: data.email, errors: { email: [PASSWORD_RESET_MESSAGES[status]] } },
+                422,
+            );
+        }
+
+        return this.redirect(route("login"));
+    }
+
+    private form(request: Request, props: ResetPasswordFormProps, status = 200): Promise<Response> {
+        return withCsrfToken(request, async (csrfToken) => {
+            const page = await render(ResetPasswordForm, {
+                ...props,
+                csrfToken,
+                formAction: route("password.store"),
+            });
+            return new Response(page.body, { status, headers: page.headers });
+        });
+    }
+}
@@ -0,0 +1,83 @@
+import type { RouteParams } from "@ninots/routing";
+import { route } from "@ninots/routing";
+import type { OAuthManager, OAuthProvider } from "@ninots/social-auth";
+import { auth } from "@/app/Auth/auth";
+import { codeChallenge, createCodeVerifier } from "@/app/Auth/OAuth/pkce";
+import { HttpException } from "@/app/Exceptions/HttpException";
+import { NotFoundException } from "@/app/Exceptions/NotFoundException";
+import { hashToken, randomToken, tokenMatches } from "@/app/Hashing/tokens";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { session } from "@/app/Session/session";
+import type { SocialAccountService } from "@/app/Services/SocialAccountService";
+
+/**
+ * Social login — `/auth/:provider/redirect` → provider consent → `/auth/:provider/callback`.
+ *
+ * Providers come from the `@ninots/social-auth` {@link OAuthManager}; `state`
+ * and the PKCE verifier are kept in the session between the two requests and
+ * consumed by the callback, so each authorization is single-use.
+ */
+export class OAuthController extends Controller {
+    constructor(
+        private readonly oauth: OAuthManager,
+        private readonly accounts: SocialAccountService,
+    ) {
+        super();
+    }
+
+    public async redirectToProvider(request: Request, params?: RouteParams): Promise<Response> {
+        const name = params?.provider ?? "";
+        const provider = this.provider(name);
+        const store = session(request);
+
+        const state = randomToken(20);
+        const verifier = createCodeVerifier();
+        store.put(this.sessionKey(name, "state"), state);
+        store.put(this.sessionKey(name, "verifier"), verifier);
+
+        return this.redirect(provider.getAuthorizationUrl(state, codeChallenge(verifier)));
+    }
+
+    /**
+     * @throws HttpException 400 when `state` is missing or does not match the session
+     * @throws HttpException 409 when a signed-in user links an identity that belongs to another user
+     */
+    public async handleProviderCallback(request: Request, params?: RouteParams): Promise<Response> {
+        const name = params?.provider ?? "";
+        const provider = this.provider(name);
+        const store = session(request);
+
+        const expected = store.pull<string | undefined>(this.sessionKey(name, "state"));
+        const verifier = store.pull<string | undefined>(this.sessionKey(name, "verifier"));
+
+        const query = new URL(request.url).searchParams;
+        const state = query.get("state") ?? "";
+        const code = query.get("code") ?? "";
+        if (expected === undefined || state === "" || !tokenMatches(hashToken(expected), state)) {
+            throw new HttpException(400, "Invalid OAuth state.");
+        }
+        if (code === "") {
+            // Consent denied (`?error=access_denied`) or a malformed callback.
+            return this.redirect(route("login"));
+        }
+
+        const accessToken = await provider.getAccessToken(code, verifier);
+        const identity = await provider.getUser(accessToken);
+        const guard = auth(request);
+        const user = await this.accounts.findOrCreateUser(name, identity, await guard.user());
+
+        await guard.login(user);
+        return this.redirect(route("dashboard"));
+    }
+
+    private provider(name: string): OAuthProvider {
+        if (!this.oauth.has(name)) {
+            throw new NotFoundException(`Unknown OAuth provider: ${name}`);
+        }
+        return this.oauth.driver(name);
+    }
+
+    private sessionKey(provider: string, key: "state" | "verifier"): string {
+        return `oauth.${provider}.${key}`;
+    }
+}
@@ -0,0 +1,50 @@
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { PASSWORD_RESET_MESSAGES, type PasswordBroker } from "@/app/Auth/Passwords/PasswordBroker";
+import { ValidationException } from "@/app/Exceptions/ValidationException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { ForgotPasswordRequest } from "@/app/Http/Requests/ForgotPasswordRequest";
+import { ForgotPasswordForm, type ForgotPasswordFormProps } from "@/resources/views/auth/forgot-password";
+
+/**
+ * "Forgot password" — emails a reset link through the {@link PasswordBroker}.
+ */
+export class PasswordResetLinkController extends Controller {
+    constructor(private readonly passwords: PasswordBroker) {
+        super();
+    }
+
+    public async create(request: Request): Promise<Response> {
+        return this.form(request);
+    }
+
+    public async store(request: Request): Promise<Response> {
+        let email: string;
+        try {
+            ({ email } = await new ForgotPasswordRequest().validate(request));
+        } catch (error) {
+            if (error instanceof ValidationException) {
+                return this.form(request, { errors: error.errors }, 422);
+            }
+            throw error;
+        }
+
+        await this.passwords.sendResetLink(email);
+
+        // Unknown and throttled emails get the same answer as a sent link: only registered
+        // addresses can be throttled, so a distinct reply would let the form probe accounts.
+        return this.form(request, { status: PASSWORD_RESET_MESSAGES["passwords.sent"] });
+    }
+
+    private form(request: Request, props: ForgotPasswordFormProps = {}, status = 200): Promise<Response> {
+        return withCsrfToken(request, async (csrfToken) => {
+            const page = await render(ForgotPasswordForm, {
+                ...props,
+                csrfToken,
+                formAction: route("password.email"),
+            });
+            return new Response(page.body, { status, headers: page.headers });
+        });
+    }
+}
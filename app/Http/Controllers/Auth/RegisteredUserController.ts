@@ -0,0 +1,49 @@
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { auth } from "@/app/Auth/auth";
+import { ValidationException } from "@/app/Exceptions/ValidationException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { RegisterRequest } from "@/app/Http/Requests/RegisterRequest";
+import type { UserService } from "@/app/Services/UserService";
+import { RegisterForm, type RegisterFormProps } from "@/resources/views/auth/register";
+
+/**
+ * Registration — creates the user through {@link UserService} and logs them in.
+ */
+export class RegisteredUserController extends Controller {
+    constructor(private readonly userService: UserService) {
+        super();
+    }
+
+    public async create(request: Request): Promise<Response> {
+        return this.registerForm(request);
+    }
+
+    public async store(request: Request): Promise<Response> {
+        try {
+            const data = await new RegisterRequest().validate(request);
+            const user = await this.userService.create(data);
+            await auth(request).login(user);
+        } catch (error) {
+            if (error instanceof ValidationException) {
+                return this.registerForm(request, { errors: error.errors }, 422);
+            }
+            throw error;
+        }
+
+        return this.redirect(route("dashboard"));
+    }
+
+    private registerForm(request: Request, props: RegisterFormProps = {}, status = 200): Promise<Response> {
+        return withCsrfToken(request, async (csrfToken) => {
+            const page = await render(RegisterForm, {
+                ...props,
+                csrfToken,
+                formAction: route("register.store"),
+                loginHref: route("login"),
+            });
+            return new Response(page.body, { status, headers: page.headers });
+        });
+    }
+}
@@ -0,0 +1,43 @@
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { ValidationException } from "@/app/Exceptions/ValidationException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { ContactRequest } from "@/app/Http/Requests/ContactRequest";
+import { session } from "@/app/Session/session";
+import { ContactForm } from "@/resources/views/contact";
+import { ContactThanks } from "@/resources/views/contact-thanks";
+
+/**
+ * Contact form — a failed submission redirects back with its errors and input flashed.
+ */
+export class ContactController extends Controller {
+    public async create(request: Request): Promise<Response> {
+        const store = session(request);
+
+        return withCsrfToken(request, (csrfToken) =>
+            render(ContactForm, {
+                csrfToken,
+                formAction: route("contact.store"),
+                message: store.old("message", ""),
+                errors: store.get<Record<string, string[]>>("errors", {}),
+            }),
+        );
+    }
+
+    public async store(request: Request): Promise<Response> {
+        const form = new ContactRequest();
+        try {
+            const { message } = await form.validate(request);
+            return render(ContactThanks, { message: message.trim() });
+        } catch (error) {
+            if (error instanceof ValidationException) {
+                const store = session(request);
+                store.flashInput(form.all());
+                store.flash("errors", error.errors);
+                return this.redirect(route("contact.create"));
+            }
+            throw error;
+        }
+    }
+}
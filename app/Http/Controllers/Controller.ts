@@ -1,3 +1,6 @@
+import type { ResourceCollection } from "@/app/Http/Resources/ResourceCollection";
+import type { AbstractPaginator } from "@/app/Pagination/AbstractPaginator";
+
 /**
  * Base controller with JSON response helpers.
  */
@@ -6,6 +9,13 @@ export abstract class Controller {
         return Response.json(data, { status });
     }
 
+    /**
+     * `{data, meta, links}` JSON with an RFC 8288 `Link` header.
+     */
+    protected paginated<T>(paginator: AbstractPaginator<T> | ResourceCollection<T>): Response {
+        return paginator.toResponse();
+    }
+
     protected created(data: unknown): Response {
         return Response.json(data, { status: 201 });
     }
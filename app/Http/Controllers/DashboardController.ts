@@ -0,0 +1,23 @@
+import { route } from "@ninots/routing";
+import { render } from "@ninots/view";
+import { user } from "@/app/Auth/auth";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { withCsrfToken } from "@/app/Http/csrf";
+import { Dashboard } from "@/resources/views/dashboard";
+
+/**
+ * Landing page for authenticated users.
+ */
+export class DashboardController extends Controller {
+    public async show(request: Request): Promise<Response> {
+        const current = await user(request);
+
+        return withCsrfToken(request, (csrfToken) =>
+            render(Dashboard, {
+                name: String(current?.getAttribute("name") ?? ""),
+                csrfToken,
+                logoutAction: route("logout"),
+            }),
+        );
+    }
+}
@@ -0,0 +1,54 @@
+import type { RouteParams } from "@ninots/routing";
+import { auth } from "@/app/Auth/auth";
+import { AuthenticationException } from "@/app/Exceptions/AuthenticationException";
+import { NotFoundException } from "@/app/Exceptions/NotFoundException";
+import { Controller } from "@/app/Http/Controllers/Controller";
+import { NotificationResource } from "@/app/Http/Resources/NotificationResource";
+import type { User } from "@/app/Models/User";
+import { paginationFromRequest } from "@/app/Pagination/paginate";
+
+/**
+ * In-app inbox API for the token's user (`database` notification channel).
+ */
+export class NotificationsController extends Controller {
+    /**
+     * Newest first, 15 per page (`?page=`, `?per_page=`); `?unread=1` lists only
+     * unread ones. `meta.unread` counts the unread.
+     */
+    public async index(request: Request): Promise<Response> {
+        const user = await this.user(request);
+        const input = paginationFromRequest(request, { defaultPerPage: 15, maxPerPage: 100 });
+        const unread = ["1", "true"].includes(new URL(request.url).searchParams.get("unread") ?? "");
+        const notifications = await user.paginateNotifications(input.perPage, { ...input, unread });
+
+        return this.paginated(
+            NotificationResource.collection(notifications).additional({
+                meta: { unread: await user.unreadNotificationCount() },
+            }),
+        );
+    }
+
+    public async markAsRead(request: Request, params?: RouteParams): Promise<Response> {
+        const user = await this.user(request);
+        const id = params?.id ?? "";
+        if ((await user.findNotification(id)) === null) {
+            throw new NotFoundException("Notification not found");
+        }
+
+        await user.markAsRead([id]);
+        return this.noContent();
+    }
+
+    public async markAllAsRead(request: Request): Promise<Response> {
+        const user = await this.user(request);
+        return this.json({ marked: await user.markAsRead() });
+    }
+
+    private async user(request: Request): Promise<User> {
+        const user = await auth(request, "token").user();
+        if (user === null) {
+            throw new AuthenticationException();
+        }
+        return user;
+    }
+}
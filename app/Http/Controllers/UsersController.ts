@@ -1,6 +1,13 @@
 import type { RouteParams } from "@ninots/routing";
 import type { UserService } from "@/app/Services/UserService";
+import { auth } from "@/app/Auth/auth";
+import { AuthenticationException } from "@/app/Exceptions/AuthenticationException";
+import { NotFoundException } from "@/app/Exceptions/NotFoundException";
 import { Controller } from "@/app/Http/Controllers/Controller";
+import { CreateUserRequest } from "@/app/Http/Requests/CreateUserRequest";
+import { UpdateUserRequest } from "@/app/Http/Requests/UpdateUserRequest";
+import { UserResource } from "@/app/Http/Resources/UserResource";
+import { paginationFromRequest } from "@/app/Pagination/paginate";
 
 /**
  * Users HTTP controller.
@@ -10,26 +17,45 @@ export class UsersController extends Controller {
         super();
     }
 
-    public async list(): Promise<Response> {
-        return this.json(await this.usersService.all());
+    public async list(request: Request): Promise<Response> {
+        const input = paginationFromRequest(request, { defaultPerPage: 15, maxPerPage: 100 });
+        return this.paginated(UserResource.collection(await this.usersService.paginate(input)));
     }
 
     public async create(request: Request): Promise<Response> {
-        const data = (await request.json()) as Record<string, unknown>;
-        return this.created(await this.usersService.create(data));
+        const data = await new CreateUserRequest().validate(request);
+        return this.created(new UserResource(await this.usersService.create(data)));
     }
 
     public async show(_request: Request, params?: RouteParams): Promise<Response> {
-        return this.json(await this.usersService.find(Number(params?.id)));
+        const user = await this.usersService.find(Number(params?.id));
+        if (!user) {
+            throw new NotFoundException("User not found");
+        }
+        return this.json(new UserResource(user));
+    }
+
+    /**
+     * The token's user, with the token abilities under `meta`.
+     */
+    public async current(request: Request): Promise<Response> {
+        const guard = auth(request, "token");
+        const [user, token] = [await guard.user(), await guard.token()];
+        if (user === null || token === null) {
+            throw new AuthenticationException();
+        }
+        return this.json(new UserResource(user).additional({ meta: { abilities: token.abilities() } }));
     }
 
     public async update(request: Request, params?: RouteParams): Promise<Response> {
-        const data = (await request.json()) as Record<string, unknown>;
-        return this.json(await this.usersService.update(Number(params?.id), data));
+        const data = await new UpdateUserRequest().validate(request, params);
+        return this.json(new UserResource(await this.usersService.update(Number(params?.id), data)));
     }
 
     public async destroy(_request: Request, params?: RouteParams): Promise<Response> {
-        await this.usersService.delete(Number(params?.id));
+        if (!(await this.usersService.delete(Number(params?.id)))) {
+            throw new NotFoundException("User not found");
+        }
         return this.noContent();
     }
 }
@@ -0,0 +1,34 @@
+import type { Middleware } from "@ninots/middleware";
+import { auth, type GuardName } from "@/app/Auth/auth";
+import { AuthenticationException } from "@/app/Exceptions/AuthenticationException";
+import type { ParameterizedMiddlewareStack } from "./ParameterizedMiddlewareStack";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `auth` / `auth:token` — only authenticated users of `guard`; guests get a 401
+ * (JSON) or, when `loginPath` is set, a redirect to it.
+ */
+export function authenticate(guard: GuardName = "session", loginPath: string | null = "/login"): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        if (await auth(request, guard).guest()) {
+            throw new AuthenticationException("Unauthenticated.", loginPath);
+        }
+        return next(request);
+    };
+}
+
+function isGuardName(name: string): name is GuardName {
+    return name === "session" || name === "token";
+}
+
+/**
+ * Resolve `auth:<guard>` when a route first uses it; token guests get a 401, never a redirect.
+ */
+export function registerAuthenticateMiddleware(stack: ParameterizedMiddlewareStack): void {
+    stack.parameterized("auth", (guard) => {
+        if (!isGuardName(guard)) {
+            throw new Error(`Auth guard [${guard}] is not defined`);
+        }
+        return authenticate(guard, guard === "token" ? null : "/login");
+    });
+}
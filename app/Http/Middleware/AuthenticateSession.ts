@@ -0,0 +1,22 @@
+import type { Middleware } from "@ninots/middleware";
+import { setRequestGuard } from "@/app/Auth/auth";
+import { SESSION_GUARD, SessionGuard, type SessionGuardOptions } from "@/app/Auth/SessionGuard";
+import type { UserProvider } from "@/app/Auth/UserProvider";
+import { withCookies } from "@/app/Http/cookies";
+import { session } from "@/app/Session/session";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Attach a {@link SessionGuard} over the request's session (run after `session`)
+ * and send its queued "remember me" cookies.
+ */
+export function authenticateSession(provider: UserProvider, options: SessionGuardOptions): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        const guard = new SessionGuard(SESSION_GUARD, session(request), provider, request, options);
+        setRequestGuard(request, SESSION_GUARD, guard);
+
+        const response = await next(request);
+
+        return withCookies(response, guard.queuedCookies());
+    };
+}
@@ -0,0 +1,17 @@
+import type { Middleware } from "@ninots/middleware";
+import { setRequestGuard } from "@/app/Auth/auth";
+import { TokenGuard } from "@/app/Auth/TokenGuard";
+import type { UserProvider } from "@/app/Auth/UserProvider";
+import type { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Attach a {@link TokenGuard} for the bearer token (if any). Does not reject
+ * guests — pair with `auth:token` on routes that require a token.
+ */
+export function authenticateToken(tokens: PersonalAccessTokenService, provider: UserProvider): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        setRequestGuard(request, "token", new TokenGuard(request, tokens, provider));
+        return next(request);
+    };
+}
@@ -1,9 +1,117 @@
 import type { Middleware } from "@ninots/middleware";
+import corsConfig from "@/config/cors";
 type NextHandler = (request: Request) => Response | Promise<Response>;
 
+export type CorsOptions = typeof corsConfig;
+
+function wildcardPattern(origin: string): RegExp {
+    const escaped = origin.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replaceAll("*", "[^/]*");
+    return new RegExp(`^${escaped}$`);
+}
+
+function isOriginAllowed(origin: string, options: CorsOptions): boolean {
+    for (const allowed of options.allowedOrigins) {
+        if (allowed === "*" || allowed === origin) {
+            return true;
+        }
+        if (allowed.includes("*") && wildcardPattern(allowed).test(origin)) {
+            return true;
+        }
+    }
+    return options.allowedOriginPatterns.some((pattern) => pattern.test(origin));
+}
+
+function varyOn(headers: Headers, ...names: string[]): void {
+    const current = (headers.get("Vary") ?? "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0);
+    for (const name of names) {
+        if (!current.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+            current.push(name);
+        }
+    }
+    headers.set("Vary", current.join(", "));
+}
+
+function allowOrigin(request: Request, headers: Headers, options: CorsOptions): void {
+    const origin = request.headers.get("Origin");
+    varyOn(headers, "Origin");
+
+    if (origin === null || !isOriginAllowed(origin, options)) {
+        return;
+    }
+
+    // Browsers reject "*" on credentialed requests, so a wildcard config echoes the origin instead.
+    const anyOrigin = options.allowedOrigins.includes("*") && !options.credentials;
+    headers.set("Access-Control-Allow-Origin", anyOrigin ? "*" : origin);
+    if (options.credentials) {
+        headers.set("Access-Control-Allow-Credentials", "true");
+    }
+}
+
+/**
+ * `OPTIONS` request carrying `Origin` + `Access-Control-Request-Method`.
+ */
+export function isPreflightRequest(request: Request): boolean {
+    return (
+        request.method === "OPTIONS" &&
+        request.headers.has("Origin") &&
+        request.headers.has("Access-Control-Request-Method")
+    );
+}
+
+/**
+ * Answer a CORS preflight with `204 No Content`.
+ *
+ * A disallowed origin still gets a 204, just without `Access-Control-Allow-Origin`,
+ * so the browser blocks the actual request.
+ */
+export function preflightResponse(request: Request, options: CorsOptions = corsConfig): Response {
+    const headers = new Headers();
+    allowOrigin(request, headers, options);
+    varyOn(headers, "Access-Control-Request-Method", "Access-Control-Request-Headers");
+
+    headers.set("Access-Control-Allow-Methods", options.allowedMethods.join(", "));
+
+    const requestedHeaders = request.headers.get("Access-Control-Request-Headers");
+    const allowedHeaders = options.allowedHeaders.includes("*")
+        ? (requestedHeaders ?? "")
+        : options.allowedHeaders.join(", ");
+    if (allowedHeaders.length > 0) {
+        headers.set("Access-Control-Allow-Headers", allowedHeaders);
+    }
+    if (options.maxAge > 0) {
+        headers.set("Access-Control-Max-Age", String(options.maxAge));
+    }
+
+    return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Copy `response` with the actual-request CORS headers applied.
+ */
+export function withCorsHeaders(request: Request, response: Response, options: CorsOptions = corsConfig): Response {
+    const headers = new Headers(response.headers);
+    allowOrigin(request, headers, options);
+    if (headers.has("Access-Control-Allow-Origin") && options.exposedHeaders.length > 0) {
+        headers.set("Access-Control-Expose-Headers", options.exposedHeaders.join(", "));
+    }
+
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
 /**
- * CORS middleware placeholder — wire when HTTP pipeline needs it.
+ * CORS middleware driven by `config/cors.ts`.
+ *
+ * Preflights for paths without an `OPTIONS` route never reach route middleware;
+ * `createAppServeOptions` answers those with {@link preflightResponse}.
  */
-export const CorsMiddleware: Middleware = async (request: Request, next: NextHandler) => {
-    return next(request);
-};
+export function handleCors(options: CorsOptions = corsConfig): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        if (isPreflightRequest(request)) {
+            return preflightResponse(request, options);
+        }
+        return withCorsHeaders(request, await next(request), options);
+    };
+}
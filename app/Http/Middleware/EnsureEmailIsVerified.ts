@@ -0,0 +1,18 @@
+import type { Middleware } from "@ninots/middleware";
+import { user } from "@/app/Auth/auth";
+import { EmailNotVerifiedException } from "@/app/Exceptions/EmailNotVerifiedException";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `verified` — only users with a verified email; others get a 403 (JSON) or a
+ * redirect to `noticePath`. Run after `auth` so guests are sent to login first.
+ */
+export function ensureEmailIsVerified(noticePath: string | null = "/email/verify"): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        const current = await user(request);
+        if (current === null || !current.hasVerifiedEmail()) {
+            throw new EmailNotVerifiedException("Your email address is not verified.", noticePath);
+        }
+        return next(request);
+    };
+}
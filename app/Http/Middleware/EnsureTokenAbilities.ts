@@ -0,0 +1,38 @@
+import type { Middleware } from "@ninots/middleware";
+import { auth } from "@/app/Auth/auth";
+import { AuthenticationException } from "@/app/Exceptions/AuthenticationException";
+import { AuthorizationException } from "@/app/Exceptions/AuthorizationException";
+import type { ParameterizedMiddlewareStack } from "./ParameterizedMiddlewareStack";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `abilities:<a>,<b>` — the bearer token must grant every listed ability (403 otherwise).
+ */
+export function ensureTokenAbilities(...abilities: string[]): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        const token = await auth(request, "token").token();
+        if (token === null) {
+            throw new AuthenticationException();
+        }
+        if (abilities.some((ability) => token.cant(ability))) {
+            throw new AuthorizationException("Invalid ability provided.");
+        }
+        return next(request);
+    };
+}
+
+/**
+ * Resolve `abilities:<a>,<b>` when a route first uses it.
+ */
+export function registerTokenAbilitiesMiddleware(stack: ParameterizedMiddlewareStack): void {
+    stack.parameterized("abilities", (list) => {
+        const abilities = list
+            .split(",")
+            .map((ability) => ability.trim())
+            .filter((ability) => ability.length > 0);
+        if (abilities.length === 0) {
+            throw new Error("The abilities middleware needs at least one ability");
+        }
+        return ensureTokenAbilities(...abilities);
+    });
+}
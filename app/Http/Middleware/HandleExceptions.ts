@@ -0,0 +1,17 @@
+import type { Middleware } from "@ninots/middleware";
+import type { ExceptionHandler } from "@/app/Exceptions/Handler";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Render thrown exceptions inside the middleware pipeline, so the wide event
+ * wrapping this middleware records the rendered status and reported error.
+ */
+export function handleExceptions(handler: ExceptionHandler): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        try {
+            return await next(request);
+        } catch (error) {
+            return handler.handle(request, error);
+        }
+    };
+}
@@ -0,0 +1,61 @@
+import { type Middleware, MiddlewareStack } from "@ninots/middleware";
+
+/**
+ * Builds the middleware for one `name:parameters` entry (e.g. `10,1` for `throttle:10,1`).
+ */
+export type MiddlewareFactory = (parameters: string) => Middleware;
+
+/**
+ * Middleware stack that understands Laravel-style parameterized names.
+ *
+ * `@ninots/middleware` looks middleware up by exact name; factories registered
+ * with {@link parameterized} build `prefix:<parameters>` entries on their first
+ * lookup, so routes can use any `throttle:<max>,<minutes>` without registering it.
+ */
+export class ParameterizedMiddlewareStack extends MiddlewareStack {
+    private readonly factories = new Map<string, MiddlewareFactory>();
+
+    private readonly registered = new Set<string>();
+
+    private readonly aliases = new Map<string, string[]>();
+
+    public parameterized(prefix: string, factory: MiddlewareFactory): void {
+        this.factories.set(prefix, factory);
+    }
+
+    public override add(name: string, middleware: Middleware): ReturnType<MiddlewareStack["add"]> {
+        this.registered.add(name);
+        return super.add(name, middleware);
+    }
+
+    public override alias(name: string, middleware: string[]): ReturnType<MiddlewareStack["alias"]> {
+        this.aliases.set(name, middleware);
+        return super.alias(name, middleware);
+    }
+
+    /**
+     * `names` with every alias (e.g. `api`) replaced by the middleware it stands for.
+     */
+    public expand(names: string[]): string[] {
+        return names.flatMap((name) => {
+            const members = this.aliases.get(name);
+            return members === undefined ? [name] : this.expand(members);
+        });
+    }
+
+    public override get(name: string): ReturnType<MiddlewareStack["get"]> {
+        this.build(name);
+        return super.get(name);
+    }
+
+    private build(name: string): void {
+        const separator = name.indexOf(":");
+        if (this.registered.has(name) || separator === -1) {
+            return;
+        }
+        const factory = this.factories.get(name.slice(0, separator));
+        if (factory !== undefined) {
+            this.add(name, factory(name.slice(separator + 1)));
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import type { Middleware } from "@ninots/middleware";
+import { auth } from "@/app/Auth/auth";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `guest` — only guests (login / register pages); authenticated users are sent to `home`.
+ */
+export function redirectIfAuthenticated(home = "/dashboard"): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        if (await auth(request).check()) {
+            return new Response(null, { status: 302, headers: { Location: home } });
+        }
+        return next(request);
+    };
+}
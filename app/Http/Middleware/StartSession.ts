@@ -0,0 +1,88 @@
+import type { Middleware } from "@ninots/middleware";
+import type { SessionManager } from "@ninots/session";
+import { reportToWideEvent } from "@/app/Exceptions/reportToWideEvent";
+import { clientIp } from "@/app/Http/clientIp";
+import { readCookie, serializeCookie, withCookies } from "@/app/Http/cookies";
+import { sessionCookieOptions, startSessionStore } from "@/app/Session/createSessionServices";
+import type { SessionClient } from "@/app/Session/DatabaseSessionDriver";
+import type { SessionGarbageCollector } from "@/app/Session/SessionGarbageCollector";
+import { setRequestSession } from "@/app/Session/session";
+import type { UserSessionIndex } from "@/app/Session/UserSessionIndex";
+import sessionConfig from "@/config/session";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/** Driver that keeps client details per session (e.g. the database driver). */
+type SessionClientRecorder = { recordClient(sessionId: string, client: SessionClient): void };
+
+export type StartSessionOptions = {
+    clients?: SessionClientRecorder;
+    /** Tracks which sessions belong to which user (active sessions / "log out other devices"). */
+    index?: UserSessionIndex;
+    /** Sweeps expired sessions after the response when its lottery hits. */
+    collector?: SessionGarbageCollector;
+};
+
+/**
+ * `session` — load the request's session from the configured driver, expose it
+ * through {@link import("@/app/Session/session").session} and persist it once
+ * the response is built (aging flash data).
+ *
+ * The session is only persisted when the browser already holds a session cookie,
+ * its id changed (login / logout) or something was stored in it, so anonymous
+ * page views do not leave empty sessions behind. A new or changed id is sent as
+ * a cookie. With a `clients` recorder the request's IP and user agent are stored
+ * alongside each save. Lottery garbage collection runs after the response is
+ * handed back, so no request waits for the sweep.
+ */
+export function startSession(sessions: SessionManager, options: StartSessionOptions = {}): Middleware {
+    const { clients, index, collector } = options;
+
+    return async (request: Request, next: NextHandler) => {
+        const incoming = readCookie(request, sessionConfig.cookie);
+        const store = await startSessionStore(sessions, incoming);
+        const startId = store.getId();
+        setRequestSession(request, store);
+
+        const save = async (): Promise<void> => {
+            const client = { ipAddress: clientIp(request), userAgent: request.headers.get("User-Agent") };
+            clients?.recordClient(store.getId(), client);
+            await store.save();
+            await index?.record(store.getId(), store.all(), client);
+        };
+
+        let response: Response;
+        try {
+            response = await next(request);
+        } catch (error) {
+            // Keep changes made before the failure (e.g. a consumed OAuth state) for the existing session.
+            if (incoming !== undefined) {
+                store.ageFlashData();
+                await save();
+            }
+            throw error;
+        }
+
+        store.ageFlashData();
+        const started = store.getId() !== startId || Object.keys(store.all()).length > 0;
+        if (incoming !== undefined || started) {
+            await save();
+        }
+        if (collector?.hitsLottery() === true) {
+            setTimeout(() => {
+                collector.collect().catch((error: unknown) => {
+                    reportToWideEvent(error instanceof Error ? error : new Error(String(error)), request);
+                });
+            }, 0);
+        }
+        if (store.getId() === incoming || !started) {
+            return response;
+        }
+
+        return withCookies(response, [
+            serializeCookie(sessionConfig.cookie, store.getId(), {
+                ...sessionCookieOptions(),
+                maxAge: sessionConfig.lifetime * 60,
+            }),
+        ]);
+    };
+}
@@ -0,0 +1,69 @@
+import type { Middleware } from "@ninots/middleware";
+import { ThrottleRequestsException } from "@/app/Exceptions/ThrottleRequestsException";
+import { clientIp } from "@/app/Http/clientIp";
+import { Limit } from "@/app/RateLimiting/Limit";
+import type { RateLimiter } from "@/app/RateLimiting/RateLimiter";
+import type { ParameterizedMiddlewareStack } from "./ParameterizedMiddlewareStack";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Resolve a `throttle:` spec — a named limiter (`api`) or `<maxAttempts>,<decayMinutes>`.
+ *
+ * Inline specs key by path + client IP, so routes sharing `5,1` keep separate budgets.
+ */
+function resolveLimit(limiter: RateLimiter, spec: string, request: Request): Limit | Promise<Limit> {
+    const named = limiter.limiter(spec);
+    if (named !== undefined) {
+        return named(request);
+    }
+
+    const [maxAttempts, decayMinutes = "1"] = spec.split(",");
+    const limit = Limit.perMinute(Number(maxAttempts), Number(decayMinutes));
+    return limit.by(`${new URL(request.url).pathname}|${clientIp(request)}`);
+}
+
+/**
+ * Throttle middleware for one spec; exceeding the limit throws a 429
+ * {@link ThrottleRequestsException} for the exception handler to render.
+ */
+export function throttle(limiter: RateLimiter, spec: string): Middleware {
+    if (limiter.limiter(spec) === undefined && !/^\d+(,\d+(\.\d+)?)?$/.test(spec)) {
+        throw new Error(`Unknown rate limiter [${spec}]`);
+    }
+
+    return async (request: Request, next: NextHandler) => {
+        const limit = await resolveLimit(limiter, spec, request);
+        const result = await limiter.hit(`throttle:${spec}:${limit.key}`, limit);
+
+        const headers: Record<string, string> = {
+            "X-RateLimit-Limit": String(result.limit),
+            "X-RateLimit-Remaining": String(result.remaining),
+        };
+
+        if (!result.allowed) {
+            throw new ThrottleRequestsException({
+                ...headers,
+                "Retry-After": String(result.retryAfter),
+                "X-RateLimit-Reset": String(Math.ceil(Date.now() / 1000) + result.retryAfter),
+            });
+        }
+
+        const response = await next(request);
+        const merged = new Headers(response.headers);
+        for (const [name, value] of Object.entries(headers)) {
+            merged.set(name, value);
+        }
+        return new Response(response.body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: merged,
+        });
+    };
+}
+
+/**
+ * Resolve `throttle:<name>` and inline `throttle:<maxAttempts>,<decayMinutes>` when a route first uses them.
+ */
+export function registerThrottleMiddleware(stack: ParameterizedMiddlewareStack, limiter: RateLimiter): void {
+    stack.parameterized("throttle", (spec) => throttle(limiter, spec));
+}
@@ -0,0 +1,17 @@
+import type { Middleware } from "@ninots/middleware";
+import { InvalidSignatureException } from "@/app/Exceptions/InvalidSignatureException";
+import { hasValidSignature } from "@/app/Http/signedUrls";
+type NextHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * `signed` — only URLs produced by `signedRoute()` / `temporarySignedRoute()`;
+ * tampered or expired links get a 403.
+ */
+export function validateSignature(now: () => Date = () => new Date()): Middleware {
+    return async (request: Request, next: NextHandler) => {
+        if (!hasValidSignature(request, now())) {
+            throw new InvalidSignatureException();
+        }
+        return next(request);
+    };
+}
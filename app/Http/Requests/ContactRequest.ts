@@ -0,0 +1,25 @@
+import { FormRequest } from "@/app/Http/Requests/FormRequest";
+
+/**
+ * Validated payload for {@link ContactRequest}.
+ */
+export type ContactData = {
+    message: string;
+};
+
+/**
+ * Contact form submission.
+ */
+export class ContactRequest extends FormRequest<ContactData> {
+    public rules(): Record<string, string> {
+        return {
+            message: "required|string|max:2000",
+        };
+    }
+
+    public override messages(): Record<string, string> {
+        return {
+            "message.required": "Please write a message before sending.",
+        };
+    }
+}
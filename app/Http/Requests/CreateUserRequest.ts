@@ -1,9 +1,19 @@
 import { FormRequest } from "@/app/Http/Requests/FormRequest";
 
+/**
+ * Validated payload for {@link CreateUserRequest}.
+ */
+export type CreateUserData = {
+    email: string;
+    name: string;
+    password: string;
+    avatar?: string;
+};
+
 /**
  * Create user form request.
  */
-export class CreateUserRequest extends FormRequest {
+export class CreateUserRequest extends FormRequest<CreateUserData> {
     public rules(): Record<string, string> {
         return {
             email: "required|email|unique:users|max:255",
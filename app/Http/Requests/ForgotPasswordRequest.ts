@@ -0,0 +1,19 @@
+import { FormRequest } from "@/app/Http/Requests/FormRequest";
+
+/**
+ * Validated payload for {@link ForgotPasswordRequest}.
+ */
+export type ForgotPasswordData = {
+    email: string;
+};
+
+/**
+ * Password reset link request.
+ */
+export class ForgotPasswordRequest extends FormRequest<ForgotPasswordData> {
+    public rules(): Record<string, string> {
+        return {
+            email: "required|email",
+        };
+    }
+}
@@ -1,14 +1,178 @@
+import type { RouteParams } from "@ninots/routing";
+import { Validator } from "@ninots/validation";
+import { AuthorizationException } from "@/app/Exceptions/AuthorizationException";
+import { ValidationException, type ValidationErrors } from "@/app/Exceptions/ValidationException";
+import { DatabasePresenceVerifier } from "@/app/Validation/DatabasePresenceVerifier";
+
+/** Rules resolved in the app (database + cross-field) instead of `@ninots/validation`. */
+const APP_RULES = new Set(["unique", "exists", "confirmed"]);
+
+const DEFAULT_MESSAGES: Record<string, string> = {
+    unique: "The :attribute has already been taken.",
+    exists: "The selected :attribute is invalid.",
+    confirmed: "The :attribute confirmation does not match.",
+};
+
+type ParsedRule = { name: string; args: string[] };
+
+function parseRule(rule: string): ParsedRule {
+    const separator = rule.indexOf(":");
+    if (separator === -1) {
+        return { name: rule, args: [] };
+    }
+    return { name: rule.slice(0, separator), args: rule.slice(separator + 1).split(",") };
+}
+
+function isPresent(value: unknown): boolean {
+    return value !== undefined && value !== null && value !== "";
+}
+
 /**
  * Base form request — validation hooks for HTTP requests.
+ *
+ * Core rules run through `@ninots/validation`; `unique`, `exists` and
+ * `confirmed` are resolved here against the app database / request input.
  */
-export abstract class FormRequest {
+export abstract class FormRequest<TData extends Record<string, unknown> = Record<string, unknown>> {
+    private routeParams: RouteParams = {};
+
+    private input: Record<string, unknown> = {};
+
+    constructor(private readonly presence: DatabasePresenceVerifier = new DatabasePresenceVerifier()) {}
+
     public abstract rules(): Record<string, string>;
 
     public messages(): Record<string, string> {
         return {};
     }
 
-    public authorize(): boolean {
+    public authorize(_request?: Request): boolean | Promise<boolean> {
         return true;
     }
+
+    /**
+     * Authorize, validate and return only the validated fields.
+     *
+     * @throws AuthorizationException when {@link authorize} denies the request
+     * @throws ValidationException with the field error bag (rendered as 422)
+     */
+    public async validate(request: Request, params?: RouteParams): Promise<TData> {
+        this.routeParams = params ?? {};
+
+        if (!(await this.authorize(request))) {
+            throw new AuthorizationException();
+        }
+
+        const input = await this.validationData(request);
+        this.input = input;
+        const errors = await this.validateInput(input);
+
+        if (Object.keys(errors).length > 0) {
+            throw new ValidationException(errors);
+        }
+
+        return this.validated(input);
+    }
+
+    /**
+     * All input read by the last {@link validate} call — e.g. to flash it back after a failure.
+     */
+    public all(): Record<string, unknown> {
+        return { ...this.input };
+    }
+
+    /**
+     * Route parameter accessor for rules such as `unique:users,email,{id}`.
+     */
+    protected param(name: string): string | undefined {
+        return this.routeParams[name];
+    }
+
+    /**
+     * Read JSON or form-encoded input from the request body.
+     */
+    protected async validationData(request: Request): Promise<Record<string, unknown>> {
+        const contentType = request.headers.get("Content-Type") ?? "";
+
+        if (contentType.includes("application/json")) {
+            const body: unknown = await request.json().catch(() => ({}));
+            return typeof body === "object" && body !== null && !Array.isArray(body)
+                ? (body as Record<string, unknown>)
+                : {};
+        }
+
+        if (contentType.includes("form")) {
+            const form = await request.formData();
+            const input: Record<string, unknown> = {};
+            for (const [key, value] of form.entries()) {
+                input[key] = value;
+            }
+            return input;
+        }
+
+        return {};
+    }
+
+    private async validateInput(input: Record<string, unknown>): Promise<ValidationErrors> {
+        const packageRules: Record<string, string> = {};
+        const appRules: Record<string, ParsedRule[]> = {};
+
+        for (const [field, definition] of Object.entries(this.rules())) {
+            const parsed = definition.split("|").map(parseRule);
+            packageRules[field] = parsed
+                .filter((rule) => !APP_RULES.has(rule.name))
+                .map((rule) => (rule.args.length > 0 ? `${rule.name}:${rule.args.join(",")}` : rule.name))
+                .join("|");
+            appRules[field] = parsed.filter((rule) => APP_RULES.has(rule.name));
+        }
+
+        const validator = new Validator(input, packageRules, this.messages());
+        const errors: ValidationErrors = (await validator.passes()) ? {} : { ...validator.errors() };
+
+        for (const [field, rules] of Object.entries(appRules)) {
+            for (const rule of rules) {
+                if (errors[field] !== undefined || !isPresent(input[field])) {
+                    break;
+                }
+                if (!(await this.passesAppRule(field, rule, input))) {
+                    errors[field] = [this.messageFor(field, rule.name)];
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    private async passesAppRule(field: string, rule: ParsedRule, input: Record<string, unknown>): Promise<boolean> {
+        const value = input[field];
+        const [table = "", column = field, excludeId] = rule.args;
+
+        switch (rule.name) {
+            case "confirmed":
+                return input[`${field}_confirmation`] === value;
+            case "unique":
+                return (await this.presence.getCount(table, column, value, excludeId)) === 0;
+            case "exists":
+                return (await this.presence.getCount(table, column, value)) > 0;
+            default:
+                return true;
+        }
+    }
+
+    private messageFor(field: string, rule: string): string {
+        const messages = this.messages();
+        const template =
+            messages[`${field}.${rule}`] ?? messages[rule] ?? DEFAULT_MESSAGES[rule] ?? "Invalid :attribute.";
+        return template.replaceAll(":attribute", field.replaceAll("_", " "));
+    }
+
+    private validated(input: Record<string, unknown>): TData {
+        const data: Record<string, unknown> = {};
+        for (const field of Object.keys(this.rules())) {
+            if (input[field] !== undefined) {
+                data[field] = input[field];
+            }
+        }
+        return data as TData;
+    }
 }
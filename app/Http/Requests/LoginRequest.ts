@@ -0,0 +1,23 @@
+import { FormRequest } from "@/app/Http/Requests/FormRequest";
+
+/**
+ * Validated payload for {@link LoginRequest}.
+ */
+export type LoginData = {
+    email: string;
+    password: string;
+    remember?: string;
+};
+
+/**
+ * Login form request.
+ */
+export class LoginRequest extends FormRequest<LoginData> {
+    public rules(): Record<string, string> {
+        return {
+            email: "required|email",
+            password: "required|string",
+            remember: "sometimes|string",
+        };
+    }
+}
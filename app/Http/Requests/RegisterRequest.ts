@@ -0,0 +1,30 @@
+import { FormRequest } from "@/app/Http/Requests/FormRequest";
+
+/**
+ * Validated payload for {@link RegisterRequest}.
+ */
+export type RegisterData = {
+    name: string;
+    email: string;
+    password: string;
+};
+
+/**
+ * Registration form request.
+ */
+export class RegisterRequest extends FormRequest<RegisterData> {
+    public rules(): Record<string, string> {
+        return {
+            name: "required|string|max:255",
+            email: "required|email|unique:users|max:255",
+            password: "required|string|min:8|confirmed",
+        };
+    }
+
+    public override messages(): Record<string, string> {
+        return {
+            "email.unique": "This email is already in use",
+            "password.min": "The password must have at least 8 characters",
+        };
+    }
+}
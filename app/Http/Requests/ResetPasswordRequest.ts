@@ -0,0 +1,29 @@
+import { FormRequest } from "@/app/Http/Requests/FormRequest";
+
+/**
+ * Validated payload for {@link ResetPasswordRequest}.
+ */
+export type ResetPasswordData = {
+    token: string;
+    email: string;
+    password: string;
+};
+
+/**
+ * New password form request.
+ */
+export class ResetPasswordRequest extends FormRequest<ResetPasswordData> {
+    public rules(): Record<string, string> {
+        return {
+            token: "required|string",
+            email: "required|email",
+            password: "required|string|min:8|confirmed",
+        };
+    }
+
+    public override messages(): Record<string, string> {
+        return {
+            "password.min": "The password must have at least 8 characters",
+        };
+    }
+}
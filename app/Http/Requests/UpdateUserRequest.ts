@@ -1,12 +1,22 @@
 import { FormRequest } from "@/app/Http/Requests/FormRequest";
 
+/**
+ * Validated payload for {@link UpdateUserRequest}.
+ */
+export type UpdateUserData = {
+    email?: string;
+    name?: string;
+    password?: string;
+    avatar?: string;
+};
+
 /**
  * Update user form request.
  */
-export class UpdateUserRequest extends FormRequest {
+export class UpdateUserRequest extends FormRequest<UpdateUserData> {
     public rules(): Record<string, string> {
         return {
-            email: "sometimes|email|max:255",
+            email: `sometimes|email|max:255|unique:users,email,${this.param("id") ?? "NULL"}`,
             name: "sometimes|string|max:255",
             password: "sometimes|string|min:8|confirmed",
             avatar: "sometimes|url",
@@ -0,0 +1,116 @@
+import type { AbstractPaginator } from "@/app/Pagination/AbstractPaginator";
+import { ResourceCollection } from "./ResourceCollection";
+
+/**
+ * Sentinel for conditional fields that should be omitted from the output.
+ */
+export class MissingValue {
+    public static readonly instance = new MissingValue();
+
+    private constructor() {}
+}
+
+/**
+ * Resolve resources, collections and conditional values nested anywhere in a payload.
+ */
+export function resolveResourceValue(value: unknown, request?: Request): unknown {
+    if (value instanceof JsonResource || value instanceof ResourceCollection) {
+        return value.resolve(request);
+    }
+
+    if (Array.isArray(value)) {
+        return value
+            .filter((item) => !(item instanceof MissingValue))
+            .map((item) => resolveResourceValue(item, request));
+    }
+
+    if (typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+        const resolved: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (!(item instanceof MissingValue)) {
+                resolved[key] = resolveResourceValue(item, request);
+            }
+        }
+        return resolved;
+    }
+
+    return value;
+}
+
+/**
+ * API resource — declares the public JSON shape of a model.
+ *
+ * Serializes as `{ data: {...}, ...additional }`; nested resources are resolved
+ * without their own wrapper.
+ */
+export abstract class JsonResource<T> {
+    /** Top-level key the resource is wrapped in (`null` disables wrapping). */
+    public static wrap: string | null = "data";
+
+    private meta: Record<string, unknown> = {};
+
+    constructor(public readonly resource: T) {}
+
+    /**
+     * Public attributes of the resource.
+     */
+    public abstract toArray(request?: Request): Record<string, unknown>;
+
+    /**
+     * Collection of resources (plain array or paginator) using this resource class.
+     */
+    public static collection<T, R extends JsonResource<T>>(
+        this: new (
+            resource: T,
+        ) => R,
+        items: T[] | AbstractPaginator<T>,
+    ): ResourceCollection<T> {
+        return new ResourceCollection(items, (item) => new this(item));
+    }
+
+    /**
+     * Extra top-level keys merged next to `data` (e.g. `meta`).
+     */
+    public additional(meta: Record<string, unknown>): this {
+        this.meta = { ...this.meta, ...meta };
+        return this;
+    }
+
+    public resolve(request?: Request): Record<string, unknown> {
+        return resolveResourceValue(this.toArray(request), request) as Record<string, unknown>;
+    }
+
+    public toJSON(): Record<string, unknown> {
+        const wrap = (this.constructor as typeof JsonResource).wrap;
+        const data = this.resolve();
+        return wrap === null ? { ...data, ...this.meta } : { [wrap]: data, ...this.meta };
+    }
+
+    public toResponse(status = 200): Response {
+        return Response.json(this.toJSON(), { status });
+    }
+
+    /**
+     * Include `value` only when `condition` holds.
+     */
+    protected when<V>(condition: boolean, value: V | (() => V)): V | MissingValue {
+        if (!condition) {
+            return MissingValue.instance;
+        }
+        return typeof value === "function" ? (value as () => V)() : value;
+    }
+
+    /**
+     * Include `value` only when it is not `null` / `undefined`.
+     */
+    protected whenNotNull<V>(value: V | null | undefined): V | MissingValue {
+        return value === null || value === undefined ? MissingValue.instance : value;
+    }
+
+    /**
+     * Spread several attributes at once when `condition` holds.
+     */
+    protected mergeWhen(condition: boolean, attributes: Record<string, unknown>): Record<string, unknown> {
+        return condition ? attributes : {};
+    }
+}
@@ -0,0 +1,17 @@
+import type { StoredNotification } from "@/app/Notifications/DatabaseNotificationStore";
+import { JsonResource } from "./JsonResource";
+
+/**
+ * Public API shape of a stored (`database` channel) notification.
+ */
+export class NotificationResource extends JsonResource<StoredNotification> {
+    public toArray(): Record<string, unknown> {
+        return {
+            id: this.resource.id,
+            type: this.resource.type,
+            data: this.resource.data,
+            read_at: this.resource.readAt?.toISOString() ?? null,
+            created_at: this.resource.createdAt.toISOString(),
+        };
+    }
+}
@@ -0,0 +1,50 @@
+import { AbstractPaginator } from "@/app/Pagination/AbstractPaginator";
+import type { JsonResource } from "./JsonResource";
+import { resolveResourceValue } from "./JsonResource";
+
+/**
+ * Collection of {@link JsonResource}s — a plain list or a paginator page.
+ *
+ * Paginated collections serialize as `{data, meta, links}` and carry the
+ * paginator's `Link` header in {@link toResponse}.
+ */
+export class ResourceCollection<T> {
+    private meta: Record<string, unknown> = {};
+
+    constructor(
+        private readonly items: T[] | AbstractPaginator<T>,
+        private readonly factory: (item: T) => JsonResource<T>,
+    ) {}
+
+    public additional(meta: Record<string, unknown>): this {
+        this.meta = { ...this.meta, ...meta };
+        return this;
+    }
+
+    public resolve(request?: Request): unknown[] {
+        const items = this.items instanceof AbstractPaginator ? this.items.items : this.items;
+        return items.map((item) => resolveResourceValue(this.factory(item), request));
+    }
+
+    public toJSON(): Record<string, unknown> {
+        const data = this.resolve();
+
+        if (this.items instanceof AbstractPaginator) {
+            const page = this.items.toJSON();
+            const extra = this.meta.meta;
+            const meta = typeof extra === "object" && extra !== null ? { ...page.meta, ...extra } : page.meta;
+            return { ...this.meta, data, meta, links: page.links };
+        }
+
+        return { data, ...this.meta };
+    }
+
+    public toResponse(status = 200): Response {
+        const headers = new Headers();
+        const link = this.items instanceof AbstractPaginator ? this.items.linkHeader() : "";
+        if (link.length > 0) {
+            headers.set("Link", link);
+        }
+        return Response.json(this.toJSON(), { status, headers });
+    }
+}
@@ -0,0 +1,16 @@
+import type { User } from "@/app/Models/User";
+import { JsonResource } from "./JsonResource";
+
+/**
+ * Public API shape of a {@link User}.
+ */
+export class UserResource extends JsonResource<User> {
+    public toArray(): Record<string, unknown> {
+        return {
+            id: this.resource.getAttribute("id"),
+            name: this.resource.getAttribute("name"),
+            email: this.resource.getAttribute("email"),
+            avatar: this.whenNotNull(this.resource.getAttribute("avatar")),
+        };
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * Client IP per request, captured from `server.requestIP()` in the serve `fetch`
+ * wrapper so middleware (which only sees the `Request`) can read it.
+ */
+const addresses = new WeakMap<Request, string>();
+
+export function rememberClientIp(request: Request, address: string | undefined): void {
+    if (address !== undefined && address.length > 0) {
+        addresses.set(request, address);
+    }
+}
+
+/**
+ * Socket address of the client; falls back to the first `X-Forwarded-For` hop
+ * for requests not served through `Bun.serve` (e.g. constructed in tests).
+ */
+export function clientIp(request: Request): string {
+    const forwarded = request.headers.get("X-Forwarded-For")?.split(",")[0]?.trim();
+    return addresses.get(request) ?? (forwarded !== undefined && forwarded.length > 0 ? forwarded : "unknown");
+}
@@ -0,0 +1,70 @@
+export type CookieOptions = {
+    path?: string;
+    domain?: string;
+    /** Lifetime in seconds; `0` expires the cookie immediately. */
+    maxAge?: number;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: "strict" | "lax" | "none";
+};
+
+/**
+ * Read one cookie from the request `Cookie` header; a malformed percent-encoding reads as absent.
+ */
+export function readCookie(request: Request, name: string): string | undefined {
+    const header = request.headers.get("Cookie");
+    if (header === null) {
+        return undefined;
+    }
+
+    for (const pair of header.split(";")) {
+        const separator = pair.indexOf("=");
+        if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+            try {
+                return decodeURIComponent(pair.slice(separator + 1).trim());
+            } catch {
+                return undefined;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Serialize a `Set-Cookie` header value.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+    const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? "/"}`];
+
+    if (options.domain !== undefined) {
+        parts.push(`Domain=${options.domain}`);
+    }
+    if (options.maxAge !== undefined) {
+        parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+    }
+    if (options.secure === true) {
+        parts.push("Secure");
+    }
+    if (options.httpOnly !== false) {
+        parts.push("HttpOnly");
+    }
+    if (options.sameSite !== undefined) {
+        parts.push(`SameSite=${options.sameSite[0]?.toUpperCase()}${options.sameSite.slice(1)}`);
+    }
+    return parts.join("; ");
+}
+
+/**
+ * Copy `response` with extra `Set-Cookie` headers (redirect responses have immutable headers).
+ */
+export function withCookies(response: Response, cookies: string[]): Response {
+    if (cookies.length === 0) {
+        return response;
+    }
+
+    const headers = new Headers(response.headers);
+    for (const cookie of cookies) {
+        headers.append("Set-Cookie", cookie);
+    }
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
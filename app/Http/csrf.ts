@@ -0,0 +1,36 @@
+import { generateCsrfToken, resolveCsrfConfig, resolveSessionId, withSessionCookie } from "@ninots/middleware";
+import { hasSession, session } from "@/app/Session/session";
+import csrfConfig from "@/config/csrf";
+import sessionConfig from "@/config/session";
+
+const csrfOptions = {
+    secret: csrfConfig.secret,
+    sessionCookieName: csrfConfig.sessionCookie,
+    tokenFieldName: csrfConfig.tokenField,
+};
+
+/**
+ * Render a form with a CSRF token bound to the request's session cookie.
+ *
+ * Behind the `session` middleware the token is bound to the session id (and
+ * kept in the session, so the cookie is issued); otherwise a bare session
+ * cookie is issued when the browser has none yet.
+ */
+export async function withCsrfToken(
+    request: Request,
+    render: (token: string) => Response | Promise<Response>,
+): Promise<Response> {
+    const config = resolveCsrfConfig(csrfOptions);
+
+    if (hasSession(request) && config.sessionCookieName === sessionConfig.cookie) {
+        const store = session(request);
+        const token = generateCsrfToken(store.getId(), config);
+        store.put(csrfConfig.tokenField, token);
+        return render(token);
+    }
+
+    const cookie = resolveSessionId(request, config.sessionCookieName);
+    const response = await render(generateCsrfToken(cookie.sessionId, config));
+
+    return withSessionCookie(response, cookie, config.sessionCookieName);
+}
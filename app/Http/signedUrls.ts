@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { type RouteRegistry, route } from "@ninots/routing";
+import appConfig from "@/config/app";
+
+/**
+ * Same parameter rule as `route()`: params are optional only for routes without placeholders.
+ */
+export type SignedRouteArguments<Name extends keyof RouteRegistry> = [keyof RouteRegistry[Name]] extends [never]
+    ? [params?: RouteRegistry[Name]]
+    : [params: RouteRegistry[Name]];
+
+/**
+ * `route(name, params)` with a permanent signature — e.g. unsubscribe links.
+ */
+export function signedRoute<Name extends keyof RouteRegistry>(
+    name: Name,
+    ...params: SignedRouteArguments<Name>
+): string {
+    return signUrl(routePath(name, params[0]));
+}
+
+/**
+ * `route(name, params)` with a signature that expires at `expiresAt` — e.g. verification or download links.
+ */
+export function temporarySignedRoute<Name extends keyof RouteRegistry>(
+    name: Name,
+    expiresAt: Date,
+    ...params: SignedRouteArguments<Name>
+): string {
+    return signUrl(routePath(name, params[0]), expiresAt);
+}
+
+/**
+ * Append `expires` (unix seconds, optional) and an HMAC-SHA256 `signature` to `url`.
+ *
+ * Only the path and query are signed — not the host — so links survive a
+ * proxy or `APP_URL` that differs from the host the request arrives on.
+ */
+export function signUrl(url: string, expiresAt?: Date): string {
+    const target = new URL(url, appConfig.url);
+    target.searchParams.delete("signature");
+    if (expiresAt !== undefined) {
+        target.searchParams.set("expires", String(Math.floor(expiresAt.getTime() / 1000)));
+    }
+    target.searchParams.set("signature", signature(target));
+
+    return isAbsolute(url) ? target.toString() : `${target.pathname}${target.search}`;
+}
+
+/**
+ * Whether the URL (or request URL) carries an untampered, unexpired signature.
+ */
+export function hasValidSignature(url: Request | string, now: Date = new Date()): boolean {
+    const target = new URL(typeof url === "string" ? url : url.url, appConfig.url);
+    const provided = target.searchParams.get("signature") ?? "";
+    target.searchParams.delete("signature");
+
+    const expected = Buffer.from(signature(target));
+    const actual = Buffer.from(provided);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return false;
+    }
+
+    const expires = target.searchParams.get("expires");
+    return expires === null || Number(expires) * 1000 > now.getTime();
+}
+
+function routePath(name: PropertyKey, params: object | undefined): string {
+    // `route()` is typed per literal name; the generic rest tuple above already enforces the same contract.
+    return (route as (name: PropertyKey, params?: object) => string)(name, params);
+}
+
+function signature(url: URL): string {
+    return createHmac("sha256", appConfig.key).update(`${url.pathname}${url.search}`).digest("hex");
+}
+
+function isAbsolute(url: string): boolean {
+    return url.startsWith("http://") || url.startsWith("https://");
+}
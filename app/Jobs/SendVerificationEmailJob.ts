@@ -1,17 +1,26 @@
-import type { MailManager } from "@ninots/mail";
-import type { QueueableJob } from "@ninots/queue";
+import type { RetryableJob } from "@/app/Queue/Worker";
+import { hashToken } from "@/app/Hashing/tokens";
+import { temporarySignedRoute } from "@/app/Http/signedUrls";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import { VerifyEmailMail } from "@/app/Mail/VerifyEmailMail";
+import appConfig from "@/config/app";
+import authConfig from "@/config/auth";
 
 /**
  * Send verification email job — runs immediately on sync queue;
- * enqueued for `nino queue:work` when QUEUE_CONNECTION=redis.
- * Uses `@ninots/mail` when a {@link MailManager} is injected.
+ * enqueued for `nino queue:work` when QUEUE_CONNECTION=database or redis.
+ * Sends {@link VerifyEmailMail} when an {@link AppMailManager} is injected.
  */
-export class SendVerificationEmailJob implements QueueableJob {
+export class SendVerificationEmailJob implements RetryableJob {
     public static handledJobs: SendVerificationEmailJob[] = [];
 
     public readonly jobName = "SendVerificationEmailJob";
 
-    private mail: MailManager | undefined;
+    /** Mail servers hiccup: retry after 10s, then 60s, before giving up. */
+    public readonly tries = 3;
+    public readonly backoff = [10, 60];
+
+    private mail: AppMailManager | undefined;
 
     constructor(
         public readonly userId: number,
@@ -21,7 +30,7 @@ export class SendVerificationEmailJob implements QueueableJob {
     /**
      * Optional mail manager for real send (sync path via app composition).
      */
-    public withMail(mail: MailManager): this {
+    public withMail(mail: AppMailManager): this {
         this.mail = mail;
         return this;
     }
@@ -42,14 +51,22 @@ export class SendVerificationEmailJob implements QueueableJob {
         return new SendVerificationEmailJob(userId, email);
     }
 
+    /**
+     * Signed `verification.verify` link, valid for `auth.verification.expire` minutes.
+     */
+    public verificationUrl(now: Date = new Date()): string {
+        const expiresAt = new Date(now.getTime() + authConfig.verification.expire * 60_000);
+        const path = temporarySignedRoute("verification.verify", expiresAt, {
+            id: String(this.userId),
+            hash: hashToken(this.email),
+        });
+        return `${appConfig.url}${path}`;
+    }
+
     public async handle(): Promise<void> {
         SendVerificationEmailJob.handledJobs.push(this);
         if (this.mail !== undefined) {
-            await this.mail.mailer().send({
-                to: this.email,
-                subject: "Verify your email",
-                text: `Welcome! Verify user #${this.userId} at ${this.email}`,
-            });
+            await this.mail.send(new VerifyEmailMail(this.verificationUrl()).to(this.email));
         }
     }
 
@@ -1,14 +1,19 @@
-import type { QueueManager } from "@ninots/queue";
 import type { UserCreatedEvent } from "@/app/Events/UserCreatedEvent";
 import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import type { Bus } from "@/app/Queue/Bus";
 
 /**
- * Sends a verification email job when a user is created.
+ * Dispatches the verification email job when a user is created. The job is
+ * queued with its own retries, so signing up never waits on the mail server.
  */
 export class SendWelcomeEmailListener {
-    constructor(private readonly queue: QueueManager) {}
+    constructor(
+        private readonly bus: Pick<Bus, "dispatch">,
+        private readonly mail: AppMailManager,
+    ) {}
 
     public async handle(event: UserCreatedEvent): Promise<void> {
-        await this.queue.push(new SendVerificationEmailJob(event.userId, event.email));
+        await this.bus.dispatch(new SendVerificationEmailJob(event.userId, event.email).withMail(this.mail));
     }
 }
@@ -0,0 +1,14 @@
+import { MailManager } from "@ninots/mail";
+import type { Mailable } from "./Mailable";
+
+/**
+ * {@link MailManager} that also sends {@link Mailable} classes.
+ */
+export class AppMailManager extends MailManager {
+    /**
+     * Render and send a mailable through `mailer` (default mailer when omitted).
+     */
+    public async send(mailable: Mailable<object>, mailer?: string): Promise<void> {
+        await this.mailer(mailer).send(await mailable.build());
+    }
+}
@@ -0,0 +1,127 @@
+import { basename } from "node:path";
+import { render } from "@ninots/view";
+import { htmlToText } from "./htmlToText";
+
+export type MailAddress = string | { address: string; name?: string };
+
+/**
+ * Headers of a mailable — `from` falls back to `mail.from` in the mailer.
+ */
+export type Envelope = {
+    subject: string;
+    from?: MailAddress;
+    replyTo?: MailAddress | MailAddress[];
+    cc?: MailAddress | MailAddress[];
+    bcc?: MailAddress | MailAddress[];
+};
+
+/**
+ * TSX view + props rendered through `@ninots/view`; `text` overrides the generated alternative.
+ */
+export type Content<TProps extends object = Record<string, unknown>> = {
+    view(props: TProps): unknown;
+    props: TProps;
+    text?: string;
+};
+
+export type Attachment = {
+    filename: string;
+    content: string | Uint8Array;
+    contentType?: string;
+};
+
+/**
+ * Message handed to `@ninots/mail` mailers.
+ */
+export type MailableMessage = {
+    to: MailAddress | MailAddress[];
+    subject: string;
+    html: string;
+    text: string;
+    from?: MailAddress;
+    replyTo?: MailAddress | MailAddress[];
+    cc?: MailAddress | MailAddress[];
+    bcc?: MailAddress | MailAddress[];
+    attachments?: Attachment[];
+};
+
+/**
+ * Read a file from disk as an attachment (name defaults to the file's basename).
+ */
+export async function attachmentFromPath(
+    path: string,
+    options: { as?: string; contentType?: string } = {},
+): Promise<Attachment> {
+    const file = Bun.file(path);
+    return {
+        filename: options.as ?? basename(path),
+        content: new Uint8Array(await file.arrayBuffer()),
+        contentType: options.contentType ?? (file.type.split(";")[0] || undefined),
+    };
+}
+
+async function renderContent<TProps extends object>({ view, props }: Content<TProps>): Promise<string> {
+    const response = await render(view, props);
+    return response.text();
+}
+
+/**
+ * Base mailable — one class per email, sent with `mail.send(new OrderShipped(order).to(email))`.
+ *
+ * Subclasses declare {@link envelope} and {@link content}; the HTML body is
+ * rendered from a TSX view and the plain-text part is derived from it.
+ */
+export abstract class Mailable<TProps extends object = Record<string, unknown>> {
+    private recipients: MailAddress[] = [];
+
+    public abstract envelope(): Envelope;
+
+    public abstract content(): Content<TProps>;
+
+    public attachments(): Attachment[] | Promise<Attachment[]> {
+        return [];
+    }
+
+    /**
+     * Add recipients; may be called more than once.
+     */
+    public to(address: MailAddress | MailAddress[]): this {
+        this.recipients.push(...(Array.isArray(address) ? address : [address]));
+        return this;
+    }
+
+    /**
+     * Render the HTML body — handy for previewing a mailable in the browser.
+     */
+    public async render(): Promise<string> {
+        return renderContent(this.content());
+    }
+
+    /**
+     * Build the full message for a mailer.
+     *
+     * @throws Error when no recipient was set with {@link to}
+     */
+    public async build(): Promise<MailableMessage> {
+        if (this.recipients.length === 0) {
+            throw new Error(`${this.constructor.name} has no recipients; call to() before sending`);
+        }
+
+        const envelope = this.envelope();
+        const content = this.content();
+        const html = await renderContent(content);
+        const attachments = await this.attachments();
+
+        return {
+            to: this.recipients.length === 1 ? (this.recipients[0] as MailAddress) : [...this.recipients],
+            subject: envelope.subject,
+            html,
+            text: content.text ?? htmlToText(html),
+            ...(envelope.from !== undefined ? { from: envelope.from } : {}),
+            ...(envelope.replyTo !== undefined ? { replyTo: envelope.replyTo } : {}),
+            ...(envelope.cc !== undefined ? { cc: envelope.cc } : {}),
+            ...(envelope.bcc !== undefined ? { bcc: envelope.bcc } : {}),
+            ...(attachments.length > 0 ? { attachments } : {}),
+        };
+    }
+}
@@ -0,0 +1,23 @@
+import authConfig from "@/config/auth";
+import { VerifyEmailMail as VerifyEmailView, type VerifyEmailMailProps } from "@/resources/views/mail/verify-email";
+import { type Content, type Envelope, Mailable } from "./Mailable";
+
+/**
+ * Signed email verification link sent after registration and on resend.
+ */
+export class VerifyEmailMail extends Mailable<VerifyEmailMailProps> {
+    constructor(private readonly url: string) {
+        super();
+    }
+
+    public envelope(): Envelope {
+        return { subject: "Verify your email" };
+    }
+
+    public content(): Content<VerifyEmailMailProps> {
+        return {
+            view: VerifyEmailView,
+            props: { url: this.url, expiresInMinutes: authConfig.verification.expire },
+        };
+    }
+}
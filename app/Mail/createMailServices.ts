@@ -4,8 +4,9 @@
  * @packageDocumentation
  */
 
-import { MailManager, type MailManagerConfig } from "@ninots/mail";
+import type { MailManagerConfig } from "@ninots/mail";
 import mailConfig from "@/config/mail";
+import { AppMailManager } from "./AppMailManager";
 
 export const MAIL_MANAGER_KEY = "MailManager";
 
@@ -34,8 +35,8 @@ export function buildMailManagerConfig(): MailManagerConfig {
 }
 
 /**
- * Create the application {@link MailManager}.
+ * Create the application {@link AppMailManager}.
  */
-export function createMailManager(config: MailManagerConfig = buildMailManagerConfig()): MailManager {
-    return new MailManager(config);
+export function createMailManager(config: MailManagerConfig = buildMailManagerConfig()): AppMailManager {
+    return new AppMailManager(config);
 }
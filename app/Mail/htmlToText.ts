@@ -0,0 +1,40 @@
+const ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+        .replace(/&([a-z]+);/gi, (match, name: string) => ENTITIES[name.toLowerCase()] ?? match);
+}
+
+/**
+ * Plain-text alternative for a rendered HTML email.
+ *
+ * Drops `<head>`, `<style>` and `<script>`, keeps links as `text (href)`,
+ * turns block elements into paragraphs and list items into `- ` lines.
+ */
+export function htmlToText(html: string): string {
+    const text = html
+        .replace(/<(head|style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+            const inner = label.replace(/<[^>]+>/g, "").trim();
+            return inner.length === 0 || inner === href ? href : `${inner} (${href})`;
+        })
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<\/?(p|div|h[1-6]|ul|ol|table|tr|section|header|footer|main|blockquote|hr)\b[^>]*>/gi, "\n\n")
+        .replace(/<[^>]+>/g, "");
+
+    return decodeEntities(text)
+        .split("\n")
+        .map((line) => line.replace(/[ \t]+/g, " ").trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
@@ -0,0 +1,109 @@
+import { Model as BaseModel } from "@ninots/orm";
+import { createHasher } from "@/app/Hashing/createHashServices";
+import type { Hasher } from "@/app/Hashing/Hasher";
+import type { CursorPaginator } from "@/app/Pagination/CursorPaginator";
+import type { LengthAwarePaginator } from "@/app/Pagination/LengthAwarePaginator";
+import type { Paginator } from "@/app/Pagination/Paginator";
+import {
+    type CursorOptions,
+    cursorPaginate as cursorPaginateQuery,
+    type PageOptions,
+    type PaginatableQuery,
+    paginate as paginateQuery,
+    simplePaginate as simplePaginateQuery,
+} from "@/app/Pagination/paginate";
+
+type QueryableModel<T> = { query(): PaginatableQuery<T> };
+
+/**
+ * Application base model.
+ *
+ * - `hidden` attributes are stripped from JSON serialization.
+ * - `hashed` attributes are hashed on save unless they already hold a hash.
+ * - `paginate` / `simplePaginate` / `cursorPaginate` return `{data, meta, links}` paginators.
+ */
+export abstract class Model extends BaseModel {
+    protected static hidden: string[] = [];
+
+    protected static hashed: string[] = [];
+
+    private static hasherResolver: (() => Hasher) | null = null;
+
+    private static fallbackHasher: Hasher | null = null;
+
+    /**
+     * Resolve the hasher for `hashed` attributes — bound to `HASHER_KEY` by `AppServiceProvider`.
+     */
+    public static setHasherResolver(resolver: (() => Hasher) | null): void {
+        Model.hasherResolver = resolver;
+    }
+
+    /**
+     * The container's hasher; scripts that touch models without booting the app
+     * (`nino db:seed`, database-only tests) get one from the same factory.
+     */
+    protected static getHasher(): Hasher {
+        if (Model.hasherResolver !== null) {
+            return Model.hasherResolver();
+        }
+        Model.fallbackHasher ??= createHasher();
+        return Model.fallbackHasher;
+    }
+
+    /**
+     * Offset pagination with a total count, ordered by `id`.
+     */
+    public static paginate<T extends Model>(
+        this: QueryableModel<T>,
+        perPage: number,
+        options: PageOptions,
+    ): Promise<LengthAwarePaginator<T>> {
+        return paginateQuery(() => this.query().orderBy("id"), perPage, options);
+    }
+
+    /**
+     * Offset pagination without a total count, ordered by `id`.
+     */
+    public static simplePaginate<T extends Model>(
+        this: QueryableModel<T>,
+        perPage: number,
+        options: PageOptions,
+    ): Promise<Paginator<T>> {
+        return simplePaginateQuery(() => this.query().orderBy("id"), perPage, options);
+    }
+
+    /**
+     * Keyset pagination on `options.column` (default `id`).
+     */
+    public static cursorPaginate<T extends Model>(
+        this: QueryableModel<T>,
+        perPage: number,
+        options: CursorOptions,
+    ): Promise<CursorPaginator<T>> {
+        return cursorPaginateQuery(() => this.query(), perPage, options);
+    }
+
+    public override async save(): Promise<Awaited<ReturnType<BaseModel["save"]>>> {
+        await this.hashAttributes();
+        return super.save();
+    }
+
+    public override toJSON(): Record<string, unknown> {
+        const attributes: Record<string, unknown> = { ...super.toJSON() };
+        for (const key of (this.constructor as typeof Model).hidden) {
+            delete attributes[key];
+        }
+        return attributes;
+    }
+
+    private async hashAttributes(): Promise<void> {
+        const hasher = Model.getHasher();
+
+        for (const key of (this.constructor as typeof Model).hashed) {
+            const value = this.getAttribute(key);
+            if (typeof value === "string" && value.length > 0 && !hasher.isHashed(value)) {
+                this.setAttribute(key, await hasher.make(value));
+            }
+        }
+    }
+}
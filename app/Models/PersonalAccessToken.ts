@@ -0,0 +1,45 @@
+import { Table } from "@ninots/orm";
+import { Model } from "@/app/Models/Model";
+
+/**
+ * API token issued to a user; only the SHA-256 digest of the secret is stored.
+ */
+@Table("personal_access_tokens")
+export class PersonalAccessToken extends Model {
+    protected static override fillable = ["user_id", "name", "token", "abilities", "expires_at", "created_at"];
+
+    protected static override hidden = ["token"];
+
+    /**
+     * Abilities from the JSON column; a corrupt value grants nothing.
+     */
+    public abilities(): string[] {
+        const raw = this.getAttribute("abilities");
+        if (typeof raw !== "string" || raw.length === 0) {
+            return [];
+        }
+        try {
+            const parsed: unknown = JSON.parse(raw);
+            return Array.isArray(parsed) ? parsed.map(String) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * `*` grants every ability.
+     */
+    public can(ability: string): boolean {
+        const abilities = this.abilities();
+        return abilities.includes("*") || abilities.includes(ability);
+    }
+
+    public cant(ability: string): boolean {
+        return !this.can(ability);
+    }
+
+    public isExpired(now: Date = new Date()): boolean {
+        const expiresAt = this.getAttribute("expires_at");
+        return typeof expiresAt === "string" && expiresAt.length > 0 && new Date(expiresAt) <= now;
+    }
+}
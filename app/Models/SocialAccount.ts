@@ -0,0 +1,10 @@
+import { Table } from "@ninots/orm";
+import { Model } from "@/app/Models/Model";
+
+/**
+ * OAuth identity (`provider` + `provider_user_id`) linked to a local user.
+ */
+@Table("social_accounts")
+export class SocialAccount extends Model {
+    protected static override fillable = ["user_id", "provider", "provider_user_id", "email", "nickname", "created_at"];
+}
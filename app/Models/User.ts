@@ -1,8 +1,32 @@
-import { Model, Table } from "@ninots/orm";
+import { Table } from "@ninots/orm";
+import { Model } from "@/app/Models/Model";
+import { Notifiable } from "@/app/Notifications/Notifiable";
+
 /**
- * User model.
+ * User model — also the recipient of `database` notifications.
  */
 @Table("users")
-export class User extends Model {
-    protected static override fillable = ["email", "name", "password", "avatar", "metadata"];
+export class User extends Notifiable(Model) {
+    protected static override fillable = ["email", "name", "password", "avatar", "metadata", "email_verified_at"];
+
+    protected static override hidden = ["password", "remember_token"];
+
+    protected static override hashed = ["password"];
+
+    public hasVerifiedEmail(): boolean {
+        const verifiedAt = this.getAttribute("email_verified_at");
+        return typeof verifiedAt === "string" && verifiedAt.length > 0;
+    }
+
+    /**
+     * Stamp `email_verified_at`; `false` when it was already set.
+     */
+    public async markEmailAsVerified(now: Date = new Date()): Promise<boolean> {
+        if (this.hasVerifiedEmail()) {
+            return false;
+        }
+        this.setAttribute("email_verified_at", now.toISOString());
+        await this.save();
+        return true;
+    }
 }
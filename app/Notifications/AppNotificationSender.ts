@@ -0,0 +1,35 @@
+import type { Notifiable, Notification, NotificationChannelName, NotificationSender } from "@ninots/notifications";
+import type { DatabaseChannel } from "./DatabaseChannel";
+
+/** Channels a notification's `via()` may list: the package's plus the app's `database`. */
+export type AppNotificationChannel = NotificationChannelName | "database";
+
+/**
+ * {@link NotificationSender} with the app's `database` channel: it stores
+ * notifications that list `"database"` in `via()` and hands the remaining
+ * channels to the package sender.
+ */
+export class AppNotificationSender implements NotificationSender {
+    constructor(
+        private readonly sender: NotificationSender,
+        private readonly database: DatabaseChannel,
+    ) {}
+
+    public async send(notifiable: Notifiable, notification: Notification): Promise<void> {
+        const channels: AppNotificationChannel[] = notification.via(notifiable);
+        if (channels.includes("database")) {
+            await this.database.send(notifiable, notification);
+        }
+
+        const others = channels.filter((channel): channel is NotificationChannelName => channel !== "database");
+        if (others.length > 0) {
+            // Same notification, but `via()` only names the channels the package knows.
+            const routed: Notification = Object.create(notification, { via: { value: () => others } });
+            await this.sender.send(notifiable, routed);
+        }
+    }
+
+    public arrayChannel(): ReturnType<NotificationSender["arrayChannel"]> {
+        return this.sender.arrayChannel();
+    }
+}
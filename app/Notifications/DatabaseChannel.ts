@@ -0,0 +1,35 @@
+import type { Notifiable, Notification } from "@ninots/notifications";
+import type { DatabaseNotificationStore, NotifiableReference, StoredNotification } from "./DatabaseNotificationStore";
+
+/** Notifiables that can receive `database` notifications (see the `Notifiable` mixin). */
+export type DatabaseNotifiable = { routeNotificationForDatabase(): NotifiableReference };
+
+/** A notification's stored payload: `toDatabase()`, falling back to `toArray()`. */
+type DatabasePayload = {
+    toDatabase?(notifiable: Notifiable): Record<string, unknown>;
+    toArray?(notifiable: Notifiable): Record<string, unknown>;
+};
+
+export function isDatabaseNotifiable(notifiable: unknown): notifiable is DatabaseNotifiable {
+    return typeof (notifiable as Partial<DatabaseNotifiable> | null)?.routeNotificationForDatabase === "function";
+}
+
+/**
+ * The `database` channel — stores the notification for the in-app inbox.
+ */
+export class DatabaseChannel {
+    constructor(private readonly store: DatabaseNotificationStore) {}
+
+    public async send(notifiable: Notifiable, notification: Notification): Promise<StoredNotification> {
+        if (!isDatabaseNotifiable(notifiable)) {
+            throw new Error("Database notifications need a notifiable with routeNotificationForDatabase()");
+        }
+
+        const payload = notification as Notification & DatabasePayload;
+        const data = payload.toDatabase?.(notifiable) ?? payload.toArray?.(notifiable);
+        if (data === undefined) {
+            throw new Error(`[${notification.constructor.name}] must define toDatabase() or toArray()`);
+        }
+        return this.store.store(notifiable.routeNotificationForDatabase(), notification.constructor.name, data);
+    }
+}
@@ -0,0 +1,225 @@
+import type { DatabaseManager } from "@ninots/orm";
+import type { LengthAwarePaginator } from "@/app/Pagination/LengthAwarePaginator";
+import { type PageOptions, type PaginatableQuery, paginate } from "@/app/Pagination/paginate";
+import { getDatabaseManager } from "@/bootstrap/database";
+
+/** Who a stored notification belongs to, e.g. `{ type: "User", id: 1 }`. */
+export type NotifiableReference = { type: string; id: number };
+
+/**
+ * A notification stored by the `database` channel.
+ */
+export type StoredNotification = {
+    id: string;
+    type: string;
+    data: Record<string, unknown>;
+    readAt: Date | null;
+    createdAt: Date;
+};
+
+type NotificationRow = {
+    id: string;
+    type: string;
+    data: string;
+    read_at: string | null;
+    created_at: string;
+};
+
+/**
+ * `notifications` table — in-app notifications per notifiable, with read state.
+ */
+export class DatabaseNotificationStore {
+    constructor(
+        private readonly options: { table: string },
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async store(
+        notifiable: NotifiableReference,
+        type: string,
+        data: Record<string, unknown>,
+    ): Promise<StoredNotification> {
+        const notification = { id: crypto.randomUUID(), type, data, readAt: null, createdAt: this.now() };
+        await this.database()
+            .connection()
+            .run(
+                `INSERT INTO ${this.options.table} (id, type, notifiable_type, notifiable_id, data, read_at, created_at)
+                VALUES (?, ?, ?, ?, ?, NULL, ?)`,
+                [
+                    notification.id,
+                    type,
+                    notifiable.type,
+                    notifiable.id,
+                    JSON.stringify(data),
+                    notification.createdAt.toISOString(),
+                ],
+            );
+        return notification;
+    }
+
+    /**
+     * Notifications of `notifiable`, newest first.
+     */
+    public async forNotifiable(
+        notifiable: NotifiableReference,
+        options: { unread?: boolean } = {},
+    ): Promise<StoredNotification[]> {
+        const rows = (await this.newest(notifiable, options.unread === true).get()).all();
+        return rows.map((row: NotificationRow) => this.toNotification(row));
+    }
+
+    /**
+     * One page of the notifications of `notifiable`, newest first.
+     */
+    public async paginate(
+        notifiable: NotifiableReference,
+        perPage: number,
+        options: PageOptions & { unread?: boolean },
+    ): Promise<LengthAwarePaginator<StoredNotification>> {
+        const page = await paginate(() => this.newest(notifiable, options.unread === true), perPage, options);
+        return page.through((row) => this.toNotification(row));
+    }
+
+    /**
+     * Notification `id` when it belongs to `notifiable`.
+     */
+    public async find(notifiable: NotifiableReference, id: string): Promise<StoredNotification | null> {
+        const [row] = (await this.scoped(notifiable).where("id", "=", id).limit(1).get()).all();
+        return row === undefined ? null : this.toNotification(row);
+    }
+
+    public unreadCount(notifiable: NotifiableReference): Promise<number> {
+        return this.scoped(notifiable, true).count();
+    }
+
+    /**
+     * Mark `ids` (every unread notification when omitted) of `notifiable` as
+     * read; returns how many changed. Ids of other notifiables are ignored.
+     */
+    public async markAsRead(notifiable: NotifiableReference, ids?: string[]): Promise<number> {
+        if (ids !== undefined && ids.length === 0) {
+            return 0;
+        }
+        const targets = () => {
+            const query = this.scoped(notifiable, true);
+            return ids === undefined ? query : query.whereIn("id", ids);
+        };
+
+        const count = await targets().count();
+        if (count > 0) {
+            await targets().update({ read_at: this.now().toISOString() });
+        }
+        return count;
+    }
+
+    private scoped(notifiable: NotifiableReference, unread = false): NotificationQuery {
+        const query = new NotificationQuery(this.options.table, this.database)
+            .where("notifiable_type", "=", notifiable.type)
+            .where("notifiable_id", "=", notifiable.id);
+        return unread ? query.whereNull("read_at") : query;
+    }
+
+    private newest(notifiable: NotifiableReference, unread: boolean): NotificationQuery {
+        return this.scoped(notifiable, unread).orderBy("created_at", "desc").orderBy("id", "desc");
+    }
+
+    private toNotification(row: NotificationRow): StoredNotification {
+        return {
+            id: row.id,
+            type: row.type,
+            data: JSON.parse(row.data) as Record<string, unknown>,
+            readAt: row.read_at === null ? null : new Date(row.read_at),
+            createdAt: new Date(row.created_at),
+        };
+    }
+}
+
+/**
+ * {@link PaginatableQuery} over the notifications table, so the inbox pages
+ * with the app paginators. Columns and operators only ever come from the store.
+ */
+class NotificationQuery implements PaginatableQuery<NotificationRow> {
+    private readonly wheres: string[] = [];
+    private readonly bindings: unknown[] = [];
+    private readonly orders: string[] = [];
+    private limitCount: number | null = null;
+    private offsetCount: number | null = null;
+
+    constructor(
+        private readonly table: string,
+        private readonly database: () => DatabaseManager,
+    ) {}
+
+    public where(column: string, operator: string, value: unknown): this {
+        this.wheres.push(`${column} ${operator} ?`);
+        this.bindings.push(value);
+        return this;
+    }
+
+    public whereNull(column: string): this {
+        this.wheres.push(`${column} IS NULL`);
+        return this;
+    }
+
+    public whereIn(column: string, values: unknown[]): this {
+        this.wheres.push(`${column} IN (${values.map(() => "?").join(", ")})`);
+        this.bindings.push(...values);
+        return this;
+    }
+
+    public orderBy(column: string, direction: "asc" | "desc" = "asc"): this {
+        this.orders.push(`${column} ${direction.toUpperCase()}`);
+        return this;
+    }
+
+    public limit(count: number): this {
+        this.limitCount = count;
+        return this;
+    }
+
+    public offset(count: number): this {
+        this.offsetCount = count;
+        return this;
+    }
+
+    public async count(): Promise<number> {
+        const [row] = await this.database()
+            .connection()
+            .query<{ aggregate: number }>(`SELECT COUNT(*) AS aggregate FROM ${this.table}${this.whereSql()}`, [
+                ...this.bindings,
+            ]);
+        return Number(row?.aggregate ?? 0);
+    }
+
+    public async get(): Promise<{ all(): NotificationRow[] }> {
+        const order = this.orders.length > 0 ? ` ORDER BY ${this.orders.join(", ")}` : "";
+        const bindings = [...this.bindings];
+        let page = "";
+        if (this.limitCount !== null) {
+            page = this.offsetCount !== null ? " LIMIT ? OFFSET ?" : " LIMIT ?";
+            bindings.push(this.limitCount, ...(this.offsetCount !== null ? [this.offsetCount] : []));
+        }
+        const rows = await this.database()
+            .connection()
+            .query<NotificationRow>(
+                `SELECT id, type, data, read_at, created_at FROM ${this.table}${this.whereSql()}${order}${page}`,
+                bindings,
+            );
+        return { all: () => rows };
+    }
+
+    public async update(values: Record<string, unknown>): Promise<void> {
+        const columns = Object.keys(values);
+        await this.database()
+            .connection()
+            .run(`UPDATE ${this.table} SET ${columns.map((column) => `${column} = ?`).join(", ")}${this.whereSql()}`, [
+                ...Object.values(values),
+                ...this.bindings,
+            ]);
+    }
+
+    private whereSql(): string {
+        return this.wheres.length > 0 ? ` WHERE ${this.wheres.join(" AND ")}` : "";
+    }
+}
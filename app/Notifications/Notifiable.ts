@@ -0,0 +1,71 @@
+import type { Model } from "@/app/Models/Model";
+import type { LengthAwarePaginator } from "@/app/Pagination/LengthAwarePaginator";
+import type { PageOptions } from "@/app/Pagination/paginate";
+import { createDatabaseNotificationStore } from "./createNotificationServices";
+import type { DatabaseNotificationStore, NotifiableReference, StoredNotification } from "./DatabaseNotificationStore";
+
+let storeResolver: (() => DatabaseNotificationStore) | null = null;
+
+/**
+ * Resolve the store behind the inbox methods — bound to `DatabaseNotificationStore` by `AppServiceProvider`.
+ */
+export function setNotificationStoreResolver(resolver: (() => DatabaseNotificationStore) | null): void {
+    storeResolver = resolver;
+}
+
+/**
+ * The container's store; scripts and tests that touch models without booting
+ * the app get one built from `config/notifications.ts`.
+ */
+function notificationStore(): DatabaseNotificationStore {
+    return storeResolver?.() ?? createDatabaseNotificationStore();
+}
+
+/**
+ * Adds the `database` notification inbox to a model:
+ * `class User extends Notifiable(Model)`.
+ */
+export function Notifiable(Base: typeof Model) {
+    abstract class NotifiableModel extends Base {
+        public routeNotificationForDatabase(): NotifiableReference {
+            return { type: this.constructor.name, id: Number(this.getAttribute("id")) };
+        }
+
+        /**
+         * Every stored notification, newest first.
+         */
+        public notifications(): Promise<StoredNotification[]> {
+            return notificationStore().forNotifiable(this.routeNotificationForDatabase());
+        }
+
+        /**
+         * One page of notifications, newest first; `unread` keeps only unread ones.
+         */
+        public paginateNotifications(
+            perPage: number,
+            options: PageOptions & { unread?: boolean },
+        ): Promise<LengthAwarePaginator<StoredNotification>> {
+            return notificationStore().paginate(this.routeNotificationForDatabase(), perPage, options);
+        }
+
+        public findNotification(id: string): Promise<StoredNotification | null> {
+            return notificationStore().find(this.routeNotificationForDatabase(), id);
+        }
+
+        public unreadNotifications(): Promise<StoredNotification[]> {
+            return notificationStore().forNotifiable(this.routeNotificationForDatabase(), { unread: true });
+        }
+
+        /**
+         * Mark `ids` (or every unread notification) as read; returns how many changed.
+         */
+        public markAsRead(ids?: string[]): Promise<number> {
+            return notificationStore().markAsRead(this.routeNotificationForDatabase(), ids);
+        }
+
+        public unreadNotificationCount(): Promise<number> {
+            return notificationStore().unreadCount(this.routeNotificationForDatabase());
+        }
+    }
+    return NotifiableModel;
+}
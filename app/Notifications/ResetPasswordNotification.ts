@@ -0,0 +1,32 @@
+import { MailMessage, type Notifiable, type Notification, type NotificationChannelName } from "@ninots/notifications";
+import { route } from "@ninots/routing";
+import appConfig from "@/config/app";
+import authConfig from "@/config/auth";
+
+/**
+ * Password reset link — sent by {@link import("@/app/Auth/Passwords/PasswordBroker").PasswordBroker}.
+ */
+export class ResetPasswordNotification implements Notification {
+    constructor(
+        public readonly token: string,
+        public readonly email: string,
+    ) {}
+
+    public via(_notifiable: Notifiable): NotificationChannelName[] {
+        return ["mail"];
+    }
+
+    public resetUrl(): string {
+        const path = route("password.reset", { token: this.token });
+        return `${appConfig.url}${path}?email=${encodeURIComponent(this.email)}`;
+    }
+
+    public toMail(_notifiable: Notifiable): MailMessage {
+        return new MailMessage()
+            .withSubject("Reset your password")
+            .line("You are receiving this email because we received a password reset request for your account.")
+            .line(`Reset your password: ${this.resetUrl()}`)
+            .line(`This link expires in ${String(authConfig.passwords.users.expire)} minutes.`)
+            .line("If you did not request a password reset, no further action is required.");
+    }
+}
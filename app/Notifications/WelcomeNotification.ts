@@ -1,17 +1,19 @@
 /**
- * Demo / smoke notification (mail + array).
+ * Demo / smoke notification (mail + array, plus the inbox for stored users).
  *
  * @packageDocumentation
  */
 
-import { MailMessage, type Notifiable, type Notification, type NotificationChannelName } from "@ninots/notifications";
+import { MailMessage, type Notifiable, type Notification } from "@ninots/notifications";
+import type { AppNotificationChannel } from "./AppNotificationSender";
+import { isDatabaseNotifiable } from "./DatabaseChannel";
 
 /**
  * Welcome notification used by Feature smoke tests.
  */
 export class WelcomeNotification implements Notification {
-    public via(_notifiable: Notifiable): NotificationChannelName[] {
-        return ["mail", "array"];
+    public via(notifiable: Notifiable): AppNotificationChannel[] {
+        return isDatabaseNotifiable(notifiable) ? ["mail", "array", "database"] : ["mail", "array"];
     }
 
     public toMail(_notifiable: Notifiable): MailMessage {
@@ -21,4 +23,8 @@ export class WelcomeNotification implements Notification {
     public toArray(_notifiable: Notifiable): Record<string, unknown> {
         return { kind: "welcome" };
     }
+
+    public toDatabase(_notifiable: Notifiable): Record<string, unknown> {
+        return { kind: "welcome", message: "Thanks for signing up." };
+    }
 }
@@ -13,11 +13,17 @@ import {
     type NotificationSender,
 } from "@ninots/notifications";
 import { MAIL_MANAGER_KEY } from "@/app/Mail/createMailServices";
+import { htmlToText } from "@/app/Mail/htmlToText";
+import notificationsConfig from "@/config/notifications";
+import { AppNotificationSender } from "./AppNotificationSender";
+import { DatabaseChannel } from "./DatabaseChannel";
+import { DatabaseNotificationStore } from "./DatabaseNotificationStore";
 
 export const NOTIFICATION_SENDER_KEY = "NotificationSender";
 
 /**
  * Bind mail channel to the app {@link MailManager} (zero cross-deps in package).
+ * HTML-only notifications get a plain-text part generated like mailables do.
  */
 export function createMailChannelSender(mail: MailManager): MailChannelSender {
     return {
@@ -25,7 +31,7 @@ export function createMailChannelSender(mail: MailManager): MailChannelSender {
             await mail.mailer().send({
                 to: message.to,
                 subject: message.subject,
-                text: message.text,
+                text: message.text ?? (message.html !== undefined ? htmlToText(message.html) : undefined),
                 html: message.html,
                 from: message.from,
             });
@@ -34,18 +40,30 @@ export function createMailChannelSender(mail: MailManager): MailChannelSender {
 }
 
 /**
- * Create {@link NotificationSender} with mail + array channels.
+ * Create the `notifications` table store from `config/notifications.ts`.
  */
-export function createAppNotificationSender(mail: MailManager): NotificationSender {
-    return createNotificationSender({
+export function createDatabaseNotificationStore(): DatabaseNotificationStore {
+    return new DatabaseNotificationStore({ table: notificationsConfig.database.table });
+}
+
+/**
+ * Create {@link NotificationSender} with mail, array and database channels.
+ */
+export function createAppNotificationSender(
+    mail: MailManager,
+    database: DatabaseChannel = new DatabaseChannel(createDatabaseNotificationStore()),
+): NotificationSender {
+    const sender = createNotificationSender({
         mailSender: createMailChannelSender(mail),
     });
+    return new AppNotificationSender(sender, database);
 }
 
 /**
- * Resolve mail manager from the container and build the sender.
+ * Resolve mail manager and notification store from the container and build the sender.
  */
 export function createNotificationSenderFromApp(app: Application): NotificationSender {
     const mail = app.make<MailManager>(MAIL_MANAGER_KEY);
-    return createAppNotificationSender(mail);
+    const store = app.make<DatabaseNotificationStore>(DatabaseNotificationStore.name);
+    return createAppNotificationSender(mail, new DatabaseChannel(store));
 }
@@ -0,0 +1,77 @@
+/**
+ * Shared URL + serialization behaviour for paginators.
+ *
+ * @packageDocumentation
+ */
+
+/** `{data, meta, links}` envelope every paginator serializes to. */
+export type PaginatedJson<T> = {
+    data: T[];
+    meta: Record<string, unknown>;
+    links: Record<string, string | null>;
+};
+
+export type PaginatorUrlOptions = {
+    /** Absolute or root-relative base path (e.g. `http://localhost:3000/api/users`). */
+    path: string;
+    /** Extra query parameters preserved on every generated link (filters, `per_page`). */
+    query?: Record<string, string>;
+};
+
+/**
+ * Base paginator — builds page URLs, RFC 8288 `Link` headers and JSON responses.
+ */
+export abstract class AbstractPaginator<T> {
+    protected constructor(
+        public readonly items: T[],
+        public readonly perPage: number,
+        protected readonly urlOptions: PaginatorUrlOptions,
+    ) {}
+
+    public abstract toJSON(): PaginatedJson<T>;
+
+    /**
+     * Link relations exposed in the `Link` header (null entries are omitted).
+     */
+    protected abstract linkRelations(): Record<string, string | null>;
+
+    public count(): number {
+        return this.items.length;
+    }
+
+    public isEmpty(): boolean {
+        return this.items.length === 0;
+    }
+
+    /**
+     * Map items (e.g. to API resources) while keeping pagination state.
+     */
+    public abstract through<U>(callback: (item: T) => U): AbstractPaginator<U>;
+
+    /**
+     * RFC 8288 `Link` header value, e.g. `<…?page=2>; rel="next"`.
+     */
+    public linkHeader(): string {
+        return Object.entries(this.linkRelations())
+            .filter((entry): entry is [string, string] => entry[1] !== null)
+            .map(([rel, url]) => `<${url}>; rel="${rel}"`)
+            .join(", ");
+    }
+
+    /**
+     * JSON response with the `Link` header set.
+     */
+    public toResponse(status = 200): Response {
+        const headers = new Headers();
+        const link = this.linkHeader();
+        if (link.length > 0) {
+            headers.set("Link", link);
+        }
+        return Response.json(this.toJSON(), { status, headers });
+    }
+
+    protected url(params: Record<string, string>): string {
+        const search = new URLSearchParams({ ...this.urlOptions.query, ...params });
+        return `${this.urlOptions.path}?${search.toString()}`;
+    }
+}
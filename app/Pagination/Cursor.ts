@@ -0,0 +1,37 @@
+/**
+ * Opaque keyset cursor (`?cursor=`) — base64url JSON of the boundary value.
+ */
+export class Cursor {
+    constructor(
+        public readonly value: string | number,
+        /** `next` pages after the value, `prev` pages before it. */
+        public readonly direction: "next" | "prev",
+    ) {}
+
+    public encode(): string {
+        return Buffer.from(JSON.stringify({ v: this.value, d: this.direction })).toString("base64url");
+    }
+
+    /**
+     * Decode a cursor string; malformed input yields `null` (treated as first page).
+     */
+    public static decode(encoded: string | null | undefined): Cursor | null {
+        if (encoded === null || encoded === undefined || encoded.length === 0) {
+            return null;
+        }
+
+        try {
+            const parsed: unknown = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+            if (typeof parsed !== "object" || parsed === null) {
+                return null;
+            }
+            const { v, d } = parsed as { v?: unknown; d?: unknown };
+            if ((typeof v !== "string" && typeof v !== "number") || (d !== "next" && d !== "prev")) {
+                return null;
+            }
+            return new Cursor(v, d);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import { AbstractPaginator, type PaginatedJson, type PaginatorUrlOptions } from "./AbstractPaginator";
+import type { Cursor } from "./Cursor";
+
+/**
+ * Keyset paginator (`?cursor=`) — stable under inserts, no offset scans.
+ */
+export class CursorPaginator<T> extends AbstractPaginator<T> {
+    constructor(
+        items: T[],
+        perPage: number,
+        private readonly cursors: { next: Cursor | null; prev: Cursor | null },
+        urlOptions: PaginatorUrlOptions,
+    ) {
+        super(items, perPage, urlOptions);
+    }
+
+    public nextCursor(): string | null {
+        return this.cursors.next?.encode() ?? null;
+    }
+
+    public prevCursor(): string | null {
+        return this.cursors.prev?.encode() ?? null;
+    }
+
+    public override through<U>(callback: (item: T) => U): CursorPaginator<U> {
+        return new CursorPaginator(this.items.map(callback), this.perPage, this.cursors, this.urlOptions);
+    }
+
+    public override toJSON(): PaginatedJson<T> {
+        return {
+            data: this.items,
+            meta: {
+                next_cursor: this.nextCursor(),
+                path: this.urlOptions.path,
+                per_page: this.perPage,
+                prev_cursor: this.prevCursor(),
+            },
+            links: this.linkRelations(),
+        };
+    }
+
+    protected override linkRelations(): Record<string, string | null> {
+        const next = this.nextCursor();
+        const prev = this.prevCursor();
+        return {
+            prev: prev !== null ? this.url({ cursor: prev }) : null,
+            next: next !== null ? this.url({ cursor: next }) : null,
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import { AbstractPaginator, type PaginatedJson, type PaginatorUrlOptions } from "./AbstractPaginator";
+
+/**
+ * Offset paginator that knows the total row count (`?page=`).
+ */
+export class LengthAwarePaginator<T> extends AbstractPaginator<T> {
+    constructor(
+        items: T[],
+        public readonly total: number,
+        perPage: number,
+        public readonly currentPage: number,
+        urlOptions: PaginatorUrlOptions,
+    ) {
+        super(items, perPage, urlOptions);
+    }
+
+    public lastPage(): number {
+        return Math.max(1, Math.ceil(this.total / this.perPage));
+    }
+
+    public hasMorePages(): boolean {
+        return this.currentPage < this.lastPage();
+    }
+
+    public pageUrl(page: number): string {
+        return this.url({ page: String(page) });
+    }
+
+    public override through<U>(callback: (item: T) => U): LengthAwarePaginator<U> {
+        return new LengthAwarePaginator(
+            this.items.map(callback),
+            this.total,
+            this.perPage,
+            this.currentPage,
+            this.urlOptions,
+        );
+    }
+
+    public override toJSON(): PaginatedJson<T> {
+        const from = this.items.length > 0 ? (this.currentPage - 1) * this.perPage + 1 : null;
+
+        return {
+            data: this.items,
+            meta: {
+                current_page: this.currentPage,
+                from,
+                last_page: this.lastPage(),
+                path: this.urlOptions.path,
+                per_page: this.perPage,
+                to: from !== null ? from + this.items.length - 1 : null,
+                total: this.total,
+            },
+            links: this.linkRelations(),
+        };
+    }
+
+    protected override linkRelations(): Record<string, string | null> {
+        return {
+            first: this.pageUrl(1),
+            last: this.pageUrl(this.lastPage()),
+            prev: this.currentPage > 1 ? this.pageUrl(this.currentPage - 1) : null,
+            next: this.hasMorePages() ? this.pageUrl(this.currentPage + 1) : null,
+        };
+    }
+}
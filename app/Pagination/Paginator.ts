@@ -0,0 +1,52 @@
+import { AbstractPaginator, type PaginatedJson, type PaginatorUrlOptions } from "./AbstractPaginator";
+
+/**
+ * Simple offset paginator — no `COUNT(*)`, only knows whether a next page exists.
+ */
+export class Paginator<T> extends AbstractPaginator<T> {
+    constructor(
+        items: T[],
+        perPage: number,
+        public readonly currentPage: number,
+        private readonly more: boolean,
+        urlOptions: PaginatorUrlOptions,
+    ) {
+        super(items, perPage, urlOptions);
+    }
+
+    public hasMorePages(): boolean {
+        return this.more;
+    }
+
+    public pageUrl(page: number): string {
+        return this.url({ page: String(page) });
+    }
+
+    public override through<U>(callback: (item: T) => U): Paginator<U> {
+        return new Paginator(this.items.map(callback), this.perPage, this.currentPage, this.more, this.urlOptions);
+    }
+
+    public override toJSON(): PaginatedJson<T> {
+        const from = this.items.length > 0 ? (this.currentPage - 1) * this.perPage + 1 : null;
+
+        return {
+            data: this.items,
+            meta: {
+                current_page: this.currentPage,
+                from,
+                path: this.urlOptions.path,
+                per_page: this.perPage,
+                to: from !== null ? from + this.items.length - 1 : null,
+            },
+            links: this.linkRelations(),
+        };
+    }
+
+    protected override linkRelations(): Record<string, string | null> {
+        return {
+            first: this.pageUrl(1),
+            prev: this.currentPage > 1 ? this.pageUrl(this.currentPage - 1) : null,
+            next: this.more ? this.pageUrl(this.currentPage + 1) : null,
+        };
+    }
+}
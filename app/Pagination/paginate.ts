@@ -0,0 +1,168 @@
+/**
+ * Offset / simple / cursor pagination over ORM query builders.
+ *
+ * Each function takes a query *factory*: builders are mutable, so the count
+ * and the page fetch each start from a fresh `Model.query()`.
+ *
+ * @packageDocumentation
+ */
+
+import type { PaginatorUrlOptions } from "./AbstractPaginator";
+import { Cursor } from "./Cursor";
+import { CursorPaginator } from "./CursorPaginator";
+import { LengthAwarePaginator } from "./LengthAwarePaginator";
+import { Paginator } from "./Paginator";
+
+/**
+ * Subset of the `@ninots/orm` query builder the paginators rely on.
+ */
+export interface PaginatableQuery<T> {
+    where(column: string, operator: string, value: unknown): PaginatableQuery<T>;
+    orderBy(column: string, direction?: "asc" | "desc"): PaginatableQuery<T>;
+    limit(count: number): PaginatableQuery<T>;
+    offset(count: number): PaginatableQuery<T>;
+    count(): Promise<number>;
+    get(): Promise<{ all(): T[] }>;
+}
+
+export type QueryFactory<T> = () => PaginatableQuery<T>;
+
+export type PageOptions = PaginatorUrlOptions & { page?: number };
+
+export type CursorOptions = PaginatorUrlOptions & {
+    cursor?: string | null;
+    /** Unique, sortable column used as the keyset (default `id`). */
+    column?: string;
+};
+
+/** Items that expose their keyset column (ORM models). */
+export type CursorItem = { getAttribute(key: string): unknown };
+
+export type PaginationInput = {
+    page: number;
+    perPage: number;
+    cursor: string | null;
+    path: string;
+    query: Record<string, string>;
+};
+
+export type PaginationInputOptions = {
+    defaultPerPage?: number;
+    maxPerPage?: number;
+};
+
+function normalizePage(page: number | undefined): number {
+    return page !== undefined && Number.isFinite(page) && page >= 1 ? Math.floor(page) : 1;
+}
+
+/**
+ * Read `?page=`, `?per_page=` (capped) and `?cursor=` from a request.
+ * Other query parameters are preserved on generated links.
+ */
+export function paginationFromRequest(request: Request, options: PaginationInputOptions = {}): PaginationInput {
+    const defaultPerPage = options.defaultPerPage ?? 15;
+    const maxPerPage = options.maxPerPage ?? 100;
+    const url = new URL(request.url);
+    const requested = Number(url.searchParams.get("per_page") ?? defaultPerPage);
+    const perPage =
+        Number.isFinite(requested) && requested >= 1 ? Math.min(Math.floor(requested), maxPerPage) : defaultPerPage;
+
+    const query: Record<string, string> = {};
+    for (const [key, value] of url.searchParams) {
+        if (key !== "page" && key !== "cursor") {
+            query[key] = key === "per_page" ? String(perPage) : value;
+        }
+    }
+
+    return {
+        page: normalizePage(Number(url.searchParams.get("page") ?? 1)),
+        perPage,
+        cursor: url.searchParams.get("cursor"),
+        path: `${url.origin}${url.pathname}`,
+        query,
+    };
+}
+
+/**
+ * Offset pagination with a total count.
+ */
+export async function paginate<T>(
+    query: QueryFactory<T>,
+    perPage: number,
+    options: PageOptions,
+): Promise<LengthAwarePaginator<T>> {
+    const page = normalizePage(options.page);
+    const offset = (page - 1) * perPage;
+    const total = await query().count();
+    const items = total > offset ? (await query().offset(offset).limit(perPage).get()).all() : [];
+
+    return new LengthAwarePaginator(items, total, perPage, page, options);
+}
+
+/**
+ * Offset pagination without `COUNT(*)` — fetches one extra row to detect a next page.
+ */
+export async function simplePaginate<T>(
+    query: QueryFactory<T>,
+    perPage: number,
+    options: PageOptions,
+): Promise<Paginator<T>> {
+    const page = normalizePage(options.page);
+    const offset = (page - 1) * perPage;
+    const rows = (
+        await query()
+            .offset(offset)
+            .limit(perPage + 1)
+            .get()
+    ).all();
+
+    return new Paginator(rows.slice(0, perPage), perPage, page, rows.length > perPage, options);
+}
+
+/**
+ * Keyset pagination on a unique sortable column (default `id`).
+ */
+export async function cursorPaginate<T extends CursorItem>(
+    query: QueryFactory<T>,
+    perPage: number,
+    options: CursorOptions,
+): Promise<CursorPaginator<T>> {
+    const column = options.column ?? "id";
+    const cursor = Cursor.decode(options.cursor);
+    const backwards = cursor?.direction === "prev";
+
+    let builder = query();
+    if (cursor !== null) {
+        builder = builder.where(column, backwards ? "<" : ">", cursor.value);
+    }
+
+    const rows = (
+        await builder
+            .orderBy(column, backwards ? "desc" : "asc")
+            .limit(perPage + 1)
+            .get()
+    ).all();
+    const hasMore = rows.length > perPage;
+    const items = rows.slice(0, perPage);
+    if (backwards) {
+        items.reverse();
+    }
+
+    const boundary = (item: T | undefined, direction: "next" | "prev"): Cursor | null => {
+        const value = item?.getAttribute(column);
+        return typeof value === "string" || typeof value === "number" ? new Cursor(value, direction) : null;
+    };
+
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = backwards ? hasMore : cursor !== null;
+
+    return new CursorPaginator(
+        items,
+        perPage,
+        {
+            next: hasNext ? boundary(items.at(-1), "next") : null,
+            prev: hasPrev ? boundary(items[0], "prev") : null,
+        },
+        options,
+    );
+}
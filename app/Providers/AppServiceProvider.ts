@@ -3,23 +3,87 @@ import type { Application } from "@ninots/foundation";
 import { EVENT_DISPATCHER_KEY, MIDDLEWARE_STACK_KEY } from "@ninots/foundation";
 import { ServiceProvider } from "@ninots/container";
 import type { EventDispatcher } from "@ninots/events";
+import type { CacheManager } from "@ninots/cache";
 import type { MailManager } from "@ninots/mail";
+import type { SessionDriver, SessionManager } from "@ninots/session";
 import { createWideEvent, runWithContext } from "@ninots/logger";
-import { verifyCsrf, wideEventMiddleware, type MiddlewareStack } from "@ninots/middleware";
+import { verifyCsrf, wideEventMiddleware } from "@ninots/middleware";
 import { mkdirSync } from "node:fs";
+import {
+    createPasswordBroker,
+    createUserProvider,
+    PASSWORD_BROKER_KEY,
+    sessionGuardOptions,
+    USER_PROVIDER_KEY,
+} from "@/app/Auth/createAuthServices";
 import { createOAuthManager, OAUTH_MANAGER_KEY } from "@/app/Auth/createOAuthServices";
+import type { UserProvider } from "@/app/Auth/UserProvider";
 import { CACHE_MANAGER_KEY, createCacheManager } from "@/app/Cache/createCacheServices";
+import { EXCEPTION_HANDLER_KEY, ExceptionHandler } from "@/app/Exceptions/Handler";
+import { reportToWideEvent } from "@/app/Exceptions/reportToWideEvent";
+import { createHasher, HASHER_KEY } from "@/app/Hashing/createHashServices";
+import type { Hasher } from "@/app/Hashing/Hasher";
+import { AuthenticatedSessionController } from "@/app/Http/Controllers/Auth/AuthenticatedSessionController";
+import { EmailVerificationController } from "@/app/Http/Controllers/Auth/EmailVerificationController";
+import { NewPasswordController } from "@/app/Http/Controllers/Auth/NewPasswordController";
+import { OAuthController } from "@/app/Http/Controllers/Auth/OAuthController";
+import { PasswordResetLinkController } from "@/app/Http/Controllers/Auth/PasswordResetLinkController";
+import { RegisteredUserController } from "@/app/Http/Controllers/Auth/RegisteredUserController";
+import { ContactController } from "@/app/Http/Controllers/ContactController";
+import { DashboardController } from "@/app/Http/Controllers/DashboardController";
+import { NotificationsController } from "@/app/Http/Controllers/NotificationsController";
 import { UsersController } from "@/app/Http/Controllers/UsersController";
+import { authenticate, registerAuthenticateMiddleware } from "@/app/Http/Middleware/Authenticate";
+import { authenticateSession } from "@/app/Http/Middleware/AuthenticateSession";
+import { authenticateToken } from "@/app/Http/Middleware/AuthenticateToken";
+import { ensureEmailIsVerified } from "@/app/Http/Middleware/EnsureEmailIsVerified";
+import { registerTokenAbilitiesMiddleware } from "@/app/Http/Middleware/EnsureTokenAbilities";
+import { handleCors } from "@/app/Http/Middleware/CorsMiddleware";
+import { handleExceptions } from "@/app/Http/Middleware/HandleExceptions";
+import type { ParameterizedMiddlewareStack } from "@/app/Http/Middleware/ParameterizedMiddlewareStack";
+import { redirectIfAuthenticated } from "@/app/Http/Middleware/RedirectIfAuthenticated";
+import { startSession } from "@/app/Http/Middleware/StartSession";
+import { registerThrottleMiddleware } from "@/app/Http/Middleware/ThrottleRequests";
+import { validateSignature } from "@/app/Http/Middleware/ValidateSignature";
 import { createMailManager, MAIL_MANAGER_KEY } from "@/app/Mail/createMailServices";
-import { createAppNotificationSender, NOTIFICATION_SENDER_KEY } from "@/app/Notifications/createNotificationServices";
+import { Model } from "@/app/Models/Model";
+import {
+    createAppNotificationSender,
+    createDatabaseNotificationStore,
+    NOTIFICATION_SENDER_KEY,
+} from "@/app/Notifications/createNotificationServices";
+import { DatabaseChannel } from "@/app/Notifications/DatabaseChannel";
+import { DatabaseNotificationStore } from "@/app/Notifications/DatabaseNotificationStore";
+import { setNotificationStoreResolver } from "@/app/Notifications/Notifiable";
+import { BatchRepository } from "@/app/Queue/BatchRepository";
+import { Bus } from "@/app/Queue/Bus";
 import {
+    createBatchRepository,
+    createBus,
     createJobRegistry,
     createQueueManager,
     JOB_REGISTRY_KEY,
     QUEUE_MANAGER_KEY,
 } from "@/app/Queue/createQueueServices";
-import { AUTH_MANAGER_KEY, createSessionManager, SESSION_MANAGER_KEY } from "@/app/Session/createSessionServices";
+import { createRateLimiter, RATE_LIMITER_KEY } from "@/app/RateLimiting/createRateLimitServices";
+import type { RateLimiter } from "@/app/RateLimiting/RateLimiter";
+import {
+    AUTH_MANAGER_KEY,
+    createSessionGarbageCollector,
+    createSessionManager,
+    createUserSessionIndex,
+    resolveSessionDriver,
+    SESSION_DRIVER_KEY,
+    SESSION_MANAGER_KEY,
+} from "@/app/Session/createSessionServices";
+import { DatabaseSessionDriver } from "@/app/Session/DatabaseSessionDriver";
+import { SessionGarbageCollector } from "@/app/Session/SessionGarbageCollector";
+import { UserSessionIndex } from "@/app/Session/UserSessionIndex";
+import { ActiveSessionService } from "@/app/Services/ActiveSessionService";
+import { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+import { SocialAccountService } from "@/app/Services/SocialAccountService";
 import { UserService } from "@/app/Services/UserService";
+import appConfig from "@/config/app";
 import authConfig from "@/config/auth";
 import csrfConfig from "@/config/csrf";
 import sessionConfig from "@/config/session";
@@ -36,31 +100,96 @@ export class AppServiceProvider extends ServiceProvider {
         const events = this.app.make<EventDispatcher>(EVENT_DISPATCHER_KEY);
 
         this.app.singleton(UserService.name, () => new UserService(events));
+        this.app.singleton(PersonalAccessTokenService.name, () => new PersonalAccessTokenService());
+        this.app.singleton(SocialAccountService.name, () => new SocialAccountService(this.app.make(UserService.name)));
         this.app.singleton(UsersController.name, () => new UsersController(this.app.make(UserService.name)));
+        this.app.singleton(AuthenticatedSessionController.name, () => new AuthenticatedSessionController());
+        this.app.singleton(
+            RegisteredUserController.name,
+            () => new RegisteredUserController(this.app.make(UserService.name)),
+        );
+        this.app.singleton(DashboardController.name, () => new DashboardController());
+        this.app.singleton(NotificationsController.name, () => new NotificationsController());
+        this.app.singleton(ContactController.name, () => new ContactController());
+        this.app.singleton(
+            PasswordResetLinkController.name,
+            () => new PasswordResetLinkController(this.app.make(PASSWORD_BROKER_KEY)),
+        );
+        this.app.singleton(
+            NewPasswordController.name,
+            () => new NewPasswordController(this.app.make(PASSWORD_BROKER_KEY)),
+        );
+        this.app.singleton(
+            EmailVerificationController.name,
+            () =>
+                new EmailVerificationController(
+                    this.app.make(UserService.name),
+                    this.app.make(QUEUE_MANAGER_KEY),
+                    this.app.make(MAIL_MANAGER_KEY),
+                ),
+        );
+        this.app.singleton(
+            OAuthController.name,
+            () => new OAuthController(this.app.make(OAUTH_MANAGER_KEY), this.app.make(SocialAccountService.name)),
+        );
 
         if (sessionConfig.driver === "file") {
             mkdirSync(sessionConfig.files, { recursive: true });
         }
 
-        this.app.singleton(SESSION_MANAGER_KEY, () => createSessionManager());
+        this.app.singleton(SESSION_DRIVER_KEY, () => resolveSessionDriver());
+        this.app.singleton(SESSION_MANAGER_KEY, () => createSessionManager(this.app.make(SESSION_DRIVER_KEY)));
+        this.app.singleton(SessionGarbageCollector.name, () =>
+            createSessionGarbageCollector(this.app.make(SESSION_DRIVER_KEY)),
+        );
+        this.app.singleton(UserSessionIndex.name, () => createUserSessionIndex(this.app.make(SESSION_DRIVER_KEY)));
+        this.app.singleton(
+            ActiveSessionService.name,
+            () => new ActiveSessionService(this.app.make(SESSION_MANAGER_KEY), this.app.make(UserSessionIndex.name)),
+        );
         this.app.singleton(AUTH_MANAGER_KEY, () => new AuthManager({ default: authConfig.defaults.guard }));
+        this.app.singleton(
+            EXCEPTION_HANDLER_KEY,
+            () => new ExceptionHandler({ debug: appConfig.debug, reporter: reportToWideEvent }),
+        );
+        this.app.singleton(HASHER_KEY, () => createHasher());
+        Model.setHasherResolver(() => this.app.make<Hasher>(HASHER_KEY));
+        this.app.singleton(USER_PROVIDER_KEY, () => createUserProvider(this.app.make(HASHER_KEY)));
         this.app.singleton(CACHE_MANAGER_KEY, () => createCacheManager());
+        this.app.singleton(RATE_LIMITER_KEY, () => createRateLimiter(this.app.make<CacheManager>(CACHE_MANAGER_KEY)));
         this.app.singleton(QUEUE_MANAGER_KEY, () => createQueueManager());
-        this.app.singleton(JOB_REGISTRY_KEY, () => createJobRegistry());
+        this.app.singleton(BatchRepository.name, () => createBatchRepository());
+        this.app.singleton(JOB_REGISTRY_KEY, () =>
+            createJobRegistry(
+                this.app.make(QUEUE_MANAGER_KEY),
+                this.app.make(BatchRepository.name),
+                this.app.make(MAIL_MANAGER_KEY),
+            ),
+        );
+        this.app.singleton(Bus.name, () =>
+            createBus(
+                this.app.make(QUEUE_MANAGER_KEY),
+                this.app.make(JOB_REGISTRY_KEY),
+                this.app.make(BatchRepository.name),
+            ),
+        );
         this.app.singleton(MAIL_MANAGER_KEY, () => createMailManager());
+        this.app.singleton(DatabaseNotificationStore.name, () => createDatabaseNotificationStore());
+        setNotificationStoreResolver(() => this.app.make<DatabaseNotificationStore>(DatabaseNotificationStore.name));
         this.app.singleton(NOTIFICATION_SENDER_KEY, () => {
             const mail = this.app.make<MailManager>(MAIL_MANAGER_KEY);
-            return createAppNotificationSender(mail);
+            const store = this.app.make<DatabaseNotificationStore>(DatabaseNotificationStore.name);
+            return createAppNotificationSender(mail, new DatabaseChannel(store));
         });
+        this.app.singleton(PASSWORD_BROKER_KEY, () =>
+            createPasswordBroker(this.app.make(HASHER_KEY), this.app.make(NOTIFICATION_SENDER_KEY)),
+        );
 
-        const oauth = createOAuthManager();
-        if (oauth) {
-            this.app.singleton(OAUTH_MANAGER_KEY, () => oauth);
-        }
+        this.app.singleton(OAUTH_MANAGER_KEY, () => createOAuthManager());
     }
 
     public override boot(): void {
-        const stack = this.app.make<MiddlewareStack>(MIDDLEWARE_STACK_KEY);
+        const stack = this.app.make<ParameterizedMiddlewareStack>(MIDDLEWARE_STACK_KEY);
 
         // Outermost: accumulate request lifecycle → emit one canonical line in finally
         stack.add(
@@ -70,6 +199,8 @@ export class AppServiceProvider extends ServiceProvider {
                 runWithContext,
             }),
         );
+        // Inside wideEvent: thrown exceptions are reported + rendered before the line is emitted
+        stack.add("exceptions", handleExceptions(this.app.make<ExceptionHandler>(EXCEPTION_HANDLER_KEY)));
         stack.add(
             "csrf",
             verifyCsrf({
@@ -78,6 +209,38 @@ export class AppServiceProvider extends ServiceProvider {
                 tokenFieldName: csrfConfig.tokenField,
             }),
         );
-        stack.alias("web", ["wideEvent", "csrf"]);
+        stack.add("cors", handleCors());
+        // `throttle:<limiter>` and inline `throttle:<maxAttempts>,<decayMinutes>`, built on first use
+        registerThrottleMiddleware(stack, this.app.make<RateLimiter>(RATE_LIMITER_KEY));
+        const sessionDriver = this.app.make<SessionDriver>(SESSION_DRIVER_KEY);
+        stack.add(
+            "session",
+            startSession(this.app.make<SessionManager>(SESSION_MANAGER_KEY), {
+                clients: sessionDriver instanceof DatabaseSessionDriver ? sessionDriver : undefined,
+                index: this.app.make<UserSessionIndex>(UserSessionIndex.name),
+                collector: this.app.make<SessionGarbageCollector>(SessionGarbageCollector.name),
+            }),
+        );
+        stack.add(
+            "auth.session",
+            authenticateSession(this.app.make<UserProvider>(USER_PROVIDER_KEY), sessionGuardOptions()),
+        );
+        stack.add(
+            "auth.token",
+            authenticateToken(
+                this.app.make<PersonalAccessTokenService>(PersonalAccessTokenService.name),
+                this.app.make<UserProvider>(USER_PROVIDER_KEY),
+            ),
+        );
+        stack.add("auth", authenticate());
+        // `auth:<guard>` and `abilities:<a>,<b>`, built on first use
+        registerAuthenticateMiddleware(stack);
+        registerTokenAbilitiesMiddleware(stack);
+        stack.add("verified", ensureEmailIsVerified());
+        stack.add("signed", validateSignature());
+        stack.add("guest", redirectIfAuthenticated());
+        stack.alias("web", ["wideEvent", "exceptions", "session", "csrf", "auth.session"]);
+        // CORS wraps the exception renderer so error responses carry the headers too
+        stack.alias("api", ["wideEvent", "cors", "exceptions", "auth.token"]);
     }
 }
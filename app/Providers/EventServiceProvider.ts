@@ -2,24 +2,68 @@ import type { Application } from "@ninots/foundation";
 import { EVENT_DISPATCHER_KEY } from "@ninots/foundation";
 import { ServiceProvider } from "@ninots/container";
 import type { EventDispatcher } from "@ninots/events";
-import type { QueueManager } from "@ninots/queue";
+import type { JobRegistry } from "@ninots/queue";
+import { createEventDiscovery } from "@/app/Events/createEventServices";
+import { EventListenerRegistrar, type ListenerClass, type ListenerMap } from "@/app/Events/EventListenerRegistrar";
 import { UserCreatedEvent } from "@/app/Events/UserCreatedEvent";
 import { SendWelcomeEmailListener } from "@/app/Listeners/SendWelcomeEmailListener";
-import { QUEUE_MANAGER_KEY } from "@/app/Queue/createQueueServices";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import { MAIL_MANAGER_KEY } from "@/app/Mail/createMailServices";
+import { Bus } from "@/app/Queue/Bus";
+import { CallQueuedListener, type QueuedEventListener } from "@/app/Queue/CallQueuedListener";
+import { JOB_REGISTRY_KEY } from "@/app/Queue/createQueueServices";
+import eventsConfig from "@/config/events";
 
 /**
  * Registers domain event listeners.
  */
 export class EventServiceProvider extends ServiceProvider {
+    /** Listeners marked `ShouldQueue` run on the queue; the rest run inline. */
+    protected listen: ListenerMap = [[UserCreatedEvent, [SendWelcomeEmailListener]]];
+
     constructor(app: Application) {
         super(app.container);
     }
 
     public override register(): void {
-        const dispatcher = this.app.make<EventDispatcher>(EVENT_DISPATCHER_KEY);
-        const queue = this.app.make<QueueManager>(QUEUE_MANAGER_KEY);
-        const listener = new SendWelcomeEmailListener(queue);
+        const factories = this.listenerFactories();
+        const registrar = new EventListenerRegistrar(
+            this.app.make<EventDispatcher>(EVENT_DISPATCHER_KEY),
+            this.app.make<Bus>(Bus.name),
+            (Listener) => factories.get(Listener)?.() ?? new Listener(),
+        )
+            .register(this.listen)
+            .register(this.discoveredListeners());
+
+        this.app.singleton(EventListenerRegistrar.name, () => registrar);
+        this.app
+            .make<JobRegistry>(JOB_REGISTRY_KEY)
+            .register("CallQueuedListener", (data: Record<string, unknown>) =>
+                CallQueuedListener.fromData(data, registrar),
+            );
+    }
+
+    /**
+     * Listeners that need services from the container; the rest are built with `new Listener()`.
+     */
+    protected listenerFactories(): Map<ListenerClass, () => QueuedEventListener> {
+        return new Map([
+            [
+                SendWelcomeEmailListener,
+                () =>
+                    new SendWelcomeEmailListener(
+                        this.app.make<Bus>(Bus.name),
+                        this.app.make<AppMailManager>(MAIL_MANAGER_KEY),
+                    ),
+            ],
+        ]);
+    }
 
-        dispatcher.listen(UserCreatedEvent, listener);
+    /**
+     * Listeners found under `config/events.ts` → `directories` (or in the
+     * `event:cache` manifest) when discovery is on.
+     */
+    protected discoveredListeners(): ListenerMap {
+        return eventsConfig.discover ? createEventDiscovery().listeners() : [];
     }
 }
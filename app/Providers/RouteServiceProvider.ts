@@ -30,7 +30,7 @@ export class RouteServiceProvider extends ServiceProvider {
             }),
         );
 
-        registerWebRoutes(router);
+        registerWebRoutes(router, this.application);
         registerApiRoutes(router, this.application);
     }
 }
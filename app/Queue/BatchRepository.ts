@@ -0,0 +1,197 @@
+import type { Connection, DatabaseManager } from "@ninots/orm";
+import { getDatabaseManager } from "@/bootstrap/database";
+import type { JobPayload } from "./ReservableQueue";
+
+/**
+ * Jobs dispatched when a batch completes, fails or finishes (serialized so any worker can run them).
+ */
+export type BatchCallbacks = {
+    success?: JobPayload;
+    failure?: JobPayload;
+    finish?: JobPayload;
+};
+
+/**
+ * Snapshot of a `job_batches` row.
+ */
+export class Batch {
+    constructor(
+        public readonly id: string,
+        public readonly name: string,
+        public readonly totalJobs: number,
+        public readonly pendingJobs: number,
+        public readonly failedJobs: number,
+        public readonly callbacks: BatchCallbacks,
+        public readonly createdAt: Date,
+        public readonly cancelledAt: Date | null,
+        public readonly finishedAt: Date | null,
+    ) {}
+
+    public processedJobs(): number {
+        return this.totalJobs - this.pendingJobs;
+    }
+
+    /**
+     * Percentage of jobs processed (0–100).
+     */
+    public progress(): number {
+        return this.totalJobs === 0 ? 100 : Math.round((this.processedJobs() / this.totalJobs) * 100);
+    }
+
+    public hasFailures(): boolean {
+        return this.failedJobs > 0;
+    }
+
+    public cancelled(): boolean {
+        return this.cancelledAt !== null;
+    }
+
+    /**
+     * Every job has either succeeded (or was skipped after cancellation) or failed.
+     */
+    public finished(): boolean {
+        return this.finishedAt !== null;
+    }
+}
+
+/**
+ * A batch right after one of its jobs was counted, with what that count changed.
+ * Each flag is true for exactly one job, so callbacks are dispatched once.
+ */
+export type BatchJobRecorded = {
+    batch: Batch;
+    /** This job was the batch's first failure. */
+    firstFailure: boolean;
+    /** This job finished the batch (every job succeeded, was skipped or failed). */
+    finished: boolean;
+};
+
+type BatchRow = {
+    id: string;
+    name: string;
+    total_jobs: number | string;
+    pending_jobs: number | string;
+    failed_jobs: number | string;
+    options: string;
+    created_at: string;
+    cancelled_at: string | null;
+    finished_at: string | null;
+};
+
+/**
+ * `job_batches` table — progress counters for {@link import("./Bus").Bus.batch}.
+ */
+export class BatchRepository {
+    constructor(
+        private readonly options: { table: string },
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async store(name: string, totalJobs: number, callbacks: BatchCallbacks): Promise<Batch> {
+        const id = crypto.randomUUID();
+        await this.database()
+            .connection()
+            .run(
+                `INSERT INTO ${this.options.table} (id, name, total_jobs, pending_jobs, failed_jobs, options, created_at)
+                VALUES (?, ?, ?, ?, 0, ?, ?)`,
+                [id, name, totalJobs, totalJobs, JSON.stringify(callbacks), this.now().toISOString()],
+            );
+        return this.findOrFail(id);
+    }
+
+    public async find(id: string): Promise<Batch | null> {
+        const [row] = await this.database()
+            .connection()
+            .query<BatchRow>(`SELECT * FROM ${this.options.table} WHERE id = ?`, [id]);
+        return row === undefined ? null : this.toBatch(row);
+    }
+
+    /**
+     * Count a job as processed (succeeded, or skipped because the batch was cancelled).
+     */
+    public async recordSuccessfulJob(id: string): Promise<BatchJobRecorded> {
+        return this.record(id, false);
+    }
+
+    /**
+     * Count a failed job; the first failure cancels the rest of the batch.
+     */
+    public async recordFailedJob(id: string): Promise<BatchJobRecorded> {
+        return this.record(id, true);
+    }
+
+    /**
+     * Stop the batch: jobs not yet run are skipped.
+     */
+    public async cancel(id: string): Promise<void> {
+        await this.database()
+            .connection()
+            .run(`UPDATE ${this.options.table} SET cancelled_at = COALESCE(cancelled_at, ?) WHERE id = ?`, [
+                this.now().toISOString(),
+                id,
+            ]);
+    }
+
+    /**
+     * Count the job and read the row back in one transaction: the UPDATE locks the
+     * row, so the counters read are exactly the ones this job produced and only one
+     * job can see the batch finish.
+     */
+    private async record(id: string, failed: boolean): Promise<BatchJobRecorded> {
+        const [set, bindings] = failed
+            ? ["failed_jobs = failed_jobs + 1, cancelled_at = COALESCE(cancelled_at, ?)", [this.now().toISOString()]]
+            : ["pending_jobs = pending_jobs - 1", []];
+
+        return this.database()
+            .connection()
+            .transaction(async (connection: Connection) => {
+                await connection.run(`UPDATE ${this.options.table} SET ${set} WHERE id = ?`, [...bindings, id]);
+                const [row] = await connection.query<BatchRow>(`SELECT * FROM ${this.options.table} WHERE id = ?`, [
+                    id,
+                ]);
+                if (row === undefined) {
+                    throw new Error(`Batch [${id}] not found`);
+                }
+
+                const batch = this.toBatch(row);
+                const firstFailure = failed && batch.failedJobs === 1;
+                if (batch.finished() || batch.pendingJobs - batch.failedJobs > 0) {
+                    return { batch, firstFailure, finished: false };
+                }
+
+                const finishedAt = this.now();
+                await connection.run(`UPDATE ${this.options.table} SET finished_at = ? WHERE id = ?`, [
+                    finishedAt.toISOString(),
+                    id,
+                ]);
+                return {
+                    batch: this.toBatch({ ...row, finished_at: finishedAt.toISOString() }),
+                    firstFailure,
+                    finished: true,
+                };
+            });
+    }
+
+    private async findOrFail(id: string): Promise<Batch> {
+        const batch = await this.find(id);
+        if (batch === null) {
+            throw new Error(`Batch [${id}] not found`);
+        }
+        return batch;
+    }
+
+    private toBatch(row: BatchRow): Batch {
+        return new Batch(
+            row.id,
+            row.name,
+            Number(row.total_jobs),
+            Number(row.pending_jobs),
+            Number(row.failed_jobs),
+            JSON.parse(row.options) as BatchCallbacks,
+            new Date(row.created_at),
+            row.cancelled_at === null ? null : new Date(row.cancelled_at),
+            row.finished_at === null ? null : new Date(row.finished_at),
+        );
+    }
+}
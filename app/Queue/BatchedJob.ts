@@ -0,0 +1,89 @@
+import type { Batch, BatchCallbacks, BatchRepository } from "./BatchRepository";
+import type { DispatchOptions } from "./Bus";
+import { dispatchOptionsData, dispatchOptionsFrom, type WrapperJobContext } from "./ChainedJobs";
+import { serializeJob, toJobPayload, unserializeJob } from "./serializeJob";
+import type { RetryableJob } from "./Worker";
+
+export type BatchedJobContext = WrapperJobContext & { batches: BatchRepository };
+
+/**
+ * One job of a batch: skipped once the batch is cancelled, counted in the
+ * batch's progress, and dispatching the batch callbacks (on the batch's
+ * connection and queue) when it completes.
+ *
+ * Failures are recorded through `failed()`, i.e. once the worker gives up on the job.
+ */
+export class BatchedJob implements RetryableJob {
+    public readonly jobName = "BatchedJob";
+    public readonly tries: number | undefined;
+    public readonly backoff: number | number[] | undefined;
+    public readonly timeout: number | undefined;
+
+    constructor(
+        public readonly batchId: string,
+        private readonly job: RetryableJob,
+        private readonly context: BatchedJobContext,
+        private readonly options: DispatchOptions = {},
+    ) {
+        this.tries = job.tries;
+        this.backoff = job.backoff;
+        this.timeout = job.timeout;
+    }
+
+    public static fromData(data: Record<string, unknown>, context: BatchedJobContext): BatchedJob {
+        if (typeof data.batchId !== "string") {
+            throw new Error("Invalid BatchedJob payload");
+        }
+        return new BatchedJob(
+            data.batchId,
+            unserializeJob(context.registry, toJobPayload(data.job)),
+            context,
+            dispatchOptionsFrom(data),
+        );
+    }
+
+    public toData(): Record<string, unknown> {
+        return { batchId: this.batchId, job: serializeJob(this.job), ...dispatchOptionsData(this.options) };
+    }
+
+    public async handle(): Promise<void> {
+        const batch = await this.context.batches.find(this.batchId);
+        if (batch === null) {
+            return;
+        }
+        if (!batch.cancelled()) {
+            await this.job.handle();
+        }
+
+        const { batch: updated, finished } = await this.context.batches.recordSuccessfulJob(this.batchId);
+        if (finished && !updated.hasFailures() && !updated.cancelled()) {
+            await this.dispatchCallback(updated, "success");
+        }
+        if (finished) {
+            await this.dispatchCallback(updated, "finish");
+        }
+    }
+
+    public async failed(error: unknown): Promise<void> {
+        await this.job.failed?.(error);
+
+        const batch = await this.context.batches.find(this.batchId);
+        if (batch === null) {
+            return;
+        }
+        const { batch: updated, firstFailure, finished } = await this.context.batches.recordFailedJob(this.batchId);
+        if (firstFailure) {
+            await this.dispatchCallback(updated, "failure");
+        }
+        if (finished) {
+            await this.dispatchCallback(updated, "finish");
+        }
+    }
+
+    private async dispatchCallback(batch: Batch, name: keyof BatchCallbacks): Promise<void> {
+        const payload = batch.callbacks[name];
+        if (payload !== undefined) {
+            await this.context.dispatch(unserializeJob(this.context.registry, payload), this.options);
+        }
+    }
+}
@@ -0,0 +1,167 @@
+import type { JobRegistry, QueueableJob, QueueManager } from "@ninots/queue";
+import { BatchedJob } from "./BatchedJob";
+import type { Batch, BatchCallbacks, BatchRepository } from "./BatchRepository";
+import { ChainedJobs } from "./ChainedJobs";
+import { isReservableQueue } from "./ReservableQueue";
+import { serializeJob } from "./serializeJob";
+
+export type DispatchOptions = {
+    /** Queue connection name; defaults to the manager's default connection. */
+    connection?: string;
+    queue?: string;
+};
+
+/**
+ * Job dispatching on top of {@link QueueManager}: delayed jobs, chains and batches.
+ *
+ * Chains and batches travel as `ChainedJobs` / `BatchedJob` wrappers (registered
+ * in {@link import("./createQueueServices").createJobRegistry}) that remember the
+ * connection and queue they were dispatched on, so follow-up jobs stay there.
+ */
+export class Bus {
+    constructor(
+        private readonly queue: QueueManager,
+        private readonly registry: JobRegistry,
+        public readonly batches: BatchRepository,
+        private readonly options: { sync: boolean },
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async dispatch(job: QueueableJob, options: DispatchOptions = {}): Promise<void> {
+        if (options.connection === undefined && options.queue === undefined) {
+            await this.queue.push(job);
+            return;
+        }
+        await this.queue.connection(options.connection ?? this.queue.getDefaultConnection()).push(job, options.queue);
+    }
+
+    /**
+     * Dispatch `job` after `delay` seconds (or at a `Date`) — database and redis
+     * connections (redis keeps delayed jobs in a sorted set until they are due).
+     *
+     * @throws Error when the connection cannot delay jobs — including the default
+     * `sync` connection, which would otherwise run the job right away
+     */
+    public async later(delay: number | Date, job: QueueableJob, options: DispatchOptions = {}): Promise<void> {
+        if (this.options.sync && options.connection === undefined) {
+            throw new Error(
+                "The default queue connection is [sync], which runs jobs immediately and cannot delay them; " +
+                    "set QUEUE_CONNECTION to database or redis, or pass a connection",
+            );
+        }
+
+        const seconds =
+            delay instanceof Date ? Math.max(0, Math.ceil((delay.getTime() - this.now().getTime()) / 1000)) : delay;
+        const name = options.connection ?? this.queue.getDefaultConnection();
+        const connection: unknown = this.queue.connection(name);
+
+        if (isReservableQueue(connection)) {
+            await connection.later(seconds, job, options.queue);
+            return;
+        }
+        throw new Error(`Queue connection [${name}] does not support delayed jobs`);
+    }
+
+    /**
+     * Run `jobs` one after another on one connection / queue; the first failure stops the rest.
+     */
+    public async chain(jobs: QueueableJob[], options: DispatchOptions = {}): Promise<void> {
+        const [first, ...rest] = jobs;
+        if (first !== undefined) {
+            await this.dispatch(new ChainedJobs(first, rest.map(serializeJob), this.context(), options), options);
+        }
+    }
+
+    /**
+     * Start a batch of `jobs`; configure callbacks on the returned {@link PendingBatch}, then `dispatch()`.
+     */
+    public batch(jobs: QueueableJob[]): PendingBatch {
+        return new PendingBatch(async (name, callbacks, options) => {
+            const batch = await this.batches.store(name, jobs.length, callbacks);
+            for (const job of jobs) {
+                const batched = new BatchedJob(batch.id, job, this.context(), options);
+                try {
+                    await this.dispatch(batched, options);
+                } catch (error) {
+                    // `sync` runs the job inline with no worker to call `failed()`; later jobs are skipped.
+                    if (!this.options.sync) {
+                        throw error;
+                    }
+                    await batched.failed(error);
+                }
+            }
+            return (await this.batches.find(batch.id)) ?? batch;
+        });
+    }
+
+    public findBatch(id: string): Promise<Batch | null> {
+        return this.batches.find(id);
+    }
+
+    public cancelBatch(id: string): Promise<void> {
+        return this.batches.cancel(id);
+    }
+
+    private context() {
+        return {
+            registry: this.registry,
+            batches: this.batches,
+            dispatch: (job: QueueableJob, options?: DispatchOptions) => this.dispatch(job, options),
+        };
+    }
+}
+
+/**
+ * Batch being configured by {@link Bus.batch}; callbacks are jobs so they survive serialization.
+ *
+ * The `then` / `catch` / `finally` callbacks are set through `onSuccess` / `onFailure`
+ * / `onFinish` — a `then` method would make the batch awaitable by accident.
+ */
+export class PendingBatch {
+    private batchName = "";
+    private readonly callbacks: BatchCallbacks = {};
+    private readonly options: DispatchOptions = {};
+
+    constructor(
+        private readonly store: (name: string, callbacks: BatchCallbacks, options: DispatchOptions) => Promise<Batch>,
+    ) {}
+
+    public name(name: string): this {
+        this.batchName = name;
+        return this;
+    }
+
+    /** Connection the jobs and callbacks are pushed to (default: the manager's default). */
+    public onConnection(connection: string): this {
+        this.options.connection = connection;
+        return this;
+    }
+
+    /** Queue the jobs and callbacks are pushed to. */
+    public onQueue(queue: string): this {
+        this.options.queue = queue;
+        return this;
+    }
+
+    /** Dispatched when every job succeeded. */
+    public onSuccess(job: QueueableJob): this {
+        this.callbacks.success = serializeJob(job);
+        return this;
+    }
+
+    /** Dispatched on the first failure (which also cancels the batch). */
+    public onFailure(job: QueueableJob): this {
+        this.callbacks.failure = serializeJob(job);
+        return this;
+    }
+
+    /** Dispatched once every job has run or failed. */
+    public onFinish(job: QueueableJob): this {
+        this.callbacks.finish = serializeJob(job);
+        return this;
+    }
+
+    public dispatch(): Promise<Batch> {
+        return this.store(this.batchName, this.callbacks, this.options);
+    }
+}
@@ -0,0 +1,61 @@
+import type { RetryableJob } from "./Worker";
+
+export type QueuedEventListener = {
+    handle(event: object): void | Promise<void>;
+    /** Called once the listener has failed for good. */
+    failed?(event: object, error: unknown): void | Promise<void>;
+    readonly tries?: number;
+    readonly backoff?: number | number[];
+    readonly timeout?: number;
+};
+
+/**
+ * How a worker finds listeners and event classes again by name
+ * (see {@link import("@/app/Events/EventListenerRegistrar").EventListenerRegistrar}).
+ */
+export type QueuedListenerLookup = {
+    listener(name: string): QueuedEventListener;
+    eventClass(name: string): abstract new (...args: never[]) => object;
+};
+
+/**
+ * Generic job that runs one queued listener for one event. The event travels
+ * as its class name plus its own (JSON-serializable) fields.
+ */
+export class CallQueuedListener implements RetryableJob {
+    public readonly jobName = "CallQueuedListener";
+    public readonly tries: number | undefined;
+    public readonly backoff: number | number[] | undefined;
+    public readonly timeout: number | undefined;
+
+    constructor(
+        public readonly listenerName: string,
+        private readonly listener: QueuedEventListener,
+        public readonly event: object,
+    ) {
+        this.tries = listener.tries;
+        this.backoff = listener.backoff;
+        this.timeout = listener.timeout;
+    }
+
+    public static fromData(data: Record<string, unknown>, lookup: QueuedListenerLookup): CallQueuedListener {
+        const { listener, event, payload } = data;
+        if (typeof listener !== "string" || typeof event !== "string" || typeof payload !== "object" || !payload) {
+            throw new Error("Invalid CallQueuedListener payload");
+        }
+        const restored: object = Object.assign(Object.create(lookup.eventClass(event).prototype), payload);
+        return new CallQueuedListener(listener, lookup.listener(listener), restored);
+    }
+
+    public toData(): Record<string, unknown> {
+        return { listener: this.listenerName, event: this.event.constructor.name, payload: { ...this.event } };
+    }
+
+    public async handle(): Promise<void> {
+        await this.listener.handle(this.event);
+    }
+
+    public async failed(error: unknown): Promise<void> {
+        await this.listener.failed?.(this.event, error);
+    }
+}
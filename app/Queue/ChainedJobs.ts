@@ -0,0 +1,83 @@
+import type { JobRegistry, QueueableJob } from "@ninots/queue";
+import type { DispatchOptions } from "./Bus";
+import type { JobPayload } from "./ReservableQueue";
+import { serializeJob, toJobPayload, unserializeJob } from "./serializeJob";
+import type { RetryableJob } from "./Worker";
+
+/**
+ * What wrapper jobs need at run time: the registry to rebuild nested jobs and
+ * a way to dispatch follow-up work.
+ */
+export type WrapperJobContext = {
+    registry: JobRegistry;
+    dispatch: (job: QueueableJob, options?: DispatchOptions) => Promise<void>;
+};
+
+/**
+ * Connection / queue a wrapper was dispatched with, kept in its payload so
+ * follow-up jobs go to the same place.
+ */
+export function dispatchOptionsData(options: DispatchOptions): Record<string, unknown> {
+    return {
+        ...(options.connection !== undefined ? { connection: options.connection } : {}),
+        ...(options.queue !== undefined ? { queue: options.queue } : {}),
+    };
+}
+
+export function dispatchOptionsFrom(data: Record<string, unknown>): DispatchOptions {
+    return {
+        ...(typeof data.connection === "string" ? { connection: data.connection } : {}),
+        ...(typeof data.queue === "string" ? { queue: data.queue } : {}),
+    };
+}
+
+/**
+ * Runs the first job of a chain and, once it succeeds, dispatches the rest on
+ * the chain's connection and queue. A failure stops the chain; retry settings
+ * come from the current job.
+ */
+export class ChainedJobs implements RetryableJob {
+    public readonly jobName = "ChainedJobs";
+    public readonly tries: number | undefined;
+    public readonly backoff: number | number[] | undefined;
+    public readonly timeout: number | undefined;
+
+    constructor(
+        private readonly current: RetryableJob,
+        private readonly remaining: JobPayload[],
+        private readonly context: WrapperJobContext,
+        private readonly options: DispatchOptions = {},
+    ) {
+        this.tries = current.tries;
+        this.backoff = current.backoff;
+        this.timeout = current.timeout;
+    }
+
+    public static fromData(data: Record<string, unknown>, context: WrapperJobContext): ChainedJobs {
+        const [first, ...rest] = Array.isArray(data.jobs) ? data.jobs.map(toJobPayload) : [];
+        if (first === undefined) {
+            throw new Error("Invalid ChainedJobs payload");
+        }
+        return new ChainedJobs(unserializeJob(context.registry, first), rest, context, dispatchOptionsFrom(data));
+    }
+
+    public toData(): Record<string, unknown> {
+        return { jobs: [serializeJob(this.current), ...this.remaining], ...dispatchOptionsData(this.options) };
+    }
+
+    public async handle(): Promise<void> {
+        await this.current.handle();
+
+        const [next, ...rest] = this.remaining;
+        if (next !== undefined) {
+            await this.context.dispatch(
+                new ChainedJobs(unserializeJob(this.context.registry, next), rest, this.context, this.options),
+                this.options,
+            );
+        }
+    }
+
+    public async failed(error: unknown): Promise<void> {
+        await this.current.failed?.(error);
+    }
+}
@@ -0,0 +1,163 @@
+import type { Connection, DatabaseManager } from "@ninots/orm";
+import type { QueueableJob } from "@ninots/queue";
+import { getDatabaseManager } from "@/bootstrap/database";
+import type { JobPayload, ReservableQueue, ReservedJob } from "./ReservableQueue";
+
+export type DatabaseQueueOptions = {
+    /** Database connection name; `undefined` uses the default connection. */
+    connection?: string | undefined;
+    /** Driver of that connection (`sqlite` | `postgres` | `mysql`) — picks the reservation query. */
+    driver: string;
+    table: string;
+    /** Queue used when `push` / `pop` get none. */
+    queue: string;
+    /** Seconds a reservation lasts before the job is handed to another worker. */
+    retryAfter: number;
+};
+
+type JobRow = { id: number | string; queue: string; payload: string; attempts: number | string };
+
+/**
+ * `database` queue connection — jobs persisted in the `jobs` table so
+ * `nino queue:work` runs on the default SQLite setup without Redis.
+ *
+ * `pop` reserves the oldest available job atomically: `UPDATE … RETURNING` on
+ * SQLite, `FOR UPDATE SKIP LOCKED` on Postgres / MySQL. A reservation older than
+ * `retryAfter` seconds (a worker crashed mid-job) makes the job available again.
+ * Create the table with `nino queue:table` + `nino migrate`.
+ */
+export class DatabaseQueue implements ReservableQueue {
+    constructor(
+        private readonly options: DatabaseQueueOptions,
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async push(job: QueueableJob, queue?: string): Promise<void> {
+        await this.pushRaw({ jobName: job.jobName, data: job.toData() }, queue);
+    }
+
+    /**
+     * Push `job`, available once `delaySeconds` have passed.
+     */
+    public async later(delaySeconds: number, job: QueueableJob, queue?: string): Promise<void> {
+        await this.pushRaw({ jobName: job.jobName, data: job.toData() }, queue, delaySeconds);
+    }
+
+    /**
+     * Store an already serialized job (e.g. one retried from `failed_jobs`).
+     */
+    public async pushRaw(payload: JobPayload, queue?: string, delaySeconds = 0): Promise<void> {
+        const now = this.timestamp();
+
+        await this.connection().run(
+            `INSERT INTO ${this.options.table} (queue, payload, attempts, reserved_at, available_at, created_at)
+            VALUES (?, ?, 0, NULL, ?, ?)`,
+            [queue ?? this.options.queue, JSON.stringify(payload), now + delaySeconds, now],
+        );
+    }
+
+    /**
+     * Reserve the next available job on `queue`, or `null` when there is none.
+     */
+    public async pop(queue?: string): Promise<ReservedJob | null> {
+        const name = queue ?? this.options.queue;
+        const row = this.options.driver === "mysql" ? await this.reserveLocking(name) : await this.reserve(name);
+        if (row === undefined) {
+            return null;
+        }
+
+        const id = Number(row.id);
+        const payload = JSON.parse(row.payload) as JobPayload;
+        return {
+            id,
+            queue: row.queue,
+            jobName: payload.jobName,
+            data: payload.data,
+            attempts: Number(row.attempts),
+            delete: () => this.deleteReserved(id),
+            release: (delaySeconds = 0) => this.release(id, delaySeconds),
+        };
+    }
+
+    /**
+     * Jobs waiting or reserved on `queue`.
+     */
+    public async size(queue?: string): Promise<number> {
+        const [row] = await this.connection().query<{ aggregate: number | string }>(
+            `SELECT COUNT(*) AS aggregate FROM ${this.options.table} WHERE queue = ?`,
+            [queue ?? this.options.queue],
+        );
+        return Number(row?.aggregate ?? 0);
+    }
+
+    public async deleteReserved(id: number): Promise<void> {
+        await this.connection().run(`DELETE FROM ${this.options.table} WHERE id = ?`, [id]);
+    }
+
+    /**
+     * Put a reserved job back, available again after `delaySeconds`.
+     */
+    public async release(id: number, delaySeconds = 0): Promise<void> {
+        await this.connection().run(
+            `UPDATE ${this.options.table} SET reserved_at = NULL, available_at = ? WHERE id = ?`,
+            [this.timestamp() + delaySeconds, id],
+        );
+    }
+
+    /**
+     * Single-statement reservation: SQLite serializes writers; Postgres skips rows
+     * another worker has locked in the subquery.
+     */
+    private async reserve(queue: string): Promise<JobRow | undefined> {
+        const now = this.timestamp();
+        const lock = this.options.driver === "postgres" ? " FOR UPDATE SKIP LOCKED" : "";
+        const rows = await this.connection().query<JobRow>(
+            `UPDATE ${this.options.table} SET reserved_at = ?, attempts = attempts + 1
+            WHERE id = (
+                SELECT id FROM ${this.options.table} WHERE ${this.availableClause()}
+                ORDER BY id LIMIT 1${lock}
+            )
+            RETURNING id, queue, payload, attempts`,
+            [now, queue, now, now - this.options.retryAfter],
+        );
+        return rows[0];
+    }
+
+    /**
+     * MySQL has no `UPDATE … RETURNING`: lock the row, then mark it reserved.
+     */
+    private async reserveLocking(queue: string): Promise<JobRow | undefined> {
+        const now = this.timestamp();
+        return this.connection().transaction(async (connection: Connection) => {
+            const [row] = await connection.query<JobRow>(
+                `SELECT id, queue, payload, attempts FROM ${this.options.table} WHERE ${this.availableClause()}
+                ORDER BY id LIMIT 1 FOR UPDATE SKIP LOCKED`,
+                [queue, now, now - this.options.retryAfter],
+            );
+            if (row === undefined) {
+                return undefined;
+            }
+            await connection.run(
+                `UPDATE ${this.options.table} SET reserved_at = ?, attempts = attempts + 1 WHERE id = ?`,
+                [now, row.id],
+            );
+            return { ...row, attempts: Number(row.attempts) + 1 };
+        });
+    }
+
+    /**
+     * Bindings: queue, now, expired reservation cutoff.
+     */
+    private availableClause(): string {
+        return "queue = ? AND ((reserved_at IS NULL AND available_at <= ?) OR reserved_at <= ?)";
+    }
+
+    private connection(): Connection {
+        return this.database().connection(this.options.connection);
+    }
+
+    private timestamp(): number {
+        return Math.floor(this.now().getTime() / 1000);
+    }
+}
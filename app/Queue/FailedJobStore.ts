@@ -0,0 +1,100 @@
+import type { DatabaseManager } from "@ninots/orm";
+import { getDatabaseManager } from "@/bootstrap/database";
+import type { JobPayload } from "./ReservableQueue";
+
+/**
+ * A job that ran out of attempts, as recorded in `failed_jobs`.
+ */
+export type FailedJob = {
+    id: number;
+    connection: string;
+    queue: string;
+    payload: JobPayload;
+    exception: string;
+    failedAt: Date;
+};
+
+type FailedJobRow = {
+    id: number | string;
+    connection: string;
+    queue: string;
+    payload: string;
+    exception: string;
+    failed_at: string;
+};
+
+function describeError(error: unknown): string {
+    if (error instanceof Error) {
+        return error.stack ?? `${error.name}: ${error.message}`;
+    }
+    return String(error);
+}
+
+/**
+ * `failed_jobs` table — jobs the worker gave up on, kept for `queue:retry`.
+ */
+export class FailedJobStore {
+    constructor(
+        private readonly options: { table: string },
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async log(connection: string, queue: string, payload: JobPayload, error: unknown): Promise<void> {
+        await this.database()
+            .connection()
+            .run(
+                `INSERT INTO ${this.options.table} (connection, queue, payload, exception, failed_at)
+                VALUES (?, ?, ?, ?, ?)`,
+                [connection, queue, JSON.stringify(payload), describeError(error), this.now().toISOString()],
+            );
+    }
+
+    /**
+     * Every failed job, most recent first.
+     */
+    public async all(): Promise<FailedJob[]> {
+        const rows = await this.database()
+            .connection()
+            .query<FailedJobRow>(`SELECT * FROM ${this.options.table} ORDER BY id DESC`);
+        return rows.map((row: FailedJobRow) => this.toFailedJob(row));
+    }
+
+    public async find(id: number): Promise<FailedJob | null> {
+        const [row] = await this.database()
+            .connection()
+            .query<FailedJobRow>(`SELECT * FROM ${this.options.table} WHERE id = ?`, [id]);
+        return row === undefined ? null : this.toFailedJob(row);
+    }
+
+    /**
+     * Delete one failed job; `false` when there is no such id.
+     */
+    public async forget(id: number): Promise<boolean> {
+        if ((await this.find(id)) === null) {
+            return false;
+        }
+        await this.database().connection().run(`DELETE FROM ${this.options.table} WHERE id = ?`, [id]);
+        return true;
+    }
+
+    /**
+     * Delete every failed job; returns how many were removed.
+     */
+    public async flush(): Promise<number> {
+        const count = (await this.all()).length;
+        await this.database().connection().run(`DELETE FROM ${this.options.table}`);
+        return count;
+    }
+
+    private toFailedJob(row: FailedJobRow): FailedJob {
+        return {
+            id: Number(row.id),
+            connection: row.connection,
+            queue: row.queue,
+            payload: JSON.parse(row.payload) as JobPayload,
+            exception: row.exception,
+            failedAt: new Date(row.failed_at),
+        };
+    }
+}
@@ -0,0 +1,159 @@
+import type { QueueableJob } from "@ninots/queue";
+import type { JobPayload, ReservableQueue, ReservedJob } from "./ReservableQueue";
+
+/**
+ * The one Redis call the queue needs — Bun's `RedisClient#send` fits.
+ */
+export type QueueRedisClient = {
+    send(command: string, args: string[]): Promise<unknown>;
+};
+
+export type RedisQueueOptions = {
+    /** Key prefix shared by every queue of the connection. */
+    prefix: string;
+    /** Queue used when `push` / `pop` get none. */
+    queue: string;
+    /** Seconds a reservation lasts before the job is handed to another worker. */
+    retryAfter: number;
+};
+
+/** Payload stored in Redis: the job plus an id that keeps identical jobs apart. */
+type RedisJobPayload = JobPayload & { id: string; attempts: number };
+
+/**
+ * Move due members of sorted set KEYS[1] onto list KEYS[2].
+ * ARGV[1]: current timestamp.
+ */
+const MIGRATE_DUE = `
+local due = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1])
+if next(due) ~= nil then
+    redis.call('zremrangebyrank', KEYS[1], 0, #due - 1)
+    for i = 1, #due, 100 do
+        redis.call('rpush', KEYS[2], unpack(due, i, math.min(i + 99, #due)))
+    end
+end
+return #due`;
+
+/**
+ * Pop list KEYS[1], count the attempt and park the job in sorted set KEYS[2].
+ * ARGV[1]: timestamp the reservation expires at.
+ */
+const RESERVE = `
+local job = redis.call('lpop', KEYS[1])
+if not job then
+    return false
+end
+local reserved = cjson.decode(job)
+reserved['attempts'] = reserved['attempts'] + 1
+reserved = cjson.encode(reserved)
+redis.call('zadd', KEYS[2], ARGV[1], reserved)
+return reserved`;
+
+/**
+ * Move reservation ARGV[1] from sorted set KEYS[1] to sorted set KEYS[2] at score ARGV[2].
+ */
+const RELEASE = `
+redis.call('zrem', KEYS[1], ARGV[1])
+redis.call('zadd', KEYS[2], ARGV[2], ARGV[1])
+return 1`;
+
+/**
+ * `redis` queue connection with reservations, so the app worker can retry,
+ * time out and fail jobs the same way as on the `database` connection.
+ *
+ * Waiting jobs live in the list `<prefix>queues:<queue>`, delayed and released
+ * ones in the sorted set `…:delayed` (scored by the time they become due) and
+ * reserved ones in `…:reserved` (scored by when the reservation expires, after
+ * which the job is handed to another worker). Every move between them is a Lua
+ * script, so workers never see a job twice.
+ */
+export class RedisQueue implements ReservableQueue {
+    constructor(
+        private readonly client: QueueRedisClient,
+        private readonly options: RedisQueueOptions,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    public async push(job: QueueableJob, queue?: string): Promise<void> {
+        await this.pushRaw({ jobName: job.jobName, data: job.toData() }, queue);
+    }
+
+    public async later(delaySeconds: number, job: QueueableJob, queue?: string): Promise<void> {
+        await this.pushRaw({ jobName: job.jobName, data: job.toData() }, queue, delaySeconds);
+    }
+
+    public async pushRaw(payload: JobPayload, queue?: string, delaySeconds = 0): Promise<void> {
+        const stored: RedisJobPayload = { id: crypto.randomUUID(), ...payload, attempts: 0 };
+        const key = this.key(queue);
+
+        if (delaySeconds > 0) {
+            await this.client.send("ZADD", [
+                `${key}:delayed`,
+                String(this.timestamp() + delaySeconds),
+                JSON.stringify(stored),
+            ]);
+            return;
+        }
+        await this.client.send("RPUSH", [key, JSON.stringify(stored)]);
+    }
+
+    public async pop(queue?: string): Promise<ReservedJob | null> {
+        const name = queue ?? this.options.queue;
+        const key = this.key(name);
+        const now = String(this.timestamp());
+
+        await this.client.send("EVAL", [MIGRATE_DUE, "2", `${key}:delayed`, key, now]);
+        await this.client.send("EVAL", [MIGRATE_DUE, "2", `${key}:reserved`, key, now]);
+
+        const reserved = await this.client.send("EVAL", [
+            RESERVE,
+            "2",
+            key,
+            `${key}:reserved`,
+            String(this.timestamp() + this.options.retryAfter),
+        ]);
+        if (typeof reserved !== "string") {
+            return null;
+        }
+
+        const payload = JSON.parse(reserved) as RedisJobPayload;
+        return {
+            id: payload.id,
+            queue: name,
+            jobName: payload.jobName,
+            data: payload.data,
+            attempts: payload.attempts,
+            delete: async () => {
+                await this.client.send("ZREM", [`${key}:reserved`, reserved]);
+            },
+            release: async (delaySeconds = 0) => {
+                await this.client.send("EVAL", [
+                    RELEASE,
+                    "2",
+                    `${key}:reserved`,
+                    `${key}:delayed`,
+                    reserved,
+                    String(this.timestamp() + delaySeconds),
+                ]);
+            },
+        };
+    }
+
+    public async size(queue?: string): Promise<number> {
+        const key = this.key(queue);
+        const counts = await Promise.all([
+            this.client.send("LLEN", [key]),
+            this.client.send("ZCARD", [`${key}:delayed`]),
+            this.client.send("ZCARD", [`${key}:reserved`]),
+        ]);
+        return counts.reduce<number>((total, count) => total + Number(count ?? 0), 0);
+    }
+
+    private key(queue?: string): string {
+        return `${this.options.prefix}queues:${queue ?? this.options.queue}`;
+    }
+
+    private timestamp(): number {
+        return Math.floor(this.now().getTime() / 1000);
+    }
+}
@@ -0,0 +1,46 @@
+import type { QueueableJob } from "@ninots/queue";
+
+/**
+ * Stored job payload — the job's registry name and `toData()`.
+ */
+export type JobPayload = {
+    jobName: string;
+    data: Record<string, unknown>;
+};
+
+/**
+ * A job reserved by {@link ReservableQueue.pop}: delete it once handled, or
+ * release it for another attempt.
+ */
+export type ReservedJob = JobPayload & {
+    id: number | string;
+    queue: string;
+    /** Reservations so far, including this one. */
+    attempts: number;
+    delete(): Promise<void>;
+    release(delaySeconds?: number): Promise<void>;
+};
+
+/**
+ * Queue connection the app {@link import("./Worker").Worker} can run: jobs are
+ * reserved rather than removed, so they can be retried, delayed and recorded as failed.
+ */
+export interface ReservableQueue {
+    push(job: QueueableJob, queue?: string): Promise<void>;
+    /** Push `job`, available once `delaySeconds` have passed. */
+    later(delaySeconds: number, job: QueueableJob, queue?: string): Promise<void>;
+    /** Store an already serialized job (e.g. one retried from `failed_jobs`). */
+    pushRaw(payload: JobPayload, queue?: string, delaySeconds?: number): Promise<void>;
+    /** Reserve the next available job on `queue`, or `null` when there is none. */
+    pop(queue?: string): Promise<ReservedJob | null>;
+    /** Jobs waiting, delayed or reserved on `queue`. */
+    size(queue?: string): Promise<number>;
+}
+
+/**
+ * Whether `connection` (from `QueueManager.connection()`) is a {@link ReservableQueue}.
+ */
+export function isReservableQueue(connection: unknown): connection is ReservableQueue {
+    const candidate = connection as Partial<ReservableQueue> | null;
+    return typeof candidate?.pop === "function" && typeof candidate.later === "function";
+}
@@ -0,0 +1,20 @@
+/**
+ * Marker for event listeners that run on the queue instead of inline: set
+ * `shouldQueue = true` and, optionally, where and when the listener runs.
+ * Retry settings work as on {@link import("./Worker").RetryableJob}.
+ */
+export type ShouldQueue = {
+    readonly shouldQueue: true;
+    /** Queue connection; defaults to `QUEUE_CONNECTION`. */
+    readonly connection?: string;
+    readonly queue?: string;
+    /** Seconds to wait before the listener runs; needs a database or redis connection. */
+    readonly delay?: number;
+    readonly tries?: number;
+    readonly backoff?: number | number[];
+    readonly timeout?: number;
+};
+
+export function shouldQueue(listener: object): listener is ShouldQueue {
+    return (listener as Partial<ShouldQueue>).shouldQueue === true;
+}
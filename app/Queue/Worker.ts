@@ -0,0 +1,281 @@
+import type { JobRegistry, QueueableJob } from "@ninots/queue";
+import type { FailedJobStore } from "./FailedJobStore";
+import type { ReservableQueue, ReservedJob } from "./ReservableQueue";
+
+/**
+ * Optional retry settings a job may declare next to {@link QueueableJob}.
+ */
+export type RetryableJob = QueueableJob & {
+    /** Total attempts before the job is recorded as failed. */
+    tries?: number;
+    /** Seconds before a retry: fixed, or one entry per attempt (last one repeats). */
+    backoff?: number | number[];
+    /** Seconds `handle()` may run before the attempt counts as failed. */
+    timeout?: number;
+    /** `signal` aborts once the timeout is hit; stop work promptly when it does. */
+    handle(signal?: AbortSignal): void | Promise<void>;
+    /** Called once the job has failed for good. */
+    failed?(error: unknown): void | Promise<void>;
+};
+
+export class JobTimeoutException extends Error {
+    constructor(jobName: string, seconds: number) {
+        super(`Job [${jobName}] exceeded its ${String(seconds)}s timeout.`);
+        this.name = "JobTimeoutException";
+    }
+}
+
+export class MaxAttemptsExceededException extends Error {
+    constructor(jobName: string, attempts: number) {
+        super(`Job [${jobName}] has been attempted too many times (${String(attempts)}).`);
+        this.name = "MaxAttemptsExceededException";
+    }
+}
+
+/** Cache key `queue:restart` writes; workers exit once its value changes. */
+export const QUEUE_RESTART_KEY = "ninots:queue:restart";
+
+/** Subset of the cache API workers poll for the `queue:restart` signal. */
+export type WorkerCache = {
+    get<T>(key: string): Promise<T | undefined | null>;
+};
+
+export type WorkerOptions = {
+    /** Connection name recorded with failed jobs. */
+    connection: string;
+    queue: ReservableQueue;
+    registry: JobRegistry;
+    failedJobs: FailedJobStore;
+    /** Defaults for jobs that declare no `tries` / `timeout` (0 = no timeout). */
+    tries?: number;
+    timeout?: number;
+    /** Where `queue:restart` leaves its signal; without it workers never restart. */
+    cache?: WorkerCache;
+    now?: () => Date;
+    /** Resident memory in bytes, checked against `WorkerRunOptions.memory`. */
+    memoryUsage?: () => number;
+};
+
+export type WorkerRunOptions = {
+    /** Queue name, or a comma-separated list checked in priority order (`"high,default"`). */
+    queue?: string | undefined;
+    sleepMs?: number;
+    /** Stops the worker once the in-flight jobs finish. */
+    signal?: AbortSignal;
+    onError?: (error: unknown, jobName: string) => void;
+    /** Jobs processed side by side (default 1). */
+    concurrency?: number;
+    /** Stop after this many jobs (0 = no limit). */
+    maxJobs?: number;
+    /** Stop after running this many seconds (0 = no limit). */
+    maxTime?: number;
+    /** Stop once the process uses more than this many megabytes (0 = no limit). */
+    memory?: number;
+    /** Stop as soon as every queue is empty instead of sleeping. */
+    stopWhenEmpty?: boolean;
+};
+
+export type WorkerStopReason = "interrupted" | "max-jobs" | "max-time" | "memory" | "restart" | "empty";
+
+function backoffFor(job: RetryableJob, attempts: number): number {
+    const backoff = job.backoff ?? 0;
+    if (typeof backoff === "number") {
+        return backoff;
+    }
+    return backoff[Math.min(attempts, backoff.length) - 1] ?? 0;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done(): void {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            resolve();
+        }
+        signal?.addEventListener("abort", done, { once: true });
+    });
+}
+
+/**
+ * Runs jobs from a {@link ReservableQueue} (`database` or `redis`): deletes them
+ * once handled, releases them with backoff while attempts remain and records them
+ * in `failed_jobs` (calling the job's `failed()` hook) once they run out.
+ */
+export class Worker {
+    constructor(private readonly options: WorkerOptions) {}
+
+    /**
+     * Reserve and run one job from the first non-empty queue; `false` when all are empty.
+     */
+    public async runNextJob(queue?: string, onError?: WorkerRunOptions["onError"]): Promise<boolean> {
+        for (const name of queue === undefined ? [undefined] : queue.split(",")) {
+            const reserved = await this.options.queue.pop(name?.trim() || undefined);
+            if (reserved !== null) {
+                await this.process(reserved, onError);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Run `concurrency` loops until a limit is reached, `queue:restart` is
+     * signalled or `signal` aborts, sleeping `sleepMs` whenever the queues are
+     * empty. Jobs already reserved always finish before this resolves.
+     */
+    public async run(options: WorkerRunOptions = {}): Promise<WorkerStopReason> {
+        const now = this.options.now ?? (() => new Date());
+        const memoryUsage = this.options.memoryUsage ?? (() => process.memoryUsage().rss);
+        const startedAt = now().getTime();
+        const restartedAt = await this.lastRestart();
+        const state: { reserved: number; reason: WorkerStopReason | null } = { reserved: 0, reason: null };
+
+        const stopReason = async (): Promise<WorkerStopReason | null> => {
+            if (options.signal?.aborted === true) {
+                return "interrupted";
+            }
+            if ((options.maxJobs ?? 0) > 0 && state.reserved >= (options.maxJobs ?? 0)) {
+                return "max-jobs";
+            }
+            if ((options.maxTime ?? 0) > 0 && now().getTime() - startedAt >= (options.maxTime ?? 0) * 1000) {
+                return "max-time";
+            }
+            if ((options.memory ?? 0) > 0 && memoryUsage() > (options.memory ?? 0) * 1024 * 1024) {
+                return "memory";
+            }
+            return (await this.lastRestart()) !== restartedAt ? "restart" : null;
+        };
+
+        const loop = async (): Promise<void> => {
+            while (state.reason === null) {
+                const reason = await stopReason();
+                if (reason !== null) {
+                    state.reason ??= reason;
+                    return;
+                }
+
+                // Count the job before reserving it so parallel loops never overshoot `maxJobs`.
+                state.reserved++;
+                if (await this.runNextJob(options.queue, options.onError)) {
+                    continue;
+                }
+                state.reserved--;
+
+                if (options.stopWhenEmpty === true) {
+                    state.reason ??= "empty";
+                    return;
+                }
+                await sleep(options.sleepMs ?? 1000, options.signal);
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.max(1, options.concurrency ?? 1) }, loop));
+        return state.reason ?? "interrupted";
+    }
+
+    public async process(reserved: ReservedJob, onError?: WorkerRunOptions["onError"]): Promise<void> {
+        let job: RetryableJob;
+        try {
+            job = this.options.registry.resolve(reserved.jobName, reserved.data) as RetryableJob;
+        } catch (error) {
+            // Unknown job names or bad payloads will never succeed: fail without retrying.
+            onError?.(error, reserved.jobName);
+            await this.fail(reserved, error, onError);
+            return;
+        }
+
+        const tries = job.tries ?? this.options.tries ?? 1;
+        // A reservation that expired mid-run (crashed or stuck worker) hands the job out again.
+        if (reserved.attempts > tries) {
+            const error = new MaxAttemptsExceededException(reserved.jobName, reserved.attempts - 1);
+            onError?.(error, reserved.jobName);
+            await this.fail(reserved, error, onError, job);
+            return;
+        }
+
+        try {
+            await this.handle(job);
+        } catch (error) {
+            onError?.(error, reserved.jobName);
+            if (reserved.attempts < tries) {
+                await reserved.release(backoffFor(job, reserved.attempts));
+                return;
+            }
+
+            await this.fail(reserved, error, onError, job);
+            return;
+        }
+
+        // The job succeeded: a failing delete is reported, not treated as a failed attempt.
+        await this.delete(reserved, onError);
+    }
+
+    private async lastRestart(): Promise<unknown> {
+        return (await this.options.cache?.get(QUEUE_RESTART_KEY)) ?? null;
+    }
+
+    /**
+     * Record the job in `failed_jobs`, drop it from the queue and call its `failed()` hook.
+     * Errors from the store or the hook are reported, never thrown: the worker keeps going.
+     */
+    private async fail(
+        reserved: ReservedJob,
+        error: unknown,
+        onError?: WorkerRunOptions["onError"],
+        job?: RetryableJob,
+    ): Promise<void> {
+        const payload = { jobName: reserved.jobName, data: reserved.data };
+        try {
+            await this.options.failedJobs.log(this.options.connection, reserved.queue, payload, error);
+        } catch (logError) {
+            onError?.(logError, reserved.jobName);
+        }
+        await this.delete(reserved, onError);
+
+        try {
+            await job?.failed?.(error);
+        } catch (hookError) {
+            onError?.(hookError, reserved.jobName);
+        }
+    }
+
+    private async delete(reserved: ReservedJob, onError?: WorkerRunOptions["onError"]): Promise<void> {
+        try {
+            await reserved.delete();
+        } catch (deleteError) {
+            onError?.(deleteError, reserved.jobName);
+        }
+    }
+
+    /**
+     * Run `handle()`, aborting its signal once the timeout passes. The attempt only
+     * counts as failed after the aborted run settles, so a retry never overlaps it.
+     */
+    private async handle(job: RetryableJob): Promise<void> {
+        const seconds = job.timeout ?? this.options.timeout ?? 0;
+        const controller = new AbortController();
+        const run = Promise.resolve().then(() => job.handle(controller.signal));
+        if (seconds <= 0) {
+            await run;
+            return;
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timedOut = new Promise<"timeout">((resolve) => {
+            timer = setTimeout(() => resolve("timeout"), seconds * 1000);
+        });
+        try {
+            if ((await Promise.race([run.then(() => "done" as const), timedOut])) === "done") {
+                return;
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+
+        const error = new JobTimeoutException(job.jobName, seconds);
+        controller.abort(error);
+        await run.catch(() => undefined);
+        throw error;
+    }
+}
@@ -1,6 +1,17 @@
-import { createDefaultRedisClient, JobRegistry, QueueManager, type QueueManagerConfig } from "@ninots/queue";
+import { JobRegistry, QueueManager, type QueueableJob, type QueueManagerConfig } from "@ninots/queue";
+import { RedisClient } from "bun";
 import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import { createMailManager } from "@/app/Mail/createMailServices";
+import databaseConfig from "@/config/database";
 import queueConfig from "@/config/queue";
+import { BatchedJob } from "./BatchedJob";
+import { BatchRepository } from "./BatchRepository";
+import { Bus, type DispatchOptions } from "./Bus";
+import { ChainedJobs } from "./ChainedJobs";
+import { DatabaseQueue } from "./DatabaseQueue";
+import { FailedJobStore } from "./FailedJobStore";
+import { RedisQueue } from "./RedisQueue";
 
 /** Container key for {@link QueueManager}. */
 export const QUEUE_MANAGER_KEY = "QueueManager";
@@ -9,37 +20,106 @@ export const QUEUE_MANAGER_KEY = "QueueManager";
 export const JOB_REGISTRY_KEY = "JobRegistry";
 
 /**
- * Build {@link QueueManagerConfig} from app config (lazy Redis client).
+ * Build {@link QueueManagerConfig} from app config; `database` and `redis` are
+ * registered by {@link createQueueManager}.
  */
 export function buildQueueManagerConfig(): QueueManagerConfig {
-    const redis = queueConfig.connections.redis;
-    const url = redis.url;
-
     return {
         default: queueConfig.default,
         connections: {
             sync: queueConfig.connections.sync,
-            redis: {
-                driver: "redis",
-                client: createDefaultRedisClient(url !== undefined && url.length > 0 ? url : undefined),
-                queue: redis.queue,
-                prefix: redis.prefix,
-                blockTimeoutSeconds: redis.blockTimeoutSeconds,
-            },
         },
     };
 }
 
 /**
- * Create the canonical {@link QueueManager} for this app.
+ * Build the `database` connection from `config/queue.ts` (driver looked up in `config/database.ts`).
+ */
+export function createDatabaseQueue(): DatabaseQueue {
+    const config = queueConfig.connections.database;
+    const connections: Record<string, { driver: string }> = databaseConfig.connections;
+
+    return new DatabaseQueue({
+        connection: config.connection,
+        driver: connections[config.connection ?? databaseConfig.default]?.driver ?? "sqlite",
+        table: config.table,
+        queue: config.queue,
+        retryAfter: config.retryAfter,
+    });
+}
+
+/**
+ * Build the `redis` connection from `config/queue.ts` (`Bun.redis` or `REDIS_URL`).
+ */
+export function createRedisQueue(): RedisQueue {
+    const config = queueConfig.connections.redis;
+    const client =
+        config.url !== undefined && config.url.length > 0
+            ? new RedisClient(config.url)
+            : ((Bun.redis as RedisClient | undefined) ?? new RedisClient());
+
+    return new RedisQueue(client, {
+        prefix: config.prefix,
+        queue: config.queue,
+        retryAfter: config.retryAfter,
+    });
+}
+
+/**
+ * Create the `failed_jobs` store from `config/queue.ts` → `failed`.
+ */
+export function createFailedJobStore(): FailedJobStore {
+    return new FailedJobStore({ table: queueConfig.failed.table });
+}
+
+/**
+ * Create the canonical {@link QueueManager} for this app, with the app's
+ * reservable `database` / `redis` connections registered next to the package's `sync`.
  */
 export function createQueueManager(config: QueueManagerConfig = buildQueueManagerConfig()): QueueManager {
-    return new QueueManager(config);
+    const manager = new QueueManager(config);
+    manager.extend("database", () => createDatabaseQueue());
+    manager.extend("redis", () => createRedisQueue());
+    return manager;
+}
+
+/**
+ * Create the `job_batches` repository from `config/queue.ts` → `batching`.
+ */
+export function createBatchRepository(): BatchRepository {
+    return new BatchRepository({ table: queueConfig.batching.table });
+}
+
+/**
+ * Register domain job factories for `nino queue:work`, plus the chain / batch
+ * wrappers that {@link Bus} dispatches through `queue`. Jobs rebuilt from a
+ * payload get their services (e.g. `mail`) injected here.
+ */
+export function createJobRegistry(
+    queue: QueueManager,
+    batches: BatchRepository = createBatchRepository(),
+    mail: AppMailManager = createMailManager(),
+): JobRegistry {
+    const registry = new JobRegistry();
+    const context = {
+        registry,
+        batches,
+        dispatch: async (job: QueueableJob, options: DispatchOptions = {}) => {
+            await queue.connection(options.connection ?? queue.getDefaultConnection()).push(job, options.queue);
+        },
+    };
+
+    return registry
+        .register("SendVerificationEmailJob", (data) => SendVerificationEmailJob.fromData(data).withMail(mail))
+        .register("ChainedJobs", (data) => ChainedJobs.fromData(data, context))
+        .register("BatchedJob", (data) => BatchedJob.fromData(data, context));
 }
 
 /**
- * Register domain job factories for `nino queue:work`.
+ * Create the app {@link Bus} (delayed jobs, chains, batches) over `queue`.
  */
-export function createJobRegistry(): JobRegistry {
-    return new JobRegistry().register("SendVerificationEmailJob", (data) => SendVerificationEmailJob.fromData(data));
+export function createBus(queue: QueueManager, registry: JobRegistry, batches = createBatchRepository()): Bus {
+    const connections: Record<string, { driver: string }> = queueConfig.connections;
+    const sync = connections[queue.getDefaultConnection()]?.driver === "sync";
+    return new Bus(queue, registry, batches, { sync });
 }
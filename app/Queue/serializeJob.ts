@@ -0,0 +1,25 @@
+import type { JobRegistry, QueueableJob } from "@ninots/queue";
+import type { JobPayload } from "./ReservableQueue";
+import type { RetryableJob } from "./Worker";
+
+export function serializeJob(job: QueueableJob): JobPayload {
+    return { jobName: job.jobName, data: job.toData() };
+}
+
+/**
+ * Rebuild a job from its payload through the app {@link JobRegistry}.
+ */
+export function unserializeJob(registry: JobRegistry, payload: JobPayload): RetryableJob {
+    return registry.resolve(payload.jobName, payload.data) as RetryableJob;
+}
+
+/**
+ * Read a `{ jobName, data }` payload nested in a wrapper job's data.
+ */
+export function toJobPayload(value: unknown): JobPayload {
+    const payload = value as Partial<JobPayload> | null;
+    if (typeof payload?.jobName !== "string" || typeof payload.data !== "object" || payload.data === null) {
+        throw new Error("Invalid nested job payload");
+    }
+    return { jobName: payload.jobName, data: payload.data };
+}
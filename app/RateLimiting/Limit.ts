@@ -0,0 +1,49 @@
+/**
+ * Counting strategy for a {@link Limit}.
+ *
+ * - `sliding-window`: weighted blend of the current and previous fixed window
+ * - `token-bucket`: `maxAttempts` tokens refilled evenly over `decaySeconds`
+ */
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+/**
+ * A rate limit: `maxAttempts` per `decaySeconds`, counted under `key`.
+ */
+export class Limit {
+    public key = "";
+    public algorithm: RateLimitAlgorithm = "sliding-window";
+
+    constructor(
+        public readonly maxAttempts: number,
+        public readonly decaySeconds: number,
+    ) {
+        if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || !(decaySeconds > 0)) {
+            throw new Error(`Invalid rate limit: ${maxAttempts} per ${decaySeconds}s`);
+        }
+    }
+
+    public static perSecond(maxAttempts: number, decaySeconds = 1): Limit {
+        return new Limit(maxAttempts, decaySeconds);
+    }
+
+    public static perMinute(maxAttempts: number, decayMinutes = 1): Limit {
+        return new Limit(maxAttempts, decayMinutes * 60);
+    }
+
+    public static perHour(maxAttempts: number, decayHours = 1): Limit {
+        return new Limit(maxAttempts, decayHours * 3600);
+    }
+
+    /**
+     * Count attempts per IP, user id or any custom string.
+     */
+    public by(key: string | number): this {
+        this.key = String(key);
+        return this;
+    }
+
+    public using(algorithm: RateLimitAlgorithm): this {
+        this.algorithm = algorithm;
+        return this;
+    }
+}
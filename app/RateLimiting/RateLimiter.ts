@@ -0,0 +1,132 @@
+import type { Limit } from "./Limit";
+
+/** Subset of the cache repository API the limiter needs (a `CacheManager` or one of its stores). */
+export type RateLimiterCache = {
+    get<T>(key: string): Promise<T | undefined | null>;
+    put(key: string, value: unknown, seconds?: number): Promise<unknown>;
+    forget(key: string): Promise<unknown>;
+};
+
+export type RateLimitResult = {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Seconds until the next attempt is allowed (0 when allowed). */
+    retryAfter: number;
+};
+
+export type LimiterCallback = (request: Request) => Limit | Promise<Limit>;
+
+type BucketState = { tokens: number; updatedAt: number };
+
+/**
+ * Named rate limiters with counters kept in the cache.
+ *
+ * Counters are read-modify-write through the cache API, so concurrent hits on
+ * the same key may occasionally be under-counted; limits are best-effort.
+ */
+export class RateLimiter {
+    private readonly limiters = new Map<string, LimiterCallback>();
+
+    constructor(
+        private readonly cache: RateLimiterCache,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /**
+     * Define a named limiter, referenced from routes as `throttle:<name>`.
+     */
+    public for(name: string, callback: LimiterCallback): this {
+        this.limiters.set(name, callback);
+        return this;
+    }
+
+    public limiter(name: string): LimiterCallback | undefined {
+        return this.limiters.get(name);
+    }
+
+    public names(): string[] {
+        return [...this.limiters.keys()];
+    }
+
+    /**
+     * Record one attempt against `key` and report whether it is within `limit`.
+     */
+    public async hit(key: string, limit: Limit): Promise<RateLimitResult> {
+        return limit.algorithm === "token-bucket" ? this.tokenBucket(key, limit) : this.slidingWindow(key, limit);
+    }
+
+    /**
+     * Forget all counters for `key`.
+     */
+    public async clear(key: string, limit: Limit): Promise<void> {
+        const windowMs = limit.decaySeconds * 1000;
+        const window = Math.floor(this.now() / windowMs);
+        await this.cache.forget(`${key}:${window}`);
+        await this.cache.forget(`${key}:${window - 1}`);
+        await this.cache.forget(`${key}:bucket`);
+    }
+
+    private async slidingWindow(key: string, limit: Limit): Promise<RateLimitResult> {
+        const now = this.now();
+        const windowMs = limit.decaySeconds * 1000;
+        const window = Math.floor(now / windowMs);
+        const elapsed = (now - window * windowMs) / windowMs;
+
+        const previous = Number((await this.cache.get<number>(`${key}:${window - 1}`)) ?? 0);
+        const current = Number((await this.cache.get<number>(`${key}:${window}`)) ?? 0);
+        const weighted = previous * (1 - elapsed) + current;
+
+        if (weighted + 1 > limit.maxAttempts) {
+            return {
+                allowed: false,
+                limit: limit.maxAttempts,
+                remaining: 0,
+                retryAfter: this.slidingRetryAfter(limit, previous, current, elapsed),
+            };
+        }
+
+        await this.cache.put(`${key}:${window}`, current + 1, limit.decaySeconds * 2);
+
+        return {
+            allowed: true,
+            limit: limit.maxAttempts,
+            remaining: Math.max(0, Math.floor(limit.maxAttempts - weighted - 1)),
+            retryAfter: 0,
+        };
+    }
+
+    /**
+     * Seconds until the previous window's weight has decayed enough for one more hit.
+     */
+    private slidingRetryAfter(limit: Limit, previous: number, current: number, elapsed: number): number {
+        if (current + 1 > limit.maxAttempts || previous === 0) {
+            return Math.max(1, Math.ceil((1 - elapsed) * limit.decaySeconds));
+        }
+        const freeAt = 1 - (limit.maxAttempts - 1 - current) / previous;
+        return Math.max(1, Math.ceil((freeAt - elapsed) * limit.decaySeconds));
+    }
+
+    private async tokenBucket(key: string, limit: Limit): Promise<RateLimitResult> {
+        const now = this.now();
+        const ratePerMs = limit.maxAttempts / (limit.decaySeconds * 1000);
+        const state = (await this.cache.get<BucketState>(`${key}:bucket`)) ?? {
+            tokens: limit.maxAttempts,
+            updatedAt: now,
+        };
+        const tokens = Math.min(limit.maxAttempts, state.tokens + (now - state.updatedAt) * ratePerMs);
+
+        if (tokens < 1) {
+            return {
+                allowed: false,
+                limit: limit.maxAttempts,
+                remaining: 0,
+                retryAfter: Math.max(1, Math.ceil((1 - tokens) / ratePerMs / 1000)),
+            };
+        }
+
+        await this.cache.put(`${key}:bucket`, { tokens: tokens - 1, updatedAt: now }, limit.decaySeconds + 1);
+
+        return { allowed: true, limit: limit.maxAttempts, remaining: Math.floor(tokens - 1), retryAfter: 0 };
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Rate limiter wiring for the starter.
+ *
+ * Counters live in the cache store named by `config/cache.ts` → `limiter`
+ * (the default store when unset).
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheManager } from "@ninots/cache";
+import cacheConfig from "@/config/cache";
+import { user } from "@/app/Auth/auth";
+import { clientIp } from "@/app/Http/clientIp";
+import { Limit } from "./Limit";
+import { RateLimiter } from "./RateLimiter";
+
+/** Container key for {@link RateLimiter}. */
+export const RATE_LIMITER_KEY = "RateLimiter";
+
+/**
+ * Create the {@link RateLimiter} with the app's named limiters.
+ */
+export function createRateLimiter(cache: CacheManager): RateLimiter {
+    const limiter = new RateLimiter(cacheConfig.limiter !== undefined ? cache.store(cacheConfig.limiter) : cache);
+
+    limiter.for("api", async (request) => {
+        const current = await user(request);
+        return Limit.perMinute(60).by(
+            current !== null ? `user:${String(current.getAttribute("id"))}` : clientIp(request),
+        );
+    });
+
+    return limiter;
+}
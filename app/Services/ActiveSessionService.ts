@@ -0,0 +1,71 @@
+import type { SessionManager } from "@ninots/session";
+import type { SessionGuard } from "@/app/Auth/SessionGuard";
+import type { User } from "@/app/Models/User";
+import type { ActiveSession, UserSessionIndex } from "@/app/Session/UserSessionIndex";
+
+/**
+ * An {@link ActiveSession} flagged with whether it is the one making the request.
+ */
+export type DeviceSession = ActiveSession & { isCurrentDevice: boolean };
+
+/**
+ * List and revoke a user's sessions ("log out other devices") for every
+ * server-side session driver.
+ *
+ * Sessions are found through the {@link UserSessionIndex} and revoked through the
+ * {@link SessionManager} by emptying them, which signs the device out.
+ */
+export class ActiveSessionService {
+    constructor(
+        private readonly manager: SessionManager,
+        private readonly index: UserSessionIndex,
+    ) {}
+
+    /**
+     * Unexpired sessions of `user`, most recently active first.
+     */
+    public async forUser(user: User, currentSessionId?: string): Promise<DeviceSession[]> {
+        const sessions = await this.index.sessionsFor(Number(user.getAttribute("id")));
+        return sessions.map((session) => ({ ...session, isCurrentDevice: session.id === currentSessionId }));
+    }
+
+    /**
+     * Revoke one session of `user`; `false` when it is not theirs (or already gone).
+     */
+    public async revoke(user: User, sessionId: string): Promise<boolean> {
+        const sessions = await this.forUser(user);
+        if (!sessions.some((session) => session.id === sessionId)) {
+            return false;
+        }
+        await this.end(user, sessionId);
+        return true;
+    }
+
+    /**
+     * Revoke every session of the guard's user except `currentSessionId` and cycle
+     * the remember token so "remember me" cookies cannot sign the other devices back in
+     * (the current device gets its cookie re-issued). Returns how many sessions were removed.
+     */
+    public async logoutOtherDevices(guard: SessionGuard, currentSessionId: string): Promise<number> {
+        const user = await guard.user();
+        if (user === null) {
+            return 0;
+        }
+
+        const others = (await this.forUser(user, currentSessionId)).filter((session) => !session.isCurrentDevice);
+        for (const session of others) {
+            await this.end(user, session.id);
+        }
+        await guard.cycleRememberToken();
+        return others.length;
+    }
+
+    private async end(user: User, sessionId: string): Promise<void> {
+        const session = await this.manager.getOrCreate(sessionId);
+        for (const key of Object.keys(session.all())) {
+            session.forget(key);
+        }
+        await session.save();
+        await this.index.forget(Number(user.getAttribute("id")), sessionId);
+    }
+}
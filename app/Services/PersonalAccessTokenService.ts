@@ -0,0 +1,115 @@
+import { hashToken, randomToken, tokenMatches } from "@/app/Hashing/tokens";
+import { PersonalAccessToken } from "@/app/Models/PersonalAccessToken";
+import type { User } from "@/app/Models/User";
+import authConfig from "@/config/auth";
+
+/**
+ * A freshly issued token — `plainTextToken` (`<id>|<secret>`) is shown once and never stored.
+ */
+export type NewAccessToken = {
+    accessToken: PersonalAccessToken;
+    plainTextToken: string;
+};
+
+export type CreateTokenOptions = {
+    abilities?: string[];
+    /** Defaults to `config/auth.ts` → `tokens.expiration`; `null` never expires. */
+    expiresAt?: Date | null;
+};
+
+/**
+ * Personal access token service — issue, resolve and revoke API tokens.
+ */
+export class PersonalAccessTokenService {
+    constructor(private readonly now: () => Date = () => new Date()) {}
+
+    public async create(user: User, name: string, options: CreateTokenOptions = {}): Promise<NewAccessToken> {
+        const secret = randomToken();
+        const expiration = authConfig.tokens.expiration;
+        const expiresAt =
+            options.expiresAt !== undefined
+                ? options.expiresAt
+                : expiration !== null
+                  ? new Date(this.now().getTime() + expiration * 60_000)
+                  : null;
+
+        const token = new PersonalAccessToken();
+        token.fill({
+            user_id: user.getAttribute("id"),
+            name,
+            token: hashToken(secret),
+            abilities: JSON.stringify(options.abilities ?? ["*"]),
+            expires_at: expiresAt?.toISOString() ?? null,
+            created_at: this.now().toISOString(),
+        });
+        await token.save();
+
+        return { accessToken: token, plainTextToken: `${String(token.getAttribute("id"))}|${secret}` };
+    }
+
+    /**
+     * Resolve a plain-text token, or `null` when unknown or expired.
+     */
+    public async findToken(plainTextToken: string): Promise<PersonalAccessToken | null> {
+        const separator = plainTextToken.indexOf("|");
+        const id = separator > 0 ? Number(plainTextToken.slice(0, separator)) : Number.NaN;
+        const secret = plainTextToken.slice(separator + 1);
+
+        if (!Number.isInteger(id) || secret.length === 0) {
+            return null;
+        }
+
+        const token = await PersonalAccessToken.find(id);
+        const digest = token?.getAttribute("token");
+        if (token === null || typeof digest !== "string" || !tokenMatches(digest, secret)) {
+            return null;
+        }
+
+        return token.isExpired(this.now()) ? null : token;
+    }
+
+    /**
+     * Record `last_used_at`, throttled to one write per `tokens.lastUsedInterval` seconds.
+     */
+    public async touch(token: PersonalAccessToken): Promise<void> {
+        const lastUsed = token.getAttribute("last_used_at");
+        const now = this.now();
+        if (
+            typeof lastUsed === "string" &&
+            now.getTime() - new Date(lastUsed).getTime() < authConfig.tokens.lastUsedInterval * 1000
+        ) {
+            return;
+        }
+
+        token.setAttribute("last_used_at", now.toISOString());
+        await token.save();
+    }
+
+    public async tokensFor(userId: number): Promise<PersonalAccessToken[]> {
+        const tokens = await PersonalAccessToken.query().where("user_id", "=", userId).orderBy("id").get();
+        return tokens.all();
+    }
+
+    /**
+     * Revoke one token; with `userId`, only if it belongs to that user.
+     */
+    public async revoke(id: number, userId?: number): Promise<boolean> {
+        const token = await PersonalAccessToken.find(id);
+        if (token === null || (userId !== undefined && Number(token.getAttribute("user_id")) !== userId)) {
+            return false;
+        }
+        await token.delete();
+        return true;
+    }
+
+    /**
+     * Revoke every token of a user; returns how many were removed.
+     */
+    public async revokeAll(userId: number): Promise<number> {
+        const tokens = await this.tokensFor(userId);
+        for (const token of tokens) {
+            await token.delete();
+        }
+        return tokens.length;
+    }
+}
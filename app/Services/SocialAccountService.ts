@@ -0,0 +1,88 @@
+import type { OAuthUser } from "@ninots/social-auth";
+import { HttpException } from "@/app/Exceptions/HttpException";
+import { randomToken } from "@/app/Hashing/tokens";
+import { SocialAccount } from "@/app/Models/SocialAccount";
+import { User } from "@/app/Models/User";
+import type { UserService } from "@/app/Services/UserService";
+
+/**
+ * Social account service — resolve the local user for an OAuth identity.
+ */
+export class SocialAccountService {
+    constructor(
+        private readonly users: UserService,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    /**
+     * Resolve (and link) the user for `identity`, in order:
+     * an existing link, the signed-in `current` user, a user with the same
+     * verified email, or a new user with a random password.
+     *
+     * @throws HttpException 409 when the signed-in user differs from the account the identity is linked to
+     * @throws HttpException 422 when a new user is needed but the provider shared no verified email
+     */
+    public async findOrCreateUser(provider: string, identity: OAuthUser, current: User | null = null): Promise<User> {
+        const account = await this.findAccount(provider, String(identity.id));
+        if (account !== null) {
+            const linked = await User.find(Number(account.getAttribute("user_id")));
+            if (linked !== null) {
+                if (current !== null && Number(linked.getAttribute("id")) !== Number(current.getAttribute("id"))) {
+                    throw new HttpException(409, "This account is already linked to another account.");
+                }
+                return linked;
+            }
+        }
+
+        let user = current ?? (identity.email !== null ? await this.userByEmail(identity.email) : null);
+        if (user === null) {
+            if (identity.email === null) {
+                throw new HttpException(422, "The provider did not share a verified email address.");
+            }
+            user = await this.users.create({
+                email: identity.email,
+                name: identity.name ?? identity.nickname ?? identity.email,
+                password: randomToken(),
+                avatar: identity.avatar,
+                // Providers only hand over verified addresses.
+                email_verified_at: this.now().toISOString(),
+            });
+        }
+
+        await this.link(user, provider, identity);
+        return user;
+    }
+
+    public async accountsFor(userId: number): Promise<SocialAccount[]> {
+        const accounts = await SocialAccount.query().where("user_id", "=", userId).orderBy("id").get();
+        return accounts.all();
+    }
+
+    private async link(user: User, provider: string, identity: OAuthUser): Promise<SocialAccount> {
+        const account = new SocialAccount();
+        account.fill({
+            user_id: user.getAttribute("id"),
+            provider,
+            provider_user_id: String(identity.id),
+            email: identity.email,
+            nickname: identity.nickname,
+            created_at: this.now().toISOString(),
+        });
+        await account.save();
+        return account;
+    }
+
+    private async findAccount(provider: string, providerUserId: string): Promise<SocialAccount | null> {
+        const accounts = await SocialAccount.query()
+            .where("provider", "=", provider)
+            .where("provider_user_id", "=", providerUserId)
+            .limit(1)
+            .get();
+        return accounts.all()[0] ?? null;
+    }
+
+    private async userByEmail(email: string): Promise<User | null> {
+        const users = await User.query().where("email", "=", email).limit(1).get();
+        return users.all()[0] ?? null;
+    }
+}
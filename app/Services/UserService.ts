@@ -1,6 +1,10 @@
 import type { EventDispatcher } from "@ninots/events";
 import { UserCreatedEvent } from "@/app/Events/UserCreatedEvent";
+import { NotFoundException } from "@/app/Exceptions/NotFoundException";
 import { User } from "@/app/Models/User";
+import type { CursorPaginator } from "@/app/Pagination/CursorPaginator";
+import type { LengthAwarePaginator } from "@/app/Pagination/LengthAwarePaginator";
+import type { PaginationInput } from "@/app/Pagination/paginate";
 
 /**
  * User service — business logic for user operations.
@@ -13,6 +17,16 @@ export class UserService {
         return users.all();
     }
 
+    /**
+     * Page through users — keyset when a `cursor` is given, offset otherwise.
+     */
+    public async paginate(input: PaginationInput): Promise<LengthAwarePaginator<User> | CursorPaginator<User>> {
+        if (input.cursor !== null) {
+            return User.cursorPaginate(input.perPage, input);
+        }
+        return User.paginate(input.perPage, input);
+    }
+
     public async find(id: number): Promise<User | null> {
         return User.find(id);
     }
@@ -30,7 +44,7 @@ export class UserService {
     public async update(id: number, data: Record<string, unknown>): Promise<User> {
         const user = await this.find(id);
         if (!user) {
-            throw new Error("User not found");
+            throw new NotFoundException("User not found");
         }
         user.fill(data);
         await user.save();
@@ -0,0 +1,127 @@
+import { DatabaseDriver, type SessionConnectionInterface } from "@ninots/session";
+import { OrmSessionConnection } from "./OrmSessionConnection";
+
+export type DatabaseSessionDriverOptions = {
+    table: string;
+    /** Lifetime in minutes; older rows read as missing. */
+    lifetime: number;
+    /** Payload key holding the authenticated user id (the session guard's `sessionKey()`). */
+    userKey: string;
+};
+
+/**
+ * Request details recorded next to the payload (see {@link DatabaseSessionDriver.recordClient}).
+ */
+export type SessionClient = {
+    ipAddress: string | null;
+    userAgent: string | null;
+};
+
+type SessionRow = { payload: string; last_activity: number | string };
+
+/**
+ * The session package's {@link DatabaseDriver} over the app's `@ninots/orm` connection
+ * (`SESSION_DRIVER=database`, see {@link OrmSessionConnection}).
+ *
+ * Rows also carry `user_id`, `ip_address` and `user_agent`. Create the table
+ * with `nino session:table` + `nino migrate`.
+ */
+export class DatabaseSessionDriver extends DatabaseDriver {
+    private readonly clients = new Map<string, SessionClient>();
+
+    constructor(
+        private readonly options: DatabaseSessionDriverOptions,
+        private readonly connection: SessionConnectionInterface = new OrmSessionConnection(),
+        private readonly now: () => Date = () => new Date(),
+    ) {
+        super(connection, { table: options.table, lifetime: options.lifetime });
+    }
+
+    /**
+     * Unexpired payload of `sessionId`; a payload that is not valid JSON reads as an empty session.
+     */
+    public override async read(sessionId: string): Promise<Record<string, unknown> | null> {
+        const rows = await this.connection.query<SessionRow>(
+            `SELECT payload, last_activity FROM ${this.options.table} WHERE id = ?`,
+            [sessionId],
+        );
+        const row = rows[0];
+        if (row === undefined || Number(row.last_activity) < this.expiredBefore()) {
+            return null;
+        }
+
+        return parsePayload(row.payload);
+    }
+
+    public override async write(sessionId: string, data: Record<string, unknown>): Promise<void> {
+        const client = this.clients.get(sessionId);
+        this.clients.delete(sessionId);
+        const userId = data[this.options.userKey];
+
+        await super.write(sessionId, data);
+        await this.connection.execute(
+            `UPDATE ${this.options.table} SET
+                user_id = ?,
+                ip_address = COALESCE(?, ip_address),
+                user_agent = COALESCE(?, user_agent),
+                last_activity = ?
+            WHERE id = ?`,
+            [
+                userId === undefined || userId === null ? null : Number(userId),
+                client?.ipAddress ?? null,
+                client?.userAgent ?? null,
+                this.timestamp(),
+                sessionId,
+            ],
+        );
+    }
+
+    public override async destroy(sessionId: string): Promise<void> {
+        this.clients.delete(sessionId);
+        await super.destroy(sessionId);
+    }
+
+    public override async exists(sessionId: string): Promise<boolean> {
+        return (await this.read(sessionId)) !== null;
+    }
+
+    /**
+     * Delete sessions idle longer than the lifetime; returns how many were removed.
+     */
+    public async gc(): Promise<number> {
+        const cutoff = this.expiredBefore();
+        const [row] = await this.connection.query<{ aggregate: number | string }>(
+            `SELECT COUNT(*) AS aggregate FROM ${this.options.table} WHERE last_activity < ?`,
+            [cutoff],
+        );
+        await this.connection.execute(`DELETE FROM ${this.options.table} WHERE last_activity < ?`, [cutoff]);
+        return Number(row?.aggregate ?? 0);
+    }
+
+    /**
+     * Remember who is behind `sessionId` for its next {@link write}
+     * (called by the `session` middleware right before saving).
+     */
+    public recordClient(sessionId: string, client: SessionClient): void {
+        this.clients.set(sessionId, client);
+    }
+
+    private timestamp(): number {
+        return Math.floor(this.now().getTime() / 1000);
+    }
+
+    private expiredBefore(): number {
+        return this.timestamp() - this.options.lifetime * 60;
+    }
+}
+
+function parsePayload(raw: string): Record<string, unknown> {
+    try {
+        const payload: unknown = JSON.parse(raw);
+        return typeof payload === "object" && payload !== null && !Array.isArray(payload)
+            ? (payload as Record<string, unknown>)
+            : {};
+    } catch {
+        return {};
+    }
+}
@@ -0,0 +1,25 @@
+import type { DatabaseManager } from "@ninots/orm";
+import type { SessionConnectionInterface } from "@ninots/session";
+import { getDatabaseManager } from "@/bootstrap/database";
+
+/**
+ * Adapts an `@ninots/orm` connection to the session package's {@link SessionConnectionInterface},
+ * so `DatabaseDriver` runs on the app's configured database.
+ */
+export class OrmSessionConnection implements SessionConnectionInterface {
+    /**
+     * @param connection Connection name from `config/database.ts`; the default one when omitted.
+     */
+    constructor(
+        private readonly database: () => DatabaseManager = getDatabaseManager,
+        private readonly connection?: string,
+    ) {}
+
+    public async query<T = Record<string, unknown>>(sql: string, bindings: unknown[] = []): Promise<T[]> {
+        return this.database().connection(this.connection).query<T>(sql, bindings);
+    }
+
+    public async execute(sql: string, bindings: unknown[] = []): Promise<void> {
+        await this.database().connection(this.connection).run(sql, bindings);
+    }
+}
@@ -0,0 +1,69 @@
+import { readdir, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { FileDriver, type SessionDriver } from "@ninots/session";
+import { DatabaseSessionDriver } from "./DatabaseSessionDriver";
+
+export type SessionGarbageCollectorOptions = {
+    /** Lifetime in minutes; sessions idle longer are removed. */
+    lifetime: number;
+    /** File driver storage path. */
+    files: string;
+    /** `[chances, outOf]` odds of collecting during a request. */
+    lottery: [number, number];
+};
+
+/**
+ * Removes expired sessions for drivers that keep them server-side (file, database).
+ *
+ * Cookie sessions live in the browser and Redis keys expire on their own, so
+ * {@link collect} is a no-op for those drivers.
+ */
+export class SessionGarbageCollector {
+    constructor(
+        private readonly driver: SessionDriver,
+        private readonly options: SessionGarbageCollectorOptions,
+        private readonly now: () => Date = () => new Date(),
+        private readonly random: () => number = Math.random,
+    ) {}
+
+    /**
+     * Whether this request should also collect garbage (`session.lottery`).
+     */
+    public hitsLottery(): boolean {
+        const [chances, outOf] = this.options.lottery;
+        return outOf > 0 && this.random() * outOf < chances;
+    }
+
+    /**
+     * Delete expired sessions; returns how many were removed.
+     */
+    public async collect(): Promise<number> {
+        if (this.driver instanceof DatabaseSessionDriver) {
+            return this.driver.gc();
+        }
+        if (this.driver instanceof FileDriver) {
+            return this.pruneFiles();
+        }
+        return 0;
+    }
+
+    private async pruneFiles(): Promise<number> {
+        const cutoff = this.now().getTime() - this.options.lifetime * 60_000;
+        const entries = await readdir(this.options.files, { withFileTypes: true }).catch(() => []);
+        let removed = 0;
+
+        for (const entry of entries) {
+            // Skip `.gitignore` and friends kept in the storage directory.
+            if (!entry.isFile() || entry.name.startsWith(".")) {
+                continue;
+            }
+            const path = join(this.options.files, entry.name);
+            if ((await stat(path)).mtimeMs < cutoff) {
+                await rm(path, { force: true });
+                removed += 1;
+            }
+        }
+
+        return removed;
+    }
+}
@@ -0,0 +1,131 @@
+import { SessionAuthStoreAdapter } from "./SessionAuthStoreAdapter";
+
+type FlashKeys = { old: string[]; new: string[] };
+
+const FLASH_KEY = "_flash";
+const OLD_INPUT_KEY = "_old_input";
+
+/** Input never flashed back into forms. */
+const DONT_FLASH = ["_token", "password", "password_confirmation", "current_password"];
+
+/**
+ * Per-request session started by the `session` middleware.
+ *
+ * Adds flash data (kept for exactly one more request) and old input on top of
+ * the auth store, so the same instance backs `auth()` and `session()`.
+ */
+export class SessionStore extends SessionAuthStoreAdapter {
+    public getId(): string {
+        return this.unwrap().getId();
+    }
+
+    public has(key: string): boolean {
+        return this.get(key) !== undefined;
+    }
+
+    public all(): Record<string, unknown> {
+        return this.unwrap().all();
+    }
+
+    /**
+     * Read and forget a value.
+     */
+    public pull<T = unknown>(key: string, defaultValue?: T): T {
+        const value = this.get<T>(key, defaultValue);
+        this.forget(key);
+        return value;
+    }
+
+    /**
+     * Store `value` for this and the next request only.
+     */
+    public flash(key: string, value: unknown): void {
+        this.put(key, value);
+        const flash = this.flashKeys();
+        this.putFlashKeys({ old: without(flash.old, [key]), new: [...without(flash.new, [key]), key] });
+    }
+
+    /**
+     * Store `value` for the current request only.
+     */
+    public now(key: string, value: unknown): void {
+        this.put(key, value);
+        const flash = this.flashKeys();
+        this.putFlashKeys({ old: [...without(flash.old, [key]), key], new: flash.new });
+    }
+
+    /**
+     * Keep all flash data from the previous request for one more request.
+     */
+    public reflash(): void {
+        const flash = this.flashKeys();
+        this.putFlashKeys({ old: [], new: [...without(flash.new, flash.old), ...flash.old] });
+    }
+
+    /**
+     * Keep the given flash keys from the previous request for one more request.
+     */
+    public keep(...keys: string[]): void {
+        const flash = this.flashKeys();
+        const kept = flash.old.filter((key) => keys.includes(key));
+        this.putFlashKeys({ old: without(flash.old, kept), new: [...without(flash.new, kept), ...kept] });
+    }
+
+    /**
+     * Flash submitted input (minus tokens and passwords) for {@link old}.
+     */
+    public flashInput(input: Record<string, unknown>): void {
+        const kept: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(input)) {
+            if (!DONT_FLASH.includes(key) && (typeof value !== "object" || value === null)) {
+                kept[key] = value;
+            }
+        }
+        this.flash(OLD_INPUT_KEY, kept);
+    }
+
+    /**
+     * Input flashed by the previous request, e.g. to refill a form after a failed submission.
+     */
+    public old<T = string>(key: string, defaultValue?: T): T | undefined {
+        const input = this.get<Record<string, unknown> | undefined>(OLD_INPUT_KEY);
+        return (input?.[key] as T | undefined) ?? defaultValue;
+    }
+
+    public hasOldInput(key?: string): boolean {
+        const input = this.get<Record<string, unknown> | undefined>(OLD_INPUT_KEY);
+        return key === undefined ? input !== undefined : input?.[key] !== undefined;
+    }
+
+    /**
+     * Drop last request's flash data and age this request's into "old" —
+     * called by the middleware once the response is built.
+     */
+    public ageFlashData(): void {
+        const flash = this.flashKeys();
+        for (const key of flash.old) {
+            this.forget(key);
+        }
+        if (flash.new.length === 0) {
+            this.forget(FLASH_KEY);
+            return;
+        }
+        this.putFlashKeys({ old: flash.new, new: [] });
+    }
+
+    public async save(): Promise<void> {
+        await this.unwrap().save();
+    }
+
+    private flashKeys(): FlashKeys {
+        return this.get<FlashKeys | undefined>(FLASH_KEY) ?? { old: [], new: [] };
+    }
+
+    private putFlashKeys(flash: FlashKeys): void {
+        this.put(FLASH_KEY, flash);
+    }
+}
+
+function without(keys: string[], remove: string[]): string[] {
+    return keys.filter((key) => !remove.includes(key));
+}
@@ -0,0 +1,144 @@
+import { CookieDriver, type SessionDriver } from "@ninots/session";
+import type { SessionClient } from "./DatabaseSessionDriver";
+
+export type UserSessionIndexOptions = {
+    /** Lifetime in minutes; sessions idle longer are dropped from the index. */
+    lifetime: number;
+    /** Payload key holding the authenticated user id (the session guard's `sessionKey()`). */
+    userKey: string;
+};
+
+/**
+ * A stored, unexpired session of one user.
+ */
+export type ActiveSession = {
+    id: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    lastActivity: Date;
+};
+
+type IndexEntry = { ipAddress: string | null; userAgent: string | null; lastActivity: number };
+
+/** Re-write an unchanged entry at most this often (seconds), not on every request. */
+const TOUCH_INTERVAL = 60;
+
+/**
+ * Which sessions belong to which user, kept next to the sessions themselves.
+ *
+ * Each user gets one extra record (`user-sessions.<id>`) in the session driver,
+ * so file, redis and database sessions can all be listed and revoked. Entries are
+ * checked against the session's payload when read, so sessions that expired,
+ * were destroyed or logged out drop out on their own.
+ */
+export class UserSessionIndex {
+    constructor(
+        private readonly driver: SessionDriver,
+        private readonly options: UserSessionIndexOptions,
+        private readonly now: () => Date = () => new Date(),
+    ) {}
+
+    /**
+     * Whether sessions live server-side — cookie sessions cannot be listed or revoked.
+     */
+    public supported(): boolean {
+        return !(this.driver instanceof CookieDriver);
+    }
+
+    /**
+     * Note that `sessionId` (with `payload` just saved) was used from `client`
+     * (called by the `session` middleware after saving).
+     */
+    public async record(sessionId: string, payload: Record<string, unknown>, client: SessionClient): Promise<void> {
+        const userId = payload[this.options.userKey];
+        if (userId === undefined || userId === null || !this.supported()) {
+            return;
+        }
+
+        const entries = await this.entries(String(userId));
+        const previous = entries[sessionId];
+        const timestamp = this.timestamp();
+        if (
+            previous !== undefined &&
+            previous.ipAddress === client.ipAddress &&
+            previous.userAgent === client.userAgent &&
+            timestamp - previous.lastActivity < TOUCH_INTERVAL
+        ) {
+            return;
+        }
+
+        entries[sessionId] = { ...client, lastActivity: timestamp };
+        await this.save(String(userId), entries);
+    }
+
+    /**
+     * Unexpired sessions still signed in as `userId`, most recently active first.
+     *
+     * @throws Error for the cookie driver
+     */
+    public async sessionsFor(userId: number | string): Promise<ActiveSession[]> {
+        this.assertSupported();
+        const entries = await this.entries(String(userId));
+        const cutoff = this.timestamp() - this.options.lifetime * 60;
+        const sessions: ActiveSession[] = [];
+        let pruned = false;
+
+        for (const [id, entry] of Object.entries(entries)) {
+            const payload = entry.lastActivity >= cutoff ? await this.driver.read(id) : null;
+            if (payload === null || String(payload[this.options.userKey]) !== String(userId)) {
+                delete entries[id];
+                pruned = true;
+                continue;
+            }
+            sessions.push({
+                id,
+                ipAddress: entry.ipAddress,
+                userAgent: entry.userAgent,
+                lastActivity: new Date(entry.lastActivity * 1000),
+            });
+        }
+
+        if (pruned) {
+            await this.save(String(userId), entries);
+        }
+        return sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+    }
+
+    /**
+     * Drop `sessionId` from the sessions of `userId`.
+     */
+    public async forget(userId: number | string, sessionId: string): Promise<void> {
+        const entries = await this.entries(String(userId));
+        if (entries[sessionId] !== undefined) {
+            delete entries[sessionId];
+            await this.save(String(userId), entries);
+        }
+    }
+
+    private async entries(userId: string): Promise<Record<string, IndexEntry>> {
+        const stored = (await this.driver.read(indexId(userId)))?.sessions;
+        return typeof stored === "object" && stored !== null ? { ...(stored as Record<string, IndexEntry>) } : {};
+    }
+
+    private async save(userId: string, entries: Record<string, IndexEntry>): Promise<void> {
+        if (Object.keys(entries).length === 0) {
+            await this.driver.destroy(indexId(userId));
+            return;
+        }
+        await this.driver.write(indexId(userId), { sessions: entries });
+    }
+
+    private assertSupported(): void {
+        if (!this.supported()) {
+            throw new Error("Cookie sessions live in the browser and cannot be listed or revoked.");
+        }
+    }
+
+    private timestamp(): number {
+        return Math.floor(this.now().getTime() / 1000);
+    }
+}
+
+function indexId(userId: string): string {
+    return `user-sessions.${userId}`;
+}
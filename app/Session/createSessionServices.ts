@@ -1,8 +1,14 @@
 import type { SessionConfig, SessionDriver, SessionRedisClient } from "@ninots/session";
 import { CookieDriver, FileDriver, RedisDriver, SessionManager } from "@ninots/session";
 import { RedisClient } from "bun";
+import { SESSION_GUARD, SessionGuard } from "@/app/Auth/SessionGuard";
+import type { CookieOptions } from "@/app/Http/cookies";
 import sessionConfig from "@/config/session";
+import { DatabaseSessionDriver } from "./DatabaseSessionDriver";
+import { SessionGarbageCollector } from "./SessionGarbageCollector";
 import { SessionAuthStoreAdapter } from "./SessionAuthStoreAdapter";
+import { SessionStore } from "./SessionStore";
+import { UserSessionIndex } from "./UserSessionIndex";
 
 /**
  * Build a {@link SessionConfig} from app config (fills required cookie fields).
@@ -22,6 +28,19 @@ export function buildSessionConfig(): SessionConfig {
     };
 }
 
+/**
+ * Attributes for the session cookie (also used for the "remember me" cookie).
+ */
+export function sessionCookieOptions(): CookieOptions {
+    return {
+        path: sessionConfig.path,
+        secure: sessionConfig.secure,
+        httpOnly: sessionConfig.httpOnly,
+        sameSite: sessionConfig.sameSite,
+        ...(sessionConfig.domain !== undefined ? { domain: sessionConfig.domain } : {}),
+    };
+}
+
 /**
  * Resolve Redis client for the session driver (`Bun.redis` or `REDIS_URL`).
  * Adapts Bun's `exists` (boolean) to {@link SessionRedisClient} (number).
@@ -59,8 +78,7 @@ function resolveSessionRedisClient(): SessionRedisClient {
 /**
  * Resolve the concrete session driver for the configured `driver` name.
  *
- * Database requires an app-injected {@link import("@ninots/session").DatabaseDriver}
- * — register it in the container instead of using this helper.
+ * `database` stores sessions through the app's ORM connection (see {@link DatabaseSessionDriver}).
  */
 export function resolveSessionDriver(config: SessionConfig = buildSessionConfig()): SessionDriver {
     switch (config.driver) {
@@ -69,10 +87,11 @@ export function resolveSessionDriver(config: SessionConfig = buildSessionConfig(
         case "file":
             return new FileDriver(config.files);
         case "database":
-            throw new Error(
-                'Session driver "database" requires injecting DatabaseDriver (SessionConnectionInterface). ' +
-                    "Override the SessionManager binding in a service provider.",
-            );
+            return new DatabaseSessionDriver({
+                table: config.table ?? sessionConfig.table,
+                lifetime: config.lifetime,
+                userKey: SessionGuard.sessionKeyFor(SESSION_GUARD),
+            });
         case "redis":
             return new RedisDriver(resolveSessionRedisClient(), {
                 lifetime: config.lifetime,
@@ -93,6 +112,27 @@ export function createSessionManager(driver?: SessionDriver): SessionManager {
     return new SessionManager(driver ?? resolveSessionDriver(config), config);
 }
 
+/**
+ * Create the {@link SessionGarbageCollector} for `driver` from `config/session.ts`.
+ */
+export function createSessionGarbageCollector(driver: SessionDriver): SessionGarbageCollector {
+    return new SessionGarbageCollector(driver, {
+        lifetime: sessionConfig.lifetime,
+        files: sessionConfig.files,
+        lottery: sessionConfig.lottery,
+    });
+}
+
+/**
+ * Create the {@link UserSessionIndex} over `driver` from `config/session.ts`.
+ */
+export function createUserSessionIndex(driver: SessionDriver): UserSessionIndex {
+    return new UserSessionIndex(driver, {
+        lifetime: sessionConfig.lifetime,
+        userKey: SessionGuard.sessionKeyFor(SESSION_GUARD),
+    });
+}
+
 /**
  * Load (or create) a session and wrap it as auth's AuthSessionStore.
  */
@@ -104,6 +144,17 @@ export async function createAuthSessionStore(
     return new SessionAuthStoreAdapter(session);
 }
 
+/**
+ * Load the session for `sessionId` (or start a new one) as a {@link SessionStore}.
+ */
+export async function startSessionStore(manager: SessionManager, sessionId?: string): Promise<SessionStore> {
+    const session = sessionId !== undefined ? await manager.getOrCreate(sessionId) : await manager.create();
+    return new SessionStore(session);
+}
+
+/** Container key for the {@link SessionDriver} behind the {@link SessionManager}. */
+export const SESSION_DRIVER_KEY = "SessionDriver";
+
 /** Container key for {@link SessionManager}. */
 export const SESSION_MANAGER_KEY = "SessionManager";
 
@@ -0,0 +1,30 @@
+import type { SessionStore } from "./SessionStore";
+
+const sessions = new WeakMap<Request, SessionStore>();
+
+/**
+ * Attach the started session to the request (called by the `session` middleware).
+ */
+export function setRequestSession(request: Request, store: SessionStore): void {
+    sessions.set(request, store);
+}
+
+/**
+ * Whether the request runs behind the `session` middleware.
+ */
+export function hasSession(request: Request): boolean {
+    return sessions.has(request);
+}
+
+/**
+ * The request's session.
+ *
+ * @throws Error when the route is not behind the `session` middleware
+ */
+export function session(request: Request): SessionStore {
+    const store = sessions.get(request);
+    if (store === undefined) {
+        throw new Error("No session on this request — add the `session` middleware (part of `web`).");
+    }
+    return store;
+}
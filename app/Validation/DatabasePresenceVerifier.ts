@@ -0,0 +1,42 @@
+import type { DatabaseManager } from "@ninots/orm";
+import { getDatabaseManager } from "@/bootstrap/database";
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Database lookups for `unique:` / `exists:` validation rules.
+ *
+ * Table and column names come from rule strings, so they are checked against
+ * a strict identifier pattern before being interpolated into SQL.
+ */
+export class DatabasePresenceVerifier {
+    constructor(private readonly database: DatabaseManager = getDatabaseManager()) {}
+
+    /**
+     * Count rows where `column = value`, optionally excluding one primary key.
+     */
+    public async getCount(
+        table: string,
+        column: string,
+        value: unknown,
+        excludeId?: string,
+        idColumn = "id",
+    ): Promise<number> {
+        for (const identifier of [table, column, idColumn]) {
+            if (!IDENTIFIER.test(identifier)) {
+                throw new Error(`Invalid identifier in validation rule: ${identifier}`);
+            }
+        }
+
+        const bindings: unknown[] = [value];
+        let sql = `SELECT COUNT(*) AS aggregate FROM ${table} WHERE ${column} = ?`;
+
+        if (excludeId !== undefined && excludeId.length > 0 && excludeId !== "NULL") {
+            sql += ` AND ${idColumn} <> ?`;
+            bindings.push(excludeId);
+        }
+
+        const rows = await this.database.connection().query<{ aggregate: number | string }>(sql, bindings);
+        return Number(rows[0]?.aggregate ?? 0);
+    }
+}
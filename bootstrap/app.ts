@@ -1,10 +1,20 @@
-import { Application, createServeOptions, wireCoreServices } from "@ninots/foundation";
+import {
+    Application,
+    createServeOptions,
+    MIDDLEWARE_STACK_KEY,
+    ROUTER_KEY,
+    wireCoreServices,
+} from "@ninots/foundation";
 import type { WireCoreServicesDeps } from "@ninots/foundation";
 import { Container } from "@ninots/container";
 import { EventDispatcher, SyncBus } from "@ninots/events";
-import { MiddlewareStack, Pipeline } from "@ninots/middleware";
+import { Pipeline } from "@ninots/middleware";
 import { Router, setRouteResolver } from "@ninots/routing";
-import type { Serve } from "bun";
+import type { Serve, Server } from "bun";
+import { EXCEPTION_HANDLER_KEY, type ExceptionHandler } from "@/app/Exceptions/Handler";
+import { rememberClientIp } from "@/app/Http/clientIp";
+import { isPreflightRequest, preflightResponse } from "@/app/Http/Middleware/CorsMiddleware";
+import { ParameterizedMiddlewareStack } from "@/app/Http/Middleware/ParameterizedMiddlewareStack";
 import appConfig from "@/config/app";
 import hmrDemoPage from "@/resources/hmr-demo/hmr-demo.html";
 import { getDatabaseManager } from "./database";
@@ -14,6 +24,24 @@ type AppServeOptions = Serve.Options<undefined> & { unix?: undefined };
 
 export { createServeOptions };
 
+function routePathPattern(path: string): RegExp {
+    const escaped = path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/:[A-Za-z_][A-Za-z0-9_]*/g, "[^/]+");
+    return new RegExp(`^${escaped}/?$`);
+}
+
+/**
+ * Whether a route matching `pathname` runs the `cors` middleware (directly or
+ * through an alias such as `api`) — only those paths get preflights answered.
+ */
+function hasCorsRouteForPath(router: Router, stack: ParameterizedMiddlewareStack, pathname: string): boolean {
+    for (const route of router.getRoutes()) {
+        if (routePathPattern(route.getPath()).test(pathname) && stack.expand(route.getMiddleware()).includes("cors")) {
+            return true;
+        }
+    }
+    return false;
+}
+
 /**
  * Bootstrap the application.
  *
@@ -32,7 +60,7 @@ export async function bootstrap(): Promise<Application> {
 
     const deps: WireCoreServicesDeps = {
         router: new Router(),
-        middlewareStack: new MiddlewareStack(),
+        middlewareStack: new ParameterizedMiddlewareStack(),
         eventDispatcher: new EventDispatcher(),
         syncBus: new SyncBus("sync"),
         setRouteResolver: (router) => {
@@ -55,10 +83,17 @@ export async function bootstrap(): Promise<Application> {
  * `/hmr-demo`. The typed Router remains the source of truth for named routes;
  * HTML routes are additive and do not regenerate `RouteRegistry`.
  *
+ * Errors escaping the router (routes outside the `web` group) are rendered by
+ * the container's {@link ExceptionHandler}, which needs the request to pick
+ * JSON vs HTML — hence the `fetch` wrapper rather than Bun's `error` hook.
+ * The same wrapper answers CORS preflights for paths whose route runs the
+ * `cors` middleware, since the router has no `OPTIONS` routes to run it for.
+ *
  * @param app - Booted application instance
  * @returns Bun.serve configuration
  */
 export function createAppServeOptions(app: Application): AppServeOptions {
+    const exceptions = app.make<ExceptionHandler>(EXCEPTION_HANDLER_KEY);
     const options = createServeOptions(app, {
         error(_error: Error): Response {
             return new Response("Internal Server Error", { status: 500 });
@@ -66,6 +101,32 @@ export function createAppServeOptions(app: Application): AppServeOptions {
         idleTimeout: 30,
     }) as AppServeOptions;
 
+    const fetchHandler = options.fetch;
+    if (fetchHandler !== undefined) {
+        options.fetch = async function (
+            this: Server<undefined>,
+            request: Request,
+            server: Server<undefined>,
+        ): Promise<Awaited<ReturnType<typeof fetchHandler>>> {
+            rememberClientIp(request, server.requestIP(request)?.address);
+            if (
+                isPreflightRequest(request) &&
+                hasCorsRouteForPath(
+                    app.make<Router>(ROUTER_KEY),
+                    app.make<ParameterizedMiddlewareStack>(MIDDLEWARE_STACK_KEY),
+                    new URL(request.url).pathname,
+                )
+            ) {
+                return preflightResponse(request);
+            }
+            try {
+                return await fetchHandler.call(this, request, server);
+            } catch (error) {
+                return exceptions.handle(request, error);
+            }
+        };
+    }
+
     options.development = app.getConfig().development;
     options.routes = {
         "/hmr-demo": hmrDemoPage,
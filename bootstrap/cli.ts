@@ -17,15 +17,43 @@ import {
 import { Migrator, SeederRunner } from "@ninots/orm";
 import type { CacheManager } from "@ninots/cache";
 import type { JobRegistry, QueueManager } from "@ninots/queue";
-import { runQueueWork } from "@ninots/queue";
 import { emitRouteRegistry, startRoutesAutoHook } from "@ninots/routing";
-import { CACHE_MANAGER_KEY } from "@/app/Cache/createCacheServices";
-import { JOB_REGISTRY_KEY, QUEUE_MANAGER_KEY } from "@/app/Queue/createQueueServices";
+import { CACHE_MANAGER_KEY, isSharedCacheStore, sharedCacheStore } from "@/app/Cache/createCacheServices";
+import { EventCacheCommand } from "@/app/Console/Commands/EventCacheCommand";
+import { EventClearCommand } from "@/app/Console/Commands/EventClearCommand";
+import { EventListCommand } from "@/app/Console/Commands/EventListCommand";
+import { MakeMailCommand } from "@/app/Console/Commands/MakeMailCommand";
+import { MakeResourceCommand } from "@/app/Console/Commands/MakeResourceCommand";
+import { QueueFailedCommand } from "@/app/Console/Commands/QueueFailedCommand";
+import { QueueFlushCommand } from "@/app/Console/Commands/QueueFlushCommand";
+import { QueueForgetCommand } from "@/app/Console/Commands/QueueForgetCommand";
+import { QueueRestartCommand } from "@/app/Console/Commands/QueueRestartCommand";
+import { QueueRetryCommand } from "@/app/Console/Commands/QueueRetryCommand";
+import { QueueTableCommand } from "@/app/Console/Commands/QueueTableCommand";
+import { ScheduleListCommand } from "@/app/Console/Commands/ScheduleListCommand";
+import { ScheduleRunCommand } from "@/app/Console/Commands/ScheduleRunCommand";
+import { ScheduleWorkCommand } from "@/app/Console/Commands/ScheduleWorkCommand";
+import { SessionGcCommand } from "@/app/Console/Commands/SessionGcCommand";
+import { SessionTableCommand } from "@/app/Console/Commands/SessionTableCommand";
+import { TokenCreateCommand } from "@/app/Console/Commands/TokenCreateCommand";
+import { TokenRevokeCommand } from "@/app/Console/Commands/TokenRevokeCommand";
+import { Schedule } from "@/app/Console/Scheduling/Schedule";
+import { createEventDiscovery } from "@/app/Events/createEventServices";
+import { EventListenerRegistrar } from "@/app/Events/EventListenerRegistrar";
+import { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+import { SessionGarbageCollector } from "@/app/Session/SessionGarbageCollector";
+import { createFailedJobStore, JOB_REGISTRY_KEY, QUEUE_MANAGER_KEY } from "@/app/Queue/createQueueServices";
+import { Bus } from "@/app/Queue/Bus";
+import { isReservableQueue, type ReservableQueue } from "@/app/Queue/ReservableQueue";
+import type { FailedJobStore } from "@/app/Queue/FailedJobStore";
+import { Worker } from "@/app/Queue/Worker";
 import { bootstrap, createAppServeOptions } from "@/bootstrap/app";
 import { getDatabaseManager } from "@/bootstrap/database";
 import { resolveFreshRouter } from "@/bootstrap/resolveFreshRouter";
+import appConfig from "@/config/app";
 import databaseConfig from "@/config/database";
 import { DatabaseSeeder } from "@/database/seeders/DatabaseSeeder";
+import { registerConsoleRoutes } from "@/routes/console";
 import packageJson from "../package.json";
 
 const migrationsPath = path.join(process.cwd(), databaseConfig.migrations.directory);
@@ -44,6 +72,43 @@ function resolveSeederRunner(): SeederRunner {
     return new SeederRunner(DatabaseSeeder);
 }
 
+function resolveTokens(): PersonalAccessTokenService {
+    getDatabaseManager();
+    return new PersonalAccessTokenService();
+}
+
+function resolveFailedJobs(): FailedJobStore {
+    getDatabaseManager();
+    return createFailedJobStore();
+}
+
+async function resolveFailedJobQueue(connection: string): Promise<ReservableQueue> {
+    const queue: unknown = (await bootstrap()).make<QueueManager>(QUEUE_MANAGER_KEY).connection(connection);
+    if (!isReservableQueue(queue)) {
+        throw new Error(`Failed jobs can only be retried on the "database" or "redis" connection, not [${connection}]`);
+    }
+    return queue;
+}
+
+async function resolveSessionCollector(): Promise<SessionGarbageCollector> {
+    const app = await bootstrap();
+    return app.make<SessionGarbageCollector>(SessionGarbageCollector.name);
+}
+
+async function resolveSchedule(): Promise<Schedule> {
+    const app = await bootstrap();
+    const bus = app.make<Bus>(Bus.name);
+    const schedule = new Schedule({
+        cache: sharedCacheStore(app.make<CacheManager>(CACHE_MANAGER_KEY)),
+        runCommand: (argv) => kernel.run(argv),
+        dispatch: (job) => bus.dispatch(job),
+        timezone: appConfig.timezone,
+        environment: appConfig.env,
+    });
+    registerConsoleRoutes(schedule);
+    return schedule;
+}
+
 class HelpCommand extends Command {
     protected override signature = "help";
     protected override description = "Display available commands";
@@ -191,8 +256,14 @@ class CacheClearCommand extends Command {
     }
 }
 
+function numberOption(value: unknown, fallback: number): number {
+    const parsed = typeof value === "string" && value.length > 0 ? Number(value) : Number.NaN;
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
 class QueueWorkCommand extends Command {
-    protected override signature = "queue:work {--queue=} {--sleep=1000}";
+    protected override signature =
+        "queue:work {--queue=} {--sleep=1000} {--tries=1} {--timeout=60} {--concurrency=1} {--max-jobs=0} {--max-time=0} {--memory=128} {--once} {--stop-when-empty}";
     protected override description = "Process jobs on the queue";
 
     public async handle(): Promise<number> {
@@ -200,12 +271,20 @@ class QueueWorkCommand extends Command {
         const manager = app.make<QueueManager>(QUEUE_MANAGER_KEY);
         const registry = app.make<JobRegistry>(JOB_REGISTRY_KEY);
         const queueOption = this.option("queue");
-        const sleepOption = this.option("sleep");
-        const sleepMs = typeof sleepOption === "string" && sleepOption.length > 0 ? Number(sleepOption) : 1000;
         const queueName = typeof queueOption === "string" && queueOption.length > 0 ? queueOption : undefined;
+        const once = this.option("once") === true;
+        const connection = manager.connection();
+        if (!isReservableQueue(connection)) {
+            this.warn(
+                `Connection [${manager.getDefaultConnection()}] runs jobs as they are dispatched; nothing to work`,
+            );
+            return 1;
+        }
 
+        // The first signal lets in-flight jobs finish; a second one exits immediately.
         const abortController = new AbortController();
         const stop = (): void => {
+            this.info("Stopping after the current job...");
             abortController.abort();
         };
         process.once("SIGINT", stop);
@@ -214,19 +293,34 @@ class QueueWorkCommand extends Command {
         this.info(`Queue worker started (connection: ${manager.getDefaultConnection()})`);
         this.info("Press Ctrl+C to stop");
 
-        await runQueueWork({
-            queue: manager.connection(),
+        // failed_jobs lives in the app database whatever the queue connection.
+        getDatabaseManager();
+        const reason = await new Worker({
+            connection: manager.getDefaultConnection(),
+            queue: connection,
             registry,
-            queueName,
-            sleepMs: Number.isFinite(sleepMs) ? sleepMs : 1000,
+            failedJobs: createFailedJobStore(),
+            tries: numberOption(this.option("tries"), 1),
+            timeout: numberOption(this.option("timeout"), 60),
+            cache: sharedCacheStore(app.make<CacheManager>(CACHE_MANAGER_KEY)),
+        }).run({
+            queue: queueName,
+            sleepMs: numberOption(this.option("sleep"), 1000),
             signal: abortController.signal,
-            onError: (error, jobName) => {
+            onError: (error: unknown, jobName: string) => {
                 const msg = error instanceof Error ? error.message : String(error);
                 this.warn(`Job [${jobName}] failed: ${msg}`);
             },
+            concurrency: numberOption(this.option("concurrency"), 1),
+            maxJobs: once ? 1 : numberOption(this.option("max-jobs"), 0),
+            maxTime: numberOption(this.option("max-time"), 0),
+            memory: numberOption(this.option("memory"), 128),
+            stopWhenEmpty: once || this.option("stop-when-empty") === true,
         });
+        this.info(`Queue worker stopped (${reason})`);
 
-        this.info("Queue worker stopped");
+        process.off("SIGINT", stop);
+        process.off("SIGTERM", stop);
         return 0;
     }
 }
@@ -272,6 +366,29 @@ kernel.register(
         resolveSeederRunner,
     }),
 );
+kernel.register(new TokenCreateCommand({ resolveTokens }));
+kernel.register(new TokenRevokeCommand({ resolveTokens }));
+kernel.register(new QueueFailedCommand({ resolveFailedJobs }));
+kernel.register(new QueueRetryCommand({ resolveFailedJobs, resolveQueue: resolveFailedJobQueue }));
+kernel.register(new QueueForgetCommand({ resolveFailedJobs }));
+kernel.register(new QueueFlushCommand({ resolveFailedJobs }));
+kernel.register(
+    new QueueRestartCommand({
+        resolveCache: async () => sharedCacheStore((await bootstrap()).make<CacheManager>(CACHE_MANAGER_KEY)),
+        sharedStore: isSharedCacheStore(),
+    }),
+);
+kernel.register(new SessionGcCommand({ resolveCollector: resolveSessionCollector }));
+kernel.register(
+    new EventListCommand({
+        resolveRegistrar: async () => (await bootstrap()).make<EventListenerRegistrar>(EventListenerRegistrar.name),
+    }),
+);
+kernel.register(new EventCacheCommand({ resolveDiscovery: () => createEventDiscovery() }));
+kernel.register(new EventClearCommand({ resolveDiscovery: () => createEventDiscovery() }));
+kernel.register(new ScheduleRunCommand({ resolveSchedule }));
+kernel.register(new ScheduleWorkCommand({ resolveSchedule }));
+kernel.register(new ScheduleListCommand({ resolveSchedule }));
 
 const generatorPaths = { basePath: process.cwd() };
 
@@ -280,6 +397,10 @@ kernel.register(new MakeModelCommand({ paths: generatorPaths }));
 kernel.register(new MakeMigrationCommand({ paths: generatorPaths }));
 kernel.register(new MakeViewCommand({ paths: generatorPaths }));
 kernel.register(new MakeModuleCommand({ paths: generatorPaths }));
+kernel.register(new MakeResourceCommand({ paths: generatorPaths }));
+kernel.register(new MakeMailCommand({ paths: generatorPaths }));
+kernel.register(new SessionTableCommand({ paths: generatorPaths }));
+kernel.register(new QueueTableCommand({ paths: generatorPaths }));
 
 const exitCode = await kernel.run(process.argv.slice(2));
 process.exit(exitCode);
@@ -2,7 +2,11 @@ export default {
     name: Bun.env.APP_NAME ?? "Ninots App",
     env: Bun.env.APP_ENV ?? "development",
     debug: (Bun.env.APP_DEBUG ?? "true") === "true",
+    /** Default timezone for scheduled tasks (IANA name, e.g. "Europe/Amsterdam"). */
+    timezone: Bun.env.APP_TIMEZONE ?? "UTC",
     url: Bun.env.APP_URL ?? "http://localhost:3000",
+    /** HMAC key for signed URLs — set a long random value in production. */
+    key: Bun.env.APP_KEY ?? "ninots-dev-app-key",
     port: Number.parseInt(Bun.env.PORT ?? "3000", 10),
     hostname: Bun.env.HOSTNAME ?? "0.0.0.0",
 };
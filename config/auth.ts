@@ -20,6 +20,33 @@ export default {
         },
     },
 
+    /**
+     * "Remember me" cookie lifetime in minutes
+     *
+     * @default 43200 (30 days)
+     */
+    remember: {
+        lifetime: Number(Bun.env.AUTH_REMEMBER_LIFETIME ?? 43200),
+    },
+
+    /**
+     * Personal access tokens (token guard)
+     */
+    tokens: {
+        /** Default lifetime in minutes for new tokens; `null` never expires. */
+        expiration: Bun.env.AUTH_TOKEN_EXPIRATION ? Number(Bun.env.AUTH_TOKEN_EXPIRATION) : null,
+        /** Minimum seconds between `last_used_at` writes for the same token. */
+        lastUsedInterval: 60,
+    },
+
+    /**
+     * Email verification links
+     */
+    verification: {
+        /** Minutes a signed verification link stays valid. */
+        expire: 60,
+    },
+
     /**
      * User providers
      */
@@ -24,6 +24,11 @@ export default {
         },
     },
 
+    /**
+     * Store holding rate limiter counters (default store when unset)
+     */
+    limiter: Bun.env.CACHE_LIMITER_STORE,
+
     /**
      * Cache prefix (used by redis store when store-level prefix omitted)
      */
@@ -5,15 +5,20 @@ export default {
     allowedMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
 
     /**
-     * Allowed headers
+     * Allowed headers ("*" reflects the preflight's requested headers)
      */
     allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Accept"],
 
     /**
-     * Allowed origins
+     * Allowed origins — exact matches, "*" for any, or wildcards such as "https://*.example.com"
      */
     allowedOrigins: ["http://localhost:3000"],
 
+    /**
+     * Allowed origin patterns, tested against the full Origin header
+     */
+    allowedOriginPatterns: [] as RegExp[],
+
     /**
      * Exposed headers
      */
@@ -0,0 +1,25 @@
+/**
+ * Event listener discovery.
+ *
+ * Listeners listed in `EventServiceProvider` are always registered. With
+ * discovery on, listeners under `directories` are registered too — the event
+ * comes from `@ListensTo(...)` or the type of `handle(event: X)`.
+ */
+export default {
+    /**
+     * Scan `directories` for listeners.
+     *
+     * @default false
+     */
+    discover: (Bun.env.EVENT_DISCOVERY ?? "false") === "true",
+
+    /**
+     * Directories (globs, relative to the project root) scanned for listeners.
+     */
+    directories: ["app/Listeners", "app/Modules/*/Listeners"],
+
+    /**
+     * Manifest written by `nino event:cache`; read instead of scanning when present.
+     */
+    cache: Bun.env.EVENT_CACHE ?? "storage/framework/events.json",
+};
@@ -0,0 +1,26 @@
+/**
+ * Password hashing configuration — backed by `Bun.password`.
+ */
+export default {
+    /**
+     * Default algorithm: argon2id | bcrypt
+     *
+     * @default 'argon2id'
+     */
+    driver: (Bun.env.HASH_DRIVER ?? "argon2id") as "argon2id" | "bcrypt",
+
+    /**
+     * Argon2id cost options.
+     */
+    argon: {
+        memoryCost: Number(Bun.env.ARGON_MEMORY ?? 65536),
+        timeCost: Number(Bun.env.ARGON_TIME ?? 2),
+    },
+
+    /**
+     * Bcrypt cost factor.
+     */
+    bcrypt: {
+        rounds: Number(Bun.env.BCRYPT_ROUNDS ?? 12),
+    },
+};
@@ -0,0 +1,16 @@
+/**
+ * Notification channels configuration.
+ *
+ * Mail and array channels come from `@ninots/notifications`; the `database`
+ * channel is the app's own and stores in-app notifications for the inbox API.
+ */
+export default {
+    database: {
+        /**
+         * Table for the `database` channel.
+         *
+         * @default 'notifications'
+         */
+        table: Bun.env.NOTIFICATIONS_TABLE ?? "notifications",
+    },
+};
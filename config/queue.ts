@@ -16,12 +16,36 @@ export default {
         sync: {
             driver: "sync" as const,
         },
+        database: {
+            driver: "database" as const,
+            /** Database connection name; defaults to `config/database.ts` → `default`. */
+            connection: Bun.env.DB_QUEUE_CONNECTION,
+            table: Bun.env.DB_QUEUE_TABLE ?? "jobs",
+            queue: Bun.env.DB_QUEUE ?? "default",
+            /** Seconds before a reserved job is handed out again (crashed worker). */
+            retryAfter: Number(Bun.env.DB_QUEUE_RETRY_AFTER ?? 90),
+        },
         redis: {
             driver: "redis" as const,
             queue: Bun.env.REDIS_QUEUE ?? "default",
             prefix: Bun.env.REDIS_PREFIX ?? "ninots:",
-            blockTimeoutSeconds: Number(Bun.env.QUEUE_BLOCK_TIMEOUT ?? 5),
+            /** Seconds before a reserved job is handed out again (crashed worker). */
+            retryAfter: Number(Bun.env.REDIS_QUEUE_RETRY_AFTER ?? 90),
             url: Bun.env.REDIS_URL,
         },
     },
+
+    /**
+     * Jobs that exhausted their attempts (`queue:failed`).
+     */
+    failed: {
+        table: Bun.env.QUEUE_FAILED_TABLE ?? "failed_jobs",
+    },
+
+    /**
+     * Progress and callbacks of job batches (`Bus.batch()`).
+     */
+    batching: {
+        table: Bun.env.QUEUE_BATCHING_TABLE ?? "job_batches",
+    },
 };
@@ -0,0 +1,14 @@
+/**
+ * Third-party service credentials.
+ */
+export default {
+    /**
+     * GitHub OAuth app — login is enabled when client id, secret and redirect URI are all set.
+     */
+    github: {
+        clientId: Bun.env.GITHUB_CLIENT_ID ?? "",
+        clientSecret: Bun.env.GITHUB_CLIENT_SECRET ?? "",
+        redirectUri: Bun.env.GITHUB_REDIRECT_URI ?? "",
+        scopes: ["read:user", "user:email"],
+    },
+};
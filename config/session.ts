@@ -1,8 +1,9 @@
 /**
  * Session configuration (Laravel-like).
  *
- * Driver implementations live in `@ninots/session`. Auth consumes an
- * `AuthSessionStore` adapter — see `SessionAuthStoreAdapter`.
+ * Driver implementations live in `@ninots/session`. The `session` middleware
+ * wraps each request's session in a `SessionStore` (flash data, old input),
+ * which the session guard also uses as its `AuthSessionStore`.
  */
 export default {
     /**
@@ -57,7 +58,15 @@ export default {
     files: Bun.env.SESSION_FILES ?? "storage/framework/sessions",
 
     /**
-     * Database driver table name.
+     * Odds of sweeping expired file / database sessions during a request
+     * (`[chances, outOf]`); `nino session:gc` does the same on demand.
+     *
+     * @default [2, 100]
+     */
+    lottery: [2, 100] as [number, number],
+
+    /**
+     * Database driver table name (`nino session:table` writes its migration).
      */
     table: Bun.env.SESSION_TABLE ?? "sessions",
 
@@ -7,6 +7,7 @@ export type UserFactoryAttributes = {
     password: string;
     avatar?: string | null;
     metadata?: Record<string, unknown> | null;
+    email_verified_at?: string | null;
 };
 
 /**
@@ -18,6 +19,7 @@ export class UserFactory extends Factory<User, UserFactoryAttributes> {
             email: fake.uniqueEmail(),
             name: fake.name(),
             password: fake.password(),
+            email_verified_at: new Date().toISOString(),
         };
     }
 
@@ -26,7 +28,7 @@ export class UserFactory extends Factory<User, UserFactoryAttributes> {
     }
 
     unverified() {
-        return this.state({ metadata: { email_verified_at: null } });
+        return this.state({ email_verified_at: null });
     }
 }
 
@@ -0,0 +1,13 @@
+import type { Connection, Migration } from "@ninots/orm";
+/**
+ * Add the "remember me" token column to users.
+ */
+export default class AddRememberTokenToUsersTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run("ALTER TABLE users ADD COLUMN remember_token TEXT");
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("ALTER TABLE users DROP COLUMN remember_token");
+    }
+}
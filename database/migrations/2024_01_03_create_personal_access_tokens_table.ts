@@ -0,0 +1,27 @@
+import type { Connection, Migration } from "@ninots/orm";
+/**
+ * Create personal access tokens table migration.
+ */
+export default class CreatePersonalAccessTokensTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS personal_access_tokens (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                name TEXT NOT NULL,
+                token TEXT NOT NULL UNIQUE,
+                abilities TEXT,
+                last_used_at TEXT,
+                expires_at TEXT,
+                created_at TEXT NOT NULL
+            )
+        `);
+        await connection.run(
+            "CREATE INDEX IF NOT EXISTS personal_access_tokens_user_id_index ON personal_access_tokens (user_id)",
+        );
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("DROP TABLE IF EXISTS personal_access_tokens");
+    }
+}
@@ -0,0 +1,19 @@
+import type { Connection, Migration } from "@ninots/orm";
+/**
+ * Create password reset tokens table migration (one pending token per email).
+ */
+export default class CreatePasswordResetTokensTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS password_reset_tokens (
+                email TEXT PRIMARY KEY,
+                token TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            )
+        `);
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("DROP TABLE IF EXISTS password_reset_tokens");
+    }
+}
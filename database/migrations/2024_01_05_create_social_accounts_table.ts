@@ -0,0 +1,25 @@
+import type { Connection, Migration } from "@ninots/orm";
+/**
+ * Create social accounts table migration (OAuth identities linked to users).
+ */
+export default class CreateSocialAccountsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS social_accounts (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                provider TEXT NOT NULL,
+                provider_user_id TEXT NOT NULL,
+                email TEXT,
+                nickname TEXT,
+                created_at TEXT NOT NULL,
+                UNIQUE (provider, provider_user_id)
+            )
+        `);
+        await connection.run("CREATE INDEX IF NOT EXISTS social_accounts_user_id_index ON social_accounts (user_id)");
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("DROP TABLE IF EXISTS social_accounts");
+    }
+}
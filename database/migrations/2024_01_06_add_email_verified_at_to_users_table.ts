@@ -0,0 +1,13 @@
+import type { Connection, Migration } from "@ninots/orm";
+/**
+ * Add the email verification timestamp to users.
+ */
+export default class AddEmailVerifiedAtToUsersTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run("ALTER TABLE users ADD COLUMN email_verified_at TEXT");
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run("ALTER TABLE users DROP COLUMN email_verified_at");
+    }
+}
@@ -0,0 +1,30 @@
+import type { Connection, Migration } from "@ninots/orm";
+import sessionConfig from "@/config/session";
+
+/**
+ * Create sessions table migration (`SESSION_DRIVER=database`).
+ */
+export default class CreateSessionsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS ${sessionConfig.table} (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER,
+                ip_address TEXT,
+                user_agent TEXT,
+                payload TEXT NOT NULL,
+                last_activity INTEGER NOT NULL
+            )
+        `);
+        await connection.run(
+            `CREATE INDEX IF NOT EXISTS ${sessionConfig.table}_user_id_index ON ${sessionConfig.table} (user_id)`,
+        );
+        await connection.run(
+            `CREATE INDEX IF NOT EXISTS ${sessionConfig.table}_last_activity_index ON ${sessionConfig.table} (last_activity)`,
+        );
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run(`DROP TABLE IF EXISTS ${sessionConfig.table}`);
+    }
+}
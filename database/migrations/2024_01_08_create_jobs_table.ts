@@ -0,0 +1,28 @@
+import type { Connection, Migration } from "@ninots/orm";
+import queueConfig from "@/config/queue";
+
+const table = queueConfig.connections.database.table;
+
+/**
+ * Create jobs table migration (`QUEUE_CONNECTION=database`).
+ */
+export default class CreateJobsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                queue TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                reserved_at INTEGER,
+                available_at INTEGER NOT NULL,
+                created_at INTEGER NOT NULL
+            )
+        `);
+        await connection.run(`CREATE INDEX IF NOT EXISTS ${table}_queue_index ON ${table} (queue)`);
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+}
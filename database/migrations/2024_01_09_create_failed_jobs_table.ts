@@ -0,0 +1,26 @@
+import type { Connection, Migration } from "@ninots/orm";
+import queueConfig from "@/config/queue";
+
+const table = queueConfig.failed.table;
+
+/**
+ * Create failed jobs table migration (jobs out of attempts, for `queue:retry`).
+ */
+export default class CreateFailedJobsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                connection TEXT NOT NULL,
+                queue TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                exception TEXT NOT NULL,
+                failed_at TEXT NOT NULL
+            )
+        `);
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+}
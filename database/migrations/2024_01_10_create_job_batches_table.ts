@@ -0,0 +1,29 @@
+import type { Connection, Migration } from "@ninots/orm";
+import queueConfig from "@/config/queue";
+
+const table = queueConfig.batching.table;
+
+/**
+ * Create job batches table migration (progress of `Bus.batch()` dispatches).
+ */
+export default class CreateJobBatchesTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                total_jobs INTEGER NOT NULL,
+                pending_jobs INTEGER NOT NULL,
+                failed_jobs INTEGER NOT NULL,
+                options TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                cancelled_at TEXT,
+                finished_at TEXT
+            )
+        `);
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+}
@@ -0,0 +1,30 @@
+import type { Connection, Migration } from "@ninots/orm";
+import notificationsConfig from "@/config/notifications";
+
+const table = notificationsConfig.database.table;
+
+/**
+ * Create notifications table migration (the `database` notification channel).
+ */
+export default class CreateNotificationsTable implements Migration {
+    public async up(connection: Connection): Promise<void> {
+        await connection.run(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                notifiable_type TEXT NOT NULL,
+                notifiable_id INTEGER NOT NULL,
+                data TEXT NOT NULL,
+                read_at TEXT NULL,
+                created_at TEXT NOT NULL
+            )
+        `);
+        await connection.run(
+            `CREATE INDEX IF NOT EXISTS ${table}_notifiable_index ON ${table} (notifiable_type, notifiable_id)`,
+        );
+    }
+
+    public async down(connection: Connection): Promise<void> {
+        await connection.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+}
@@ -0,0 +1,41 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface ForgotPasswordFormProps {
+    csrfToken?: string;
+    formAction?: string;
+    status?: string;
+    email?: string;
+    errors?: Record<string, string[]>;
+}
+
+function ForgotPasswordFormPage({
+    csrfToken = "",
+    formAction = "/forgot-password",
+    status = "",
+    email = "",
+    errors = {},
+}: ForgotPasswordFormProps) {
+    return (
+        <section className="welcome auth-form">
+            <h1>Forgot password</h1>
+            <p>Enter your email address and we will send you a password reset link.</p>
+            {status.length > 0 ? <p className="success-note">{status}</p> : ""}
+            <form method="post" action={formAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <label className="field">
+                    <span className="field-label">Email</span>
+                    <input type="email" name="email" value={email} required />
+                    {errors.email ? <span className="field-error">{errors.email.join(" ")}</span> : ""}
+                </label>
+                <button type="submit" className="button-primary">
+                    Email reset link
+                </button>
+            </form>
+        </section>
+    );
+}
+
+export const ForgotPasswordForm = withLayout(AppLayout, ForgotPasswordFormPage, {
+    title: "Forgot password — Ninots",
+});
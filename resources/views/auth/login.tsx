@@ -0,0 +1,54 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface LoginFormProps {
+    csrfToken?: string;
+    formAction?: string;
+    registerHref?: string;
+    forgotPasswordHref?: string;
+    email?: string;
+    errors?: Record<string, string[]>;
+}
+
+function LoginFormPage({
+    csrfToken = "",
+    formAction = "/login",
+    registerHref = "/register",
+    forgotPasswordHref = "/forgot-password",
+    email = "",
+    errors = {},
+}: LoginFormProps) {
+    return (
+        <section className="welcome auth-form">
+            <h1>Log in</h1>
+            <form method="post" action={formAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <label className="field">
+                    <span className="field-label">Email</span>
+                    <input type="email" name="email" value={email} required />
+                    {errors.email ? <span className="field-error">{errors.email.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">Password</span>
+                    <input type="password" name="password" required />
+                    {errors.password ? <span className="field-error">{errors.password.join(" ")}</span> : ""}
+                </label>
+                <label className="field-checkbox">
+                    <input type="checkbox" name="remember" />
+                    Remember me
+                </label>
+                <button type="submit" className="button-primary">
+                    Log in
+                </button>
+            </form>
+            <p>
+                <a href={forgotPasswordHref}>Forgot your password?</a>
+            </p>
+            <p>
+                No account yet? <a href={registerHref}>Register</a>
+            </p>
+        </section>
+    );
+}
+
+export const LoginForm = withLayout(AppLayout, LoginFormPage, { title: "Log in — Ninots" });
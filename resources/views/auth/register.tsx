@@ -0,0 +1,56 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface RegisterFormProps {
+    csrfToken?: string;
+    formAction?: string;
+    loginHref?: string;
+    name?: string;
+    email?: string;
+    errors?: Record<string, string[]>;
+}
+
+function RegisterFormPage({
+    csrfToken = "",
+    formAction = "/register",
+    loginHref = "/login",
+    name = "",
+    email = "",
+    errors = {},
+}: RegisterFormProps) {
+    return (
+        <section className="welcome auth-form">
+            <h1>Register</h1>
+            <form method="post" action={formAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <label className="field">
+                    <span className="field-label">Name</span>
+                    <input type="text" name="name" value={name} required />
+                    {errors.name ? <span className="field-error">{errors.name.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">Email</span>
+                    <input type="email" name="email" value={email} required />
+                    {errors.email ? <span className="field-error">{errors.email.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">Password</span>
+                    <input type="password" name="password" required />
+                    {errors.password ? <span className="field-error">{errors.password.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">Confirm password</span>
+                    <input type="password" name="password_confirmation" required />
+                </label>
+                <button type="submit" className="button-primary">
+                    Create account
+                </button>
+            </form>
+            <p>
+                Already registered? <a href={loginHref}>Log in</a>
+            </p>
+        </section>
+    );
+}
+
+export const RegisterForm = withLayout(AppLayout, RegisterFormPage, { title: "Register — Ninots" });
@@ -0,0 +1,49 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface ResetPasswordFormProps {
+    csrfToken?: string;
+    formAction?: string;
+    token?: string;
+    email?: string;
+    errors?: Record<string, string[]>;
+}
+
+function ResetPasswordFormPage({
+    csrfToken = "",
+    formAction = "/reset-password",
+    token = "",
+    email = "",
+    errors = {},
+}: ResetPasswordFormProps) {
+    return (
+        <section className="welcome auth-form">
+            <h1>Reset password</h1>
+            <form method="post" action={formAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <input type="hidden" name="token" value={token} />
+                <label className="field">
+                    <span className="field-label">Email</span>
+                    <input type="email" name="email" value={email} required />
+                    {errors.email ? <span className="field-error">{errors.email.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">New password</span>
+                    <input type="password" name="password" required />
+                    {errors.password ? <span className="field-error">{errors.password.join(" ")}</span> : ""}
+                </label>
+                <label className="field">
+                    <span className="field-label">Confirm password</span>
+                    <input type="password" name="password_confirmation" required />
+                </label>
+                <button type="submit" className="button-primary">
+                    Reset password
+                </button>
+            </form>
+        </section>
+    );
+}
+
+export const ResetPasswordForm = withLayout(AppLayout, ResetPasswordFormPage, {
+    title: "Reset password — Ninots",
+});
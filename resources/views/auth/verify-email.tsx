@@ -0,0 +1,34 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface VerifyEmailProps {
+    csrfToken?: string;
+    formAction?: string;
+    email?: string;
+    status?: string;
+}
+
+function VerifyEmailPage({
+    csrfToken = "",
+    formAction = "/email/verification-notification",
+    email = "",
+    status = "",
+}: VerifyEmailProps) {
+    return (
+        <section className="welcome auth-form">
+            <h1>Verify your email</h1>
+            <p>
+                We sent a verification link to <strong>{email}</strong>. Open it to finish setting up your account.
+            </p>
+            {status.length > 0 ? <p className="success-note">{status}</p> : ""}
+            <form method="post" action={formAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <button type="submit" className="button-primary">
+                    Resend verification email
+                </button>
+            </form>
+        </section>
+    );
+}
+
+export const VerifyEmail = withLayout(AppLayout, VerifyEmailPage, { title: "Verify email — Ninots" });
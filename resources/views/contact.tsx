@@ -4,9 +4,11 @@ import { AppLayout } from "@/resources/views/layouts/app";
 export interface ContactFormProps {
     csrfToken?: string;
     formAction?: string;
+    message?: string;
+    errors?: Record<string, string[]>;
 }
 
-function ContactFormPage({ csrfToken = "", formAction = "/contact" }: ContactFormProps) {
+function ContactFormPage({ csrfToken = "", formAction = "/contact", message = "", errors = {} }: ContactFormProps) {
     return (
         <section className="welcome contact-form">
             <h1>Contact</h1>
@@ -15,7 +17,10 @@ function ContactFormPage({ csrfToken = "", formAction = "/contact" }: ContactFor
                 <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
                 <label className="field">
                     <span className="field-label">Message</span>
-                    <textarea name="message" required rows={4} placeholder="Say hello..." />
+                    <textarea name="message" required rows={4} placeholder="Say hello...">
+                        {message}
+                    </textarea>
+                    {errors.message ? <span className="field-error">{errors.message.join(" ")}</span> : ""}
                 </label>
                 <button type="submit" className="button-primary">
                     Send message
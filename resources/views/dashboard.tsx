@@ -0,0 +1,27 @@
+import { withLayout, csrfField } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface DashboardProps {
+    name?: string;
+    csrfToken?: string;
+    logoutAction?: string;
+}
+
+function DashboardPage({ name = "", csrfToken = "", logoutAction = "/logout" }: DashboardProps) {
+    return (
+        <section className="welcome dashboard">
+            <h1>Dashboard</h1>
+            <p>
+                Signed in as <strong>{name}</strong>.
+            </p>
+            <form method="post" action={logoutAction} className="stack-form">
+                <div dangerouslySetInnerHTML={{ __html: csrfField(csrfToken) }} />
+                <button type="submit" className="button-primary">
+                    Log out
+                </button>
+            </form>
+        </section>
+    );
+}
+
+export const Dashboard = withLayout(AppLayout, DashboardPage, { title: "Dashboard — Ninots" });
@@ -0,0 +1,37 @@
+import { withLayout } from "@ninots/view";
+import { AppLayout } from "@/resources/views/layouts/app";
+
+export interface ErrorPageProps {
+    status?: number;
+    title?: string;
+    message?: string;
+    errors?: Record<string, string[]>;
+}
+
+function ErrorPageContent({ status = 500, title = "Server Error", message = "", errors }: ErrorPageProps) {
+    const fieldErrors = Object.entries(errors ?? {});
+
+    return (
+        <section className="welcome error-page">
+            <p className="error-status">{String(status)}</p>
+            <h1>{title}</h1>
+            {message.length > 0 && message !== title ? <p>{message}</p> : ""}
+            {fieldErrors.length > 0 ? (
+                <ul className="error-list">
+                    {fieldErrors.map(([field, messages]) => (
+                        <li>
+                            <strong>{field}</strong>: {messages.join(" ")}
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                ""
+            )}
+            <p>
+                <a href="/">Back to home</a>
+            </p>
+        </section>
+    );
+}
+
+export const ErrorPage = withLayout(AppLayout, ErrorPageContent, { title: "Error — Ninots" });
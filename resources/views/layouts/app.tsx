@@ -99,6 +99,7 @@ body {
     color: var(--text);
 }
 
+.field input,
 .field textarea {
     width: 100%;
     padding: 0.75rem 1rem;
@@ -110,11 +111,24 @@ body {
     resize: vertical;
 }
 
+.field input:focus,
 .field textarea:focus {
     outline: 2px solid color-mix(in srgb, var(--accent) 55%, transparent);
     border-color: var(--accent);
 }
 
+.field-checkbox {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    color: var(--muted);
+}
+
+.field-error {
+    color: #fca5a5;
+    font-size: 0.9rem;
+}
+
 .button-primary {
     justify-self: start;
     padding: 0.65rem 1.25rem;
@@ -146,6 +160,18 @@ body {
 .contact-form a {
     color: var(--accent);
 }
+
+.error-status {
+    margin: 0 0 0.5rem;
+    font-size: 3rem;
+    font-weight: 700;
+    color: var(--accent);
+}
+
+.error-list {
+    margin: 1rem 0;
+    color: var(--muted);
+}
 `;
 
 export interface AppLayoutProps {
@@ -0,0 +1,60 @@
+const MAIL_STYLES = `
+body {
+    margin: 0;
+    padding: 24px;
+    background: #f1f5f9;
+    font-family: system-ui, sans-serif;
+    color: #0f172a;
+}
+
+.mail-body {
+    max-width: 560px;
+    margin: 0 auto;
+    padding: 32px;
+    background: #ffffff;
+    border-radius: 8px;
+}
+
+.mail-body h1 {
+    margin: 0 0 16px;
+    font-size: 20px;
+}
+
+.mail-body a {
+    color: #0284c7;
+}
+
+.mail-muted,
+.mail-footer {
+    color: #64748b;
+}
+
+.mail-footer {
+    text-align: center;
+    font-size: 13px;
+}
+`;
+
+export interface MailLayoutProps {
+    title: string;
+    children: string;
+}
+
+export function MailLayout({ title, children }: MailLayoutProps) {
+    return (
+        <html lang="en">
+            <head>
+                <meta charSet="utf-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1" />
+                <title>{title}</title>
+                <style dangerouslySetInnerHTML={{ __html: MAIL_STYLES }} />
+            </head>
+            <body>
+                <main className="mail-body" dangerouslySetInnerHTML={{ __html: children }} />
+                <footer className="mail-footer">
+                    <p>Ninots</p>
+                </footer>
+            </body>
+        </html>
+    );
+}
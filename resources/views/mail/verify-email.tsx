@@ -0,0 +1,22 @@
+import { withLayout } from "@ninots/view";
+import { MailLayout } from "@/resources/views/layouts/mail";
+
+export interface VerifyEmailMailProps {
+    url: string;
+    expiresInMinutes: number;
+}
+
+function VerifyEmailMailPage({ url, expiresInMinutes }: VerifyEmailMailProps) {
+    return (
+        <section>
+            <h1>Verify your email</h1>
+            <p>Welcome! Please confirm your email address by opening the link below:</p>
+            <p>
+                <a href={url}>Verify email address</a>
+            </p>
+            <p className="mail-muted">The link expires in {String(expiresInMinutes)} minutes.</p>
+        </section>
+    );
+}
+
+export const VerifyEmailMail = withLayout(MailLayout, VerifyEmailMailPage, { title: "Verify your email" });
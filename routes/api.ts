@@ -1,5 +1,6 @@
 import type { Application } from "@ninots/foundation";
 import type { Router, RouteParams } from "@ninots/routing";
+import { NotificationsController } from "@/app/Http/Controllers/NotificationsController";
 import { UsersController } from "@/app/Http/Controllers/UsersController";
 
 // -- nino:api-imports --
@@ -10,9 +11,28 @@ import { UsersController } from "@/app/Http/Controllers/UsersController";
 export function registerApiRoutes(router: Router, app: Application): void {
     // -- nino:api-bindings --
     const users = app.make<UsersController>(UsersController.name);
+    const notifications = app.make<NotificationsController>(NotificationsController.name);
 
-    router.group({ prefix: "/api" }, () => {
-        router.get("/users", () => users.list()).name("users.index");
+    router.group({ prefix: "/api", middleware: ["api", "throttle:api"] }, () => {
+        router.group({ middleware: ["auth:token", "abilities:user:read"] }, () => {
+            router.get("/user", (request: Request) => users.current(request)).name("api.user");
+        });
+
+        router.group({ middleware: ["auth:token"] }, () => {
+            router
+                .get("/notifications", (request: Request) => notifications.index(request))
+                .name("notifications.index");
+            router
+                .post("/notifications/read-all", (request: Request) => notifications.markAllAsRead(request))
+                .name("notifications.read-all");
+            router
+                .post("/notifications/:id/read", (request: Request, params?: RouteParams) =>
+                    notifications.markAsRead(request, params),
+                )
+                .name("notifications.read");
+        });
+
+        router.get("/users", (request: Request) => users.list(request)).name("users.index");
         router.post("/users", (request: Request) => users.create(request)).name("users.store");
         router
             .get("/users/:id", (request: Request, params?: RouteParams) => users.show(request, params))
@@ -1,6 +1,9 @@
+import type { Schedule } from "@/app/Console/Scheduling/Schedule";
+
 /**
- * Console routes / scheduled tasks (future nino commands).
+ * Scheduled tasks — run by `nino schedule:run` (add it to cron every minute)
+ * or `nino schedule:work` during development.
  */
-export function registerConsoleRoutes(): void {
-    // Reserved for artisan-style console wiring.
+export function registerConsoleRoutes(schedule: Schedule): void {
+    schedule.command("session:gc").daily().describe("Delete expired sessions").withoutOverlapping();
 }
@@ -1,30 +1,34 @@
-import { generateCsrfToken, resolveCsrfConfig, resolveSessionId, withSessionCookie } from "@ninots/middleware";
 import { route } from "@ninots/routing";
 import { render } from "@ninots/view";
-import type { Router } from "@ninots/routing";
+import type { Router, RouteParams } from "@ninots/routing";
+import type { Application } from "@ninots/foundation";
+import { AuthenticatedSessionController } from "@/app/Http/Controllers/Auth/AuthenticatedSessionController";
+import { EmailVerificationController } from "@/app/Http/Controllers/Auth/EmailVerificationController";
+import { NewPasswordController } from "@/app/Http/Controllers/Auth/NewPasswordController";
+import { OAuthController } from "@/app/Http/Controllers/Auth/OAuthController";
+import { PasswordResetLinkController } from "@/app/Http/Controllers/Auth/PasswordResetLinkController";
+import { RegisteredUserController } from "@/app/Http/Controllers/Auth/RegisteredUserController";
+import { ContactController } from "@/app/Http/Controllers/ContactController";
+import { DashboardController } from "@/app/Http/Controllers/DashboardController";
 import { Welcome } from "@/resources/views/welcome";
-import { ContactForm } from "@/resources/views/contact";
-import { ContactThanks } from "@/resources/views/contact-thanks";
-import csrfConfig from "@/config/csrf";
 
 // -- nino:web-imports --
 
-const csrfOptions = {
-    secret: csrfConfig.secret,
-    sessionCookieName: csrfConfig.sessionCookie,
-    tokenFieldName: csrfConfig.tokenField,
-};
-
-function getCsrfConfig() {
-    return resolveCsrfConfig(csrfOptions);
-}
-
 /**
  * Web routes (HTML pages rendered via @ninots/view).
  */
-export function registerWebRoutes(router: Router): void {
+export function registerWebRoutes(router: Router, app: Application): void {
     router.group({ middleware: ["web"] }, () => {
         // -- nino:web-bindings --
+        const contact = app.make<ContactController>(ContactController.name);
+        const sessions = app.make<AuthenticatedSessionController>(AuthenticatedSessionController.name);
+        const registration = app.make<RegisteredUserController>(RegisteredUserController.name);
+        const dashboard = app.make<DashboardController>(DashboardController.name);
+        const resetLinks = app.make<PasswordResetLinkController>(PasswordResetLinkController.name);
+        const newPasswords = app.make<NewPasswordController>(NewPasswordController.name);
+        const oauth = app.make<OAuthController>(OAuthController.name);
+        const verification = app.make<EmailVerificationController>(EmailVerificationController.name);
+
         router
             .get("/", () =>
                 render(Welcome, {
@@ -34,28 +38,57 @@ export function registerWebRoutes(router: Router): void {
             )
             .name("home");
 
-        router
-            .get("/contact", async (request: Request) => {
-                const config = getCsrfConfig();
-                const session = resolveSessionId(request, config.sessionCookieName);
-                const token = generateCsrfToken(session.sessionId, config);
-                const response = await render(ContactForm, {
-                    csrfToken: token,
-                    formAction: route("contact.store"),
-                });
-
-                return withSessionCookie(response, session, config.sessionCookieName);
-            })
-            .name("contact.create");
+        router.get("/contact", (request: Request) => contact.create(request)).name("contact.create");
+        router.group({ middleware: ["throttle:5,1"] }, () => {
+            router.post("/contact", (request: Request) => contact.store(request)).name("contact.store");
+        });
 
+        router.group({ middleware: ["guest"] }, () => {
+            router.get("/login", (request: Request) => sessions.create(request)).name("login");
+            router.group({ middleware: ["throttle:5,1"] }, () => {
+                router.post("/login", (request: Request) => sessions.store(request)).name("login.store");
+                router.post("/forgot-password", (request: Request) => resetLinks.store(request)).name("password.email");
+            });
+            router.get("/register", (request: Request) => registration.create(request)).name("register");
+            router.post("/register", (request: Request) => registration.store(request)).name("register.store");
+            router.get("/forgot-password", (request: Request) => resetLinks.create(request)).name("password.request");
+            router
+                .get("/reset-password/:token", (request: Request, params?: RouteParams) =>
+                    newPasswords.create(request, params),
+                )
+                .name("password.reset");
+            router.post("/reset-password", (request: Request) => newPasswords.store(request)).name("password.store");
+        });
+
+        router
+            .get("/auth/:provider/redirect", (request: Request, params?: RouteParams) =>
+                oauth.redirectToProvider(request, params),
+            )
+            .name("oauth.redirect");
         router
-            .post("/contact", async (request: Request) => {
-                const formData = await request.formData();
-                const message = String(formData.get("message") ?? "").trim();
+            .get("/auth/:provider/callback", (request: Request, params?: RouteParams) =>
+                oauth.handleProviderCallback(request, params),
+            )
+            .name("oauth.callback");
+
+        router.group({ middleware: ["signed"] }, () => {
+            router
+                .get("/email/verify/:id/:hash", (request: Request, params?: RouteParams) =>
+                    verification.verify(request, params),
+                )
+                .name("verification.verify");
+        });
 
-                return render(ContactThanks, { message: message || "(empty message)" });
-            })
-            .name("contact.store");
+        router.group({ middleware: ["auth"] }, () => {
+            router.get("/dashboard", (request: Request) => dashboard.show(request)).name("dashboard");
+            router.post("/logout", (request: Request) => sessions.destroy(request)).name("logout");
+            router.get("/email/verify", (request: Request) => verification.notice(request)).name("verification.notice");
+            router.group({ middleware: ["throttle:6,1"] }, () => {
+                router
+                    .post("/email/verification-notification", (request: Request) => verification.send(request))
+                    .name("verification.send");
+            });
+        });
 
         // -- nino:web-routes --
     });
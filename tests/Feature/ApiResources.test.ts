@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import { MakeResourceCommand } from "@/app/Console/Commands/MakeResourceCommand";
+import { JsonResource } from "@/app/Http/Resources/JsonResource";
+import { LengthAwarePaginator } from "@/app/Pagination/LengthAwarePaginator";
+
+type Author = { id: number; name: string; email: string | null };
+type Post = { id: number; title: string; draft: boolean; author: Author };
+
+class AuthorResource extends JsonResource<Author> {
+    public toArray(): Record<string, unknown> {
+        return {
+            id: this.resource.id,
+            name: this.resource.name,
+            email: this.whenNotNull(this.resource.email),
+        };
+    }
+}
+
+class PostResource extends JsonResource<Post> {
+    public toArray(): Record<string, unknown> {
+        return {
+            id: this.resource.id,
+            title: this.resource.title,
+            status: this.when(this.resource.draft, "draft"),
+            author: new AuthorResource(this.resource.author),
+            ...this.mergeWhen(!this.resource.draft, { published: true }),
+        };
+    }
+}
+
+const author: Author = { id: 1, name: "Ada", email: null };
+const posts: Post[] = [
+    { id: 1, title: "Hello", draft: false, author },
+    { id: 2, title: "WIP", draft: true, author },
+];
+
+describe("API resources", () => {
+    test("conditional fields are omitted and nested resources are unwrapped", () => {
+        expect(new PostResource(posts[0] as Post).toJSON()).toEqual({
+            data: { id: 1, title: "Hello", author: { id: 1, name: "Ada" }, published: true },
+        });
+        expect(new PostResource(posts[1] as Post).additional({ meta: { version: 2 } }).toJSON()).toEqual({
+            data: { id: 2, title: "WIP", status: "draft", author: { id: 1, name: "Ada" } },
+            meta: { version: 2 },
+        });
+    });
+
+    test("collections integrate with paginators and keep the Link header", async () => {
+        const page = new LengthAwarePaginator(posts, 4, 2, 1, { path: "http://localhost/api/posts" });
+        const response = PostResource.collection(page)
+            .additional({ meta: { version: 2 } })
+            .toResponse();
+        const body = (await response.json()) as {
+            data: Record<string, unknown>[];
+            meta: Record<string, unknown>;
+            links: Record<string, unknown>;
+        };
+
+        expect(body.data.map((post) => post.id)).toEqual([1, 2]);
+        expect(body.meta).toMatchObject({ total: 4, current_page: 1, version: 2 });
+        expect(body.links.next).toBe("http://localhost/api/posts?page=2");
+        expect(response.headers.get("Link")).toContain('rel="next"');
+    });
+});
+
+describe("nino make:resource", () => {
+    let root = "";
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "ninots-make-resource-"));
+    });
+
+    afterEach(async () => {
+        await rm(root, { force: true, recursive: true });
+    });
+
+    test("generates a resource typed against the model", async () => {
+        const kernel = new Kernel();
+        kernel.register(new MakeResourceCommand({ paths: { basePath: root } }));
+
+        expect(await kernel.run(["make:resource", "Post", "--model=Post"])).toBe(0);
+
+        const target = join(root, "app/Http/Resources/PostResource.ts");
+        expect(existsSync(target)).toBe(true);
+        const source = await readFile(target, "utf8");
+        expect(source).toContain("export class PostResource extends JsonResource<Post>");
+        expect(source).toContain('import type { Post } from "@/app/Models/Post";');
+
+        expect(await kernel.run(["make:resource", "PostResource"])).toBe(1);
+    });
+});
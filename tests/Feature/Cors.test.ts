@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { handleCors, type CorsOptions } from "@/app/Http/Middleware/CorsMiddleware";
+import corsConfig from "@/config/cors";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+const ALLOWED_ORIGIN = "http://localhost:3000";
+
+function preflight(baseUrl: string, path: string, origin: string): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+        method: "OPTIONS",
+        headers: {
+            Origin: origin,
+            "Access-Control-Request-Method": "PUT",
+            "Access-Control-Request-Headers": "Content-Type",
+        },
+    });
+}
+
+describe("CORS", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("OPTIONS preflight is answered for a registered route path", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await preflight(t.baseUrl, "/api/users/1", ALLOWED_ORIGIN);
+
+            assertStatus(response, 204);
+            expect(response.headers.get("Access-Control-Allow-Origin")).toBe(ALLOWED_ORIGIN);
+            expect(response.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+            expect(response.headers.get("Access-Control-Allow-Methods")).toContain("PUT");
+            expect(response.headers.get("Access-Control-Allow-Headers")).toContain("Content-Type");
+            expect(response.headers.get("Access-Control-Max-Age")).toBe("3600");
+            expect(response.headers.get("Vary")).toContain("Origin");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("preflights are only answered for routes that run the cors middleware", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await preflight(t.baseUrl, "/login", ALLOWED_ORIGIN);
+
+            expect(response.status).not.toBe(204);
+            expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("preflight from a disallowed origin omits Access-Control-Allow-Origin", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await preflight(t.baseUrl, "/api/users", "https://evil.test");
+
+            assertStatus(response, 204);
+            expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("api responses carry CORS headers for allowed origins", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/api/users", {
+                headers: { Origin: ALLOWED_ORIGIN, Accept: "application/json" },
+            });
+
+            assertStatus(response, 200);
+            expect(response.headers.get("Access-Control-Allow-Origin")).toBe(ALLOWED_ORIGIN);
+            expect(response.headers.get("Access-Control-Expose-Headers")).toBe("X-Request-Id");
+            expect(response.headers.get("Vary")).toContain("Origin");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("wildcard and regex origin patterns", async () => {
+        const options: CorsOptions = {
+            ...corsConfig,
+            allowedOrigins: ["https://*.ninots.test"],
+            allowedOriginPatterns: [/^https:\/\/preview-\d+\.example\.com$/],
+        };
+        const middleware = handleCors(options);
+        const next = (): Response => Response.json({ ok: true });
+        const originFor = async (origin: string): Promise<string | null> => {
+            const response = await middleware(
+                new Request("http://localhost/api/users", { headers: { Origin: origin } }),
+                next,
+            );
+            return response.headers.get("Access-Control-Allow-Origin");
+        };
+
+        expect(await originFor("https://app.ninots.test")).toBe("https://app.ninots.test");
+        expect(await originFor("https://preview-42.example.com")).toBe("https://preview-42.example.com");
+        expect(await originFor("https://ninots.test.evil.com")).toBeNull();
+        expect(await originFor("https://preview-x.example.com")).toBeNull();
+    });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createMailManager } from "@/app/Mail/createMailServices";
+import { User } from "@/app/Models/User";
+import { createAppNotificationSender } from "@/app/Notifications/createNotificationServices";
+import { WelcomeNotification } from "@/app/Notifications/WelcomeNotification";
+import { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+type Inbox = {
+    data: { id: string; type: string; data: Record<string, unknown>; read_at: string | null }[];
+    meta: { unread: number; total: number; last_page: number };
+};
+
+function arrayMail() {
+    return createMailManager({
+        default: "array",
+        from: { address: "hello@example.com", name: "Ninots App" },
+        mailers: {
+            array: { driver: "array" },
+            log: { driver: "log" },
+            smtp: { driver: "smtp", host: "127.0.0.1", port: 2525 },
+        },
+    });
+}
+
+describe("database notifications", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("the database channel stores notifications next to mail and array", async () => {
+        const user = await User.factory().create({ email: "ada@ninots.test" });
+        const sender = createAppNotificationSender(arrayMail());
+
+        await sender.send(user, new WelcomeNotification());
+
+        expect(sender.arrayChannel()?.notifications).toHaveLength(1);
+        const [stored] = await user.notifications();
+        expect(stored?.type).toBe("WelcomeNotification");
+        expect(stored?.data).toEqual({ kind: "welcome", message: "Thanks for signing up." });
+        expect(stored?.readAt).toBeNull();
+
+        // Plain notifiables (no model) skip the database channel.
+        await sender.send({ email: "guest@ninots.test" }, new WelcomeNotification());
+        expect(await user.notifications()).toHaveLength(1);
+    });
+
+    test("unreadNotifications() and markAsRead() are scoped to the notifiable", async () => {
+        const ada = await User.factory().create({ email: "ada@ninots.test" });
+        const grace = await User.factory().create({ email: "grace@ninots.test" });
+        const sender = createAppNotificationSender(arrayMail());
+        await sender.send(ada, new WelcomeNotification());
+        await sender.send(ada, new WelcomeNotification());
+        await sender.send(grace, new WelcomeNotification());
+
+        const [first] = await ada.unreadNotifications();
+        const [graces] = await grace.notifications();
+        expect(await ada.markAsRead([first?.id ?? "", graces?.id ?? ""])).toBe(1);
+        expect(await ada.unreadNotifications()).toHaveLength(1);
+        expect(await grace.unreadNotifications()).toHaveLength(1);
+
+        expect(await ada.markAsRead()).toBe(1);
+        expect(await ada.unreadNotifications()).toHaveLength(0);
+        expect(await ada.notifications()).toHaveLength(2);
+    });
+
+    test("the API lists and marks the token user's notifications", async () => {
+        const ada = await User.factory().create({ email: "ada@ninots.test" });
+        const grace = await User.factory().create({ email: "grace@ninots.test" });
+        const sender = createAppNotificationSender(arrayMail());
+        await sender.send(ada, new WelcomeNotification());
+        await sender.send(ada, new WelcomeNotification());
+        await sender.send(grace, new WelcomeNotification());
+        const { plainTextToken } = await new PersonalAccessTokenService().create(ada, "inbox");
+        const headers = { Authorization: `Bearer ${plainTextToken}`, Accept: "application/json" };
+
+        const t = await createTestApp();
+        try {
+            assertStatus(await t.get("/api/notifications"), 401);
+
+            const inbox = (await (await t.get("/api/notifications", { headers })).json()) as Inbox;
+            expect(inbox.data).toHaveLength(2);
+            expect(inbox.meta.unread).toBe(2);
+            expect(inbox.data[0]?.data.kind).toBe("welcome");
+
+            const paged = (await (await t.get("/api/notifications?per_page=1&page=2", { headers })).json()) as Inbox;
+            expect(paged.data[0]?.id).toBe(inbox.data[1]?.id ?? "");
+            expect(paged.data).toHaveLength(1);
+            expect(paged.meta).toMatchObject({ total: 2, last_page: 2, unread: 2 });
+
+            const [first] = inbox.data;
+            assertStatus(await t.post(`/api/notifications/${first?.id}/read`, { headers }), 204);
+            const [graces] = await grace.notifications();
+            assertStatus(await t.post(`/api/notifications/${graces?.id}/read`, { headers }), 404);
+
+            const unread = (await (await t.get("/api/notifications?unread=1", { headers })).json()) as Inbox;
+            expect(unread.data.map((notification) => notification.id)).not.toContain(first?.id);
+            expect(unread.meta.unread).toBe(1);
+
+            const all = await t.post("/api/notifications/read-all", { headers });
+            assertStatus(all, 200);
+            expect(await all.json()).toEqual({ marked: 1 });
+            expect(await ada.unreadNotifications()).toHaveLength(0);
+            expect(await grace.unreadNotifications()).toHaveLength(1);
+        } finally {
+            t.stop();
+        }
+    });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import { QueueTableCommand } from "@/app/Console/Commands/QueueTableCommand";
+import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import { DatabaseQueue } from "@/app/Queue/DatabaseQueue";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+describe("database queue", () => {
+    let clock: Date;
+    let queue: DatabaseQueue;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        clock = new Date("2026-01-01T12:00:00Z");
+        queue = new DatabaseQueue(
+            { driver: "sqlite", table: "jobs", queue: "default", retryAfter: 90 },
+            getDatabaseManager,
+            () => clock,
+        );
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("pushes and reserves jobs oldest first", async () => {
+        await queue.push(new SendVerificationEmailJob(1, "ada@ninots.test"));
+        await queue.push(new SendVerificationEmailJob(2, "grace@ninots.test"));
+        expect(await queue.size()).toBe(2);
+
+        const first = await queue.pop();
+        expect(first?.jobName).toBe("SendVerificationEmailJob");
+        expect(first?.data).toEqual({ email: "ada@ninots.test", userId: 1 });
+        expect(first?.attempts).toBe(1);
+
+        // Reserved jobs are not handed out twice.
+        const second = await queue.pop();
+        expect(second?.data).toEqual({ email: "grace@ninots.test", userId: 2 });
+        expect(await queue.pop()).toBeNull();
+
+        await first?.delete();
+        await second?.delete();
+        expect(await queue.size()).toBe(0);
+    });
+
+    test("keeps named queues apart", async () => {
+        await queue.push(new SendVerificationEmailJob(1, "ada@ninots.test"), "emails");
+
+        expect(await queue.pop()).toBeNull();
+        expect((await queue.pop("emails"))?.queue).toBe("emails");
+    });
+
+    test("released jobs come back after their delay with another attempt", async () => {
+        await queue.push(new SendVerificationEmailJob(1, "ada@ninots.test"));
+        await (await queue.pop())?.release(30);
+
+        expect(await queue.pop()).toBeNull();
+        clock = new Date(clock.getTime() + 30_000);
+        expect((await queue.pop())?.attempts).toBe(2);
+    });
+
+    test("a reservation older than retryAfter is handed to another worker", async () => {
+        await queue.push(new SendVerificationEmailJob(1, "ada@ninots.test"));
+        expect(await queue.pop()).not.toBeNull();
+
+        clock = new Date(clock.getTime() + 89_000);
+        expect(await queue.pop()).toBeNull();
+
+        clock = new Date(clock.getTime() + 1_000);
+        const retried = await queue.pop();
+        expect(retried?.attempts).toBe(2);
+        expect(retried?.data).toEqual({ email: "ada@ninots.test", userId: 1 });
+    });
+});
+
+describe("queue:table", () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "ninots-queue-table-"));
+    });
+
+    afterEach(async () => {
+        await rm(root, { force: true, recursive: true });
+    });
+
+    test("writes the jobs table migration once", async () => {
+        const kernel = new Kernel();
+        kernel.register(new QueueTableCommand({ paths: { basePath: root }, now: () => new Date(2026, 0, 2, 3, 4, 5) }));
+
+        expect(await kernel.run(["queue:table"])).toBe(0);
+
+        const directory = join(root, "database/migrations");
+        expect(await readdir(directory)).toEqual(["2026_01_02_030405_create_jobs_table.ts"]);
+        const source = await readFile(join(directory, "2026_01_02_030405_create_jobs_table.ts"), "utf8");
+        expect(source).toContain("CREATE TABLE IF NOT EXISTS jobs");
+        expect(source).toContain("reserved_at INTEGER");
+
+        expect(await kernel.run(["queue:table"])).toBe(1);
+    });
+});
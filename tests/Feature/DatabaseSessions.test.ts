@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import { SessionManager } from "@ninots/session";
+import { createUserProvider, sessionGuardOptions } from "@/app/Auth/createAuthServices";
+import { SESSION_GUARD, SessionGuard } from "@/app/Auth/SessionGuard";
+import { SessionTableCommand } from "@/app/Console/Commands/SessionTableCommand";
+import { createHasher } from "@/app/Hashing/createHashServices";
+import { User } from "@/app/Models/User";
+import { ActiveSessionService } from "@/app/Services/ActiveSessionService";
+import { DatabaseSessionDriver } from "@/app/Session/DatabaseSessionDriver";
+import { OrmSessionConnection } from "@/app/Session/OrmSessionConnection";
+import { UserSessionIndex } from "@/app/Session/UserSessionIndex";
+import { createAuthSessionStore, createSessionManager, startSessionStore } from "@/app/Session/createSessionServices";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+type SessionRow = { id: string; user_id: number | null; ip_address: string | null; user_agent: string | null };
+
+async function sessionRows(): Promise<SessionRow[]> {
+    return getDatabaseManager()
+        .connection()
+        .query<SessionRow>("SELECT id, user_id, ip_address, user_agent FROM sessions ORDER BY id");
+}
+
+describe("database session driver", () => {
+    let clock: Date;
+    let driver: DatabaseSessionDriver;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        clock = new Date("2026-01-01T12:00:00Z");
+        driver = new DatabaseSessionDriver(
+            { table: "sessions", lifetime: 120, userKey: "login_session" },
+            new OrmSessionConnection(),
+            () => clock,
+        );
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("writes, reads and destroys payloads", async () => {
+        await driver.write("abc", { cart: [1, 2] });
+        expect(await driver.read("abc")).toEqual({ cart: [1, 2] });
+        expect(await driver.exists("abc")).toBe(true);
+
+        await driver.write("abc", { cart: [] });
+        expect(await driver.read("abc")).toEqual({ cart: [] });
+
+        await driver.destroy("abc");
+        expect(await driver.read("abc")).toBeNull();
+        expect(await sessionRows()).toHaveLength(0);
+    });
+
+    test("stores the user id, IP and user agent per session", async () => {
+        driver.recordClient("abc", { ipAddress: "203.0.113.7", userAgent: "Firefox" });
+        await driver.write("abc", { login_session: 42 });
+        // Later writes without client details keep the recorded ones.
+        await driver.write("abc", { login_session: 42, seen: true });
+
+        expect(await sessionRows()).toEqual([
+            { id: "abc", user_id: 42, ip_address: "203.0.113.7", user_agent: "Firefox" },
+        ]);
+    });
+
+    test("a corrupt payload reads as an empty session", async () => {
+        await driver.write("abc", { cart: [1] });
+        await getDatabaseManager()
+            .connection()
+            .run("UPDATE sessions SET payload = ? WHERE id = ?", ["{not json", "abc"]);
+
+        expect(await driver.read("abc")).toEqual({});
+    });
+
+    test("sessions idle longer than the lifetime read as missing", async () => {
+        await driver.write("abc", { seen: true });
+
+        clock = new Date(clock.getTime() + 119 * 60_000);
+        expect(await driver.read("abc")).toEqual({ seen: true });
+
+        clock = new Date(clock.getTime() + 2 * 60_000);
+        expect(await driver.read("abc")).toBeNull();
+    });
+
+    test("works behind the session manager", async () => {
+        const manager = new SessionManager(driver, {
+            cookie: "ninots_session",
+            driver: "database",
+            files: "",
+            httpOnly: true,
+            lifetime: 120,
+            path: "/",
+            sameSite: "lax",
+            secure: false,
+            table: "sessions",
+        });
+
+        const store = await startSessionStore(manager);
+        store.put("login_session", 7);
+        await store.save();
+
+        const again = await startSessionStore(manager, store.getId());
+        expect(again.get<number>("login_session")).toBe(7);
+        expect((await sessionRows())[0]?.user_id).toBe(7);
+    });
+});
+
+describe("active sessions", () => {
+    let driver: DatabaseSessionDriver;
+    let index: UserSessionIndex;
+    let service: ActiveSessionService;
+    const provider = createUserProvider(createHasher());
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        driver = new DatabaseSessionDriver({ table: "sessions", lifetime: 120, userKey: "login_session" });
+        index = new UserSessionIndex(driver, { lifetime: 120, userKey: "login_session" });
+        service = new ActiveSessionService(createSessionManager(driver), index);
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    async function signIn(sessionId: string, user: User, userAgent: string): Promise<void> {
+        const payload = { login_session: user.getAttribute("id") };
+        await driver.write(sessionId, payload);
+        await index.record(sessionId, payload, { ipAddress: "198.51.100.1", userAgent });
+    }
+
+    test("lists a user's sessions and flags the current device", async () => {
+        const ada = await User.factory().create();
+        const grace = await User.factory().create();
+        await signIn("laptop", ada, "Firefox");
+        await signIn("phone", ada, "Safari");
+        await signIn("other", grace, "Chrome");
+
+        const sessions = await service.forUser(ada, "phone");
+
+        expect(sessions.map((session) => session.id).sort()).toEqual(["laptop", "phone"]);
+        expect(sessions.find((session) => session.isCurrentDevice)?.userAgent).toBe("Safari");
+    });
+
+    test("sessions that were logged out or destroyed drop out of the list", async () => {
+        const ada = await User.factory().create();
+        await signIn("laptop", ada, "Firefox");
+        await signIn("phone", ada, "Safari");
+        await driver.write("laptop", {});
+        await driver.destroy("phone");
+
+        expect(await service.forUser(ada)).toEqual([]);
+    });
+
+    test("revokes only the user's own sessions", async () => {
+        const ada = await User.factory().create();
+        const grace = await User.factory().create();
+        await signIn("laptop", ada, "Firefox");
+        await signIn("other", grace, "Chrome");
+
+        expect(await service.revoke(ada, "other")).toBe(false);
+        expect(await service.revoke(ada, "laptop")).toBe(true);
+        expect((await driver.read("laptop"))?.login_session).toBeUndefined();
+        expect((await driver.read("other"))?.login_session).toBe(grace.getAttribute("id"));
+    });
+
+    test("logoutOtherDevices keeps the current session and re-issues this device's remember cookie", async () => {
+        const ada = await User.factory().create();
+        await provider.updateRememberToken(ada, "remembered");
+        await signIn("laptop", ada, "Firefox");
+        await signIn("phone", ada, "Safari");
+        await signIn("tablet", ada, "Safari");
+        const id = String(ada.getAttribute("id"));
+        const request = new Request("http://localhost/settings", {
+            headers: { Cookie: `remember_session=${encodeURIComponent(`${id}|remembered`)}` },
+        });
+        const guard = new SessionGuard(
+            SESSION_GUARD,
+            await createAuthSessionStore(createSessionManager(driver), "phone"),
+            provider,
+            request,
+            sessionGuardOptions(),
+        );
+
+        expect(await service.logoutOtherDevices(guard, "phone")).toBe(2);
+        expect((await service.forUser(ada)).map((session) => session.id)).toEqual(["phone"]);
+
+        const token = (await User.find(Number(id)))?.getAttribute("remember_token");
+        expect(typeof token).toBe("string");
+        expect(token).not.toBe("remembered");
+        expect(guard.queuedCookies()).toHaveLength(1);
+        expect(decodeURIComponent(guard.queuedCookies()[0] ?? "")).toContain(`remember_session=${id}|${String(token)}`);
+    });
+});
+
+describe("session:table", () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "ninots-session-table-"));
+    });
+
+    afterEach(async () => {
+        await rm(root, { force: true, recursive: true });
+    });
+
+    test("writes a timestamped migration once", async () => {
+        const kernel = new Kernel();
+        kernel.register(
+            new SessionTableCommand({ paths: { basePath: root }, now: () => new Date(2026, 9, 19, 8, 30, 5) }),
+        );
+
+        expect(await kernel.run(["session:table"])).toBe(0);
+
+        const directory = join(root, "database/migrations");
+        expect(await readdir(directory)).toEqual(["2026_10_19_083005_create_sessions_table.ts"]);
+        const source = await readFile(join(directory, "2026_10_19_083005_create_sessions_table.ts"), "utf8");
+        expect(source).toContain("CREATE TABLE IF NOT EXISTS sessions");
+        expect(source).toContain("user_agent TEXT");
+
+        expect(await kernel.run(["session:table"])).toBe(1);
+    });
+});
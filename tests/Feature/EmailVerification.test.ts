@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ROUTER_KEY } from "@ninots/foundation";
+import type { Router } from "@ninots/routing";
+import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import type { AppMailManager } from "@/app/Mail/AppMailManager";
+import { MAIL_MANAGER_KEY } from "@/app/Mail/createMailServices";
+import type { Mailable, MailableMessage } from "@/app/Mail/Mailable";
+import { User } from "@/app/Models/User";
+import { bootstrap, createAppServeOptions } from "@/bootstrap/app";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, responseText } from "../support/http";
+
+const FORM_HEADERS = { "Content-Type": "application/x-www-form-urlencoded" };
+
+function cookies(response: Response, previous = ""): string {
+    const jar = new Map(
+        previous
+            .split("; ")
+            .filter(Boolean)
+            .map((pair) => pair.split("=") as [string, string]),
+    );
+    for (const header of response.headers.getSetCookie()) {
+        const [pair = ""] = header.split(";");
+        const [name = "", value = ""] = pair.split("=");
+        jar.set(name, value);
+    }
+    return [...jar].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
+async function csrfToken(response: Response): Promise<string> {
+    return (await responseText(response)).match(/name="_token"\s+value="([^"]+)"/)?.[1] ?? "";
+}
+
+/**
+ * Boot the app with a `verified`-protected page and serve it on an ephemeral port;
+ * mailables sent through the container's mail manager are collected in `sent`.
+ */
+async function serveApp() {
+    const app = await bootstrap();
+    const sent: MailableMessage[] = [];
+    app.make<AppMailManager>(MAIL_MANAGER_KEY).send = async (mailable: Mailable<object>) => {
+        sent.push(await mailable.build());
+    };
+    const router = app.make<Router>(ROUTER_KEY);
+    router.group({ middleware: ["web", "auth", "verified"] }, () => {
+        router.get("/billing", () => new Response("billing"));
+    });
+    const server = Bun.serve({ ...createAppServeOptions(app), port: 0, hostname: "127.0.0.1" });
+    const baseUrl = `http://127.0.0.1:${server.port}`;
+
+    const send = (path: string, init: RequestInit = {}) => fetch(`${baseUrl}${path}`, { redirect: "manual", ...init });
+
+    const login = async (email: string): Promise<string> => {
+        const form = await send("/login");
+        const jar = cookies(form);
+        const response = await send("/login", {
+            method: "POST",
+            headers: { ...FORM_HEADERS, Cookie: jar },
+            body: new URLSearchParams({ _token: await csrfToken(form), email, password: "secret-password" }),
+        });
+        assertStatus(response, 302);
+        return cookies(response, jar);
+    };
+
+    return { send, login, sent, stop: () => server.stop() };
+}
+
+describe("email verification", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+        SendVerificationEmailJob.resetHandledJobs();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("the job's signed link verifies the user; tampered or expired links are 403", async () => {
+        const user = await User.factory().unverified().create({ email: "ada@ninots.test" });
+        const id = Number(user.getAttribute("id"));
+        const app = await serveApp();
+        try {
+            const job = new SendVerificationEmailJob(id, "ada@ninots.test");
+            const { pathname, search } = new URL(job.verificationUrl());
+            expect(pathname).toStartWith(`/email/verify/${id}/`);
+
+            const expired = new URL(job.verificationUrl(new Date(Date.now() - 2 * 60 * 60_000)));
+            assertStatus(await app.send(`${expired.pathname}${expired.search}`), 403);
+
+            const otherUser = await User.factory().unverified().create({ email: "grace@ninots.test" });
+            const tampered = pathname.replace(`/${id}/`, `/${String(otherUser.getAttribute("id"))}/`);
+            assertStatus(await app.send(`${tampered}${search}`), 403);
+            expect((await User.find(id))?.hasVerifiedEmail()).toBe(false);
+
+            const response = await app.send(`${pathname}${search}`);
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/dashboard?verified=1");
+            expect((await User.find(id))?.hasVerifiedEmail()).toBe(true);
+        } finally {
+            app.stop();
+        }
+    });
+
+    test("verified middleware redirects unverified users and 403s JSON requests", async () => {
+        await User.factory().unverified().create({ email: "new@ninots.test", password: "secret-password" });
+        await User.factory().create({ email: "known@ninots.test", password: "secret-password" });
+        const app = await serveApp();
+        try {
+            const unverified = await app.login("new@ninots.test");
+            const html = await app.send("/billing", { headers: { Cookie: unverified } });
+            assertStatus(html, 302);
+            expect(html.headers.get("Location")).toBe("/email/verify");
+
+            const json = await app.send("/billing", { headers: { Cookie: unverified, Accept: "application/json" } });
+            assertStatus(json, 403);
+
+            const verified = await app.login("known@ninots.test");
+            const allowed = await app.send("/billing", { headers: { Cookie: verified } });
+            assertStatus(allowed, 200);
+        } finally {
+            app.stop();
+        }
+    });
+
+    test("the notice page resends the verification email", async () => {
+        await User.factory().unverified().create({ email: "new@ninots.test", password: "secret-password" });
+        const app = await serveApp();
+        try {
+            const jar = await app.login("new@ninots.test");
+            const notice = await app.send("/email/verify", { headers: { Cookie: jar } });
+            assertStatus(notice, 200);
+
+            const response = await app.send("/email/verification-notification", {
+                method: "POST",
+                headers: { ...FORM_HEADERS, Cookie: cookies(notice, jar) },
+                body: new URLSearchParams({ _token: await csrfToken(notice) }),
+            });
+
+            assertStatus(response, 200);
+            expect(await responseText(response)).toContain("A new verification link has been sent");
+            expect(SendVerificationEmailJob.handledJobs).toHaveLength(1);
+            expect(SendVerificationEmailJob.handledJobs[0]?.email).toBe("new@ninots.test");
+            expect(app.sent).toHaveLength(1);
+            expect(app.sent[0]?.to).toBe("new@ninots.test");
+            expect(app.sent[0]?.html).toContain("/email/verify/");
+        } finally {
+            app.stop();
+        }
+    });
+});
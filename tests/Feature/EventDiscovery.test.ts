@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import { EventDispatcher } from "@ninots/events";
+import { EventCacheCommand } from "@/app/Console/Commands/EventCacheCommand";
+import { EventClearCommand } from "@/app/Console/Commands/EventClearCommand";
+import { EventListCommand } from "@/app/Console/Commands/EventListCommand";
+import { EventDiscovery } from "@/app/Events/EventDiscovery";
+import { EventListenerRegistrar } from "@/app/Events/EventListenerRegistrar";
+
+const LISTENS_TO = join(import.meta.dir, "..", "..", "app", "Events", "ListensTo");
+
+const FILES: Record<string, string> = {
+    "app/Events/OrderEvents.ts": `
+export class OrderShipped { constructor(public readonly orderId: number) {} }
+export class OrderCancelled { constructor(public readonly orderId: number) {} }
+`,
+    "app/Listeners/SendShipmentNotification.ts": `
+import type { OrderShipped } from "../Events/OrderEvents";
+export class SendShipmentNotification {
+    public readonly shouldQueue = true;
+    public async handle(event: OrderShipped): Promise<void> {}
+}
+`,
+    "app/Listeners/AuditOrders.ts": `
+import { ListensTo } from "${LISTENS_TO}";
+import { OrderCancelled, OrderShipped } from "../Events/OrderEvents";
+@ListensTo(OrderShipped, OrderCancelled)
+export class AuditOrders {
+    public handle(event: unknown): void {}
+}
+export const notAListener = 42;
+`,
+    "app/Modules/Billing/Listeners/RefundPayment.ts": `
+import type { OrderCancelled as Cancelled } from "../../../Events/OrderEvents";
+export class RefundPayment {
+    public handle(event: Cancelled): void {}
+}
+`,
+};
+
+describe("event discovery", () => {
+    let basePath: string;
+    let discovery: EventDiscovery;
+
+    beforeEach(async () => {
+        basePath = await mkdtemp(join(tmpdir(), "ninots-events-"));
+        for (const [file, source] of Object.entries(FILES)) {
+            await mkdir(join(basePath, file, ".."), { recursive: true });
+            await writeFile(join(basePath, file), source);
+        }
+        discovery = new EventDiscovery({
+            basePath,
+            directories: ["app/Listeners", "app/Modules/*/Listeners"],
+            cache: "storage/framework/events.json",
+        });
+    });
+
+    afterEach(async () => {
+        await rm(basePath, { force: true, recursive: true });
+    });
+
+    test("infers events from handle() signatures, aliases and @ListensTo", () => {
+        expect(discovery.discover()).toEqual({
+            "app/Events/OrderEvents.ts#OrderShipped": [
+                "app/Listeners/AuditOrders.ts#AuditOrders",
+                "app/Listeners/SendShipmentNotification.ts#SendShipmentNotification",
+            ],
+            "app/Events/OrderEvents.ts#OrderCancelled": [
+                "app/Listeners/AuditOrders.ts#AuditOrders",
+                "app/Modules/Billing/Listeners/RefundPayment.ts#RefundPayment",
+            ],
+        });
+    });
+
+    test("event:cache writes the manifest that listeners() reads; event:clear removes it", async () => {
+        const kernel = new Kernel();
+        kernel.register(new EventCacheCommand({ resolveDiscovery: () => discovery }));
+        kernel.register(new EventClearCommand({ resolveDiscovery: () => discovery }));
+
+        expect(await kernel.run(["event:cache"])).toBe(0);
+        const manifest = JSON.parse(await readFile(join(basePath, "storage/framework/events.json"), "utf8"));
+        expect(manifest).toEqual(discovery.discover());
+
+        // The cached manifest wins over scanning: a new listener stays invisible until re-cached.
+        await writeFile(
+            join(basePath, "app/Listeners/Late.ts"),
+            `import type { OrderShipped } from "../Events/OrderEvents";\nexport class Late { handle(event: OrderShipped) {} }\n`,
+        );
+        const cached = discovery.listeners().map(([event, listeners]) => [event.name, listeners.map((l) => l.name)]);
+        expect(cached).toEqual([
+            ["OrderShipped", ["AuditOrders", "SendShipmentNotification"]],
+            ["OrderCancelled", ["AuditOrders", "RefundPayment"]],
+        ]);
+
+        expect(await kernel.run(["event:clear"])).toBe(0);
+        expect(discovery.cached()).toBeNull();
+        expect(discovery.listeners()[0]?.[1].map((listener) => listener.name)).toContain("Late");
+    });
+
+    test("event:list prints each event with its listeners and whether they are queued", async () => {
+        const bus = { dispatch: async () => {}, later: async () => {} };
+        const registrar = new EventListenerRegistrar(new EventDispatcher(), bus).register(discovery.listeners());
+        // Listing a discovered listener again in the provider does not register it twice.
+        registrar.register(discovery.listeners());
+        const lines: string[] = [];
+
+        const kernel = new Kernel();
+        kernel.setOutput({ writeLine: (text: string) => lines.push(text) });
+        kernel.register(new EventListCommand({ resolveRegistrar: () => registrar }));
+
+        expect(await kernel.run(["event:list"])).toBe(0);
+        expect(lines).toEqual([
+            "OrderCancelled",
+            "  ⇂ AuditOrders",
+            "  ⇂ RefundPayment",
+            "OrderShipped",
+            "  ⇂ AuditOrders",
+            "  ⇂ SendShipmentNotification (queued)",
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ROUTER_KEY } from "@ninots/foundation";
+import type { Router } from "@ninots/routing";
+import { ExceptionHandler } from "@/app/Exceptions/Handler";
+import { HttpException } from "@/app/Exceptions/HttpException";
+import { NotFoundException } from "@/app/Exceptions/NotFoundException";
+import { bootstrap, createAppServeOptions } from "@/bootstrap/app";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertJson, assertStatus, createTestApp, responseText } from "../support/http";
+
+class PaymentGatewayError extends Error {}
+
+describe("exception handler", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("GET /api/users/:id renders NotFoundException as 404 JSON", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/api/users/999");
+            assertStatus(response, 404);
+            await assertJson(response, { message: "User not found" });
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("web routes render the HTML error view unless JSON is accepted", async () => {
+        const app = await bootstrap();
+        const router = app.make<Router>(ROUTER_KEY);
+        router.group({ middleware: ["web"] }, () => {
+            router.get("/explode", () => {
+                throw new PaymentGatewayError("gateway timeout");
+            });
+        });
+
+        const server = Bun.serve({ ...createAppServeOptions(app), port: 0, hostname: "127.0.0.1" });
+        try {
+            const html = await fetch(`http://127.0.0.1:${server.port}/explode`);
+            assertStatus(html, 500);
+            expect(html.headers.get("Content-Type")).toContain("text/html");
+            expect(await responseText(html)).toContain("Server Error");
+
+            const json = await fetch(`http://127.0.0.1:${server.port}/explode`, {
+                headers: { Accept: "application/json" },
+            });
+            assertStatus(json, 500);
+            const body = (await json.json()) as Record<string, unknown>;
+            expect(typeof body.message).toBe("string");
+        } finally {
+            server.stop();
+        }
+    });
+
+    test("client errors and ignored types are not reported; reportable can stop propagation", async () => {
+        const reported: Error[] = [];
+        const handler = new ExceptionHandler({ debug: false, reporter: (error) => reported.push(error) });
+        const request = new Request("http://localhost/api/orders");
+
+        await handler.handle(request, new NotFoundException());
+        expect(reported).toHaveLength(0);
+
+        const seen: string[] = [];
+        handler.reportable(PaymentGatewayError, (error) => {
+            seen.push(error.message);
+            return false;
+        });
+        await handler.handle(request, new PaymentGatewayError("declined"));
+        expect(seen).toEqual(["declined"]);
+        expect(reported).toHaveLength(0);
+
+        await handler.handle(request, new Error("boom"));
+        expect(reported.map((error) => error.message)).toEqual(["boom"]);
+
+        handler.ignore(RangeError);
+        await handler.handle(request, new RangeError("ignored"));
+        expect(reported).toHaveLength(1);
+    });
+
+    test("HttpException headers and status are preserved; production hides internal messages", async () => {
+        const handler = new ExceptionHandler({ debug: false });
+        const request = new Request("http://localhost/api/ping", { headers: { Accept: "application/json" } });
+
+        const limited = await handler.render(request, new HttpException(503, "", { "Retry-After": "30" }));
+        assertStatus(limited, 503);
+        expect(limited.headers.get("Retry-After")).toBe("30");
+        await assertJson(limited, { message: "Service Unavailable" });
+
+        const internal = await handler.render(request, new Error("SQLSTATE secret"));
+        await assertJson(internal, { message: "Server Error" });
+    });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { QueueManager } from "@ninots/queue";
+import type { BatchRepository } from "@/app/Queue/BatchRepository";
+import type { Bus } from "@/app/Queue/Bus";
+import {
+    buildQueueManagerConfig,
+    createBatchRepository,
+    createBus,
+    createJobRegistry,
+} from "@/app/Queue/createQueueServices";
+import { DatabaseQueue } from "@/app/Queue/DatabaseQueue";
+import { FailedJobStore } from "@/app/Queue/FailedJobStore";
+import { type RetryableJob, Worker } from "@/app/Queue/Worker";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+/** Appends its label to {@link RecordingJob.log}; throws when `fail` is set. */
+class RecordingJob implements RetryableJob {
+    public static log: string[] = [];
+
+    public readonly jobName = "RecordingJob";
+
+    constructor(
+        private readonly label: string,
+        private readonly fail = false,
+    ) {}
+
+    public toData(): Record<string, unknown> {
+        return { label: this.label, fail: this.fail };
+    }
+
+    public async handle(): Promise<void> {
+        if (this.fail) {
+            throw new Error(`${this.label} failed`);
+        }
+        RecordingJob.log.push(this.label);
+    }
+}
+
+describe("delayed jobs, chains and batches", () => {
+    let clock: Date;
+    let queue: DatabaseQueue;
+    let batches: BatchRepository;
+    let bus: Bus;
+    let worker: Worker;
+
+    /** Run every job that is available right now. */
+    const work = async () => {
+        while (await worker.runNextJob()) {
+            // keep draining
+        }
+    };
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        RecordingJob.log = [];
+        clock = new Date("2026-01-01T12:00:00Z");
+        queue = new DatabaseQueue(
+            { driver: "sqlite", table: "jobs", queue: "default", retryAfter: 90 },
+            getDatabaseManager,
+            () => clock,
+        );
+        const manager = new QueueManager({ ...buildQueueManagerConfig(), default: "database" });
+        manager.extend("database", () => queue);
+
+        batches = createBatchRepository();
+        const registry = createJobRegistry(manager, batches).register(
+            "RecordingJob",
+            (data: Record<string, unknown>) => new RecordingJob(String(data.label), data.fail === true),
+        );
+        bus = createBus(manager, registry, batches);
+        worker = new Worker({
+            connection: "database",
+            queue,
+            registry,
+            failedJobs: new FailedJobStore({ table: "failed_jobs" }),
+        });
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("onboarding: verification now, reminder in 24h, cleanup after 7 days", async () => {
+        await bus.dispatch(new RecordingJob("verify"));
+        await bus.later(24 * 60 * 60, new RecordingJob("reminder"));
+        await bus.later(new Date(clock.getTime() + 7 * 24 * 60 * 60_000), new RecordingJob("cleanup"));
+
+        await work();
+        expect(RecordingJob.log).toEqual(["verify"]);
+
+        clock = new Date(clock.getTime() + 24 * 60 * 60_000);
+        await work();
+        expect(RecordingJob.log).toEqual(["verify", "reminder"]);
+
+        clock = new Date(clock.getTime() + 6 * 24 * 60 * 60_000);
+        await work();
+        expect(RecordingJob.log).toEqual(["verify", "reminder", "cleanup"]);
+    });
+
+    test("the sync connection refuses to delay jobs instead of running them right away", async () => {
+        const manager = new QueueManager({ ...buildQueueManagerConfig(), default: "sync" });
+        const sync = createBus(manager, createJobRegistry(manager, batches), batches);
+
+        await expect(sync.later(60, new RecordingJob("reminder"))).rejects.toThrow("cannot delay them");
+        expect(RecordingJob.log).toEqual([]);
+    });
+
+    test("a chain runs in order and stops at the first failure", async () => {
+        await bus.chain([new RecordingJob("one"), new RecordingJob("two"), new RecordingJob("three")]);
+        await work();
+        expect(RecordingJob.log).toEqual(["one", "two", "three"]);
+
+        RecordingJob.log = [];
+        await bus.chain([new RecordingJob("a"), new RecordingJob("b", true), new RecordingJob("c")]);
+        await work();
+        expect(RecordingJob.log).toEqual(["a"]);
+        expect(await queue.size()).toBe(0);
+    });
+
+    test("chains and batches keep their follow-up jobs on the queue they were dispatched to", async () => {
+        const drain = async (name: string) => {
+            while (await worker.runNextJob(name)) {
+                // keep draining
+            }
+        };
+
+        await bus.chain([new RecordingJob("one"), new RecordingJob("two")], { queue: "emails" });
+        await work();
+        expect(RecordingJob.log).toEqual([]);
+        await drain("emails");
+        expect(RecordingJob.log).toEqual(["one", "two"]);
+
+        RecordingJob.log = [];
+        await bus
+            .batch([new RecordingJob("a")])
+            .onQueue("imports")
+            .onFinish(new RecordingJob("finally"))
+            .dispatch();
+        await drain("imports");
+        expect(RecordingJob.log).toEqual(["a", "finally"]);
+        expect(await queue.size()).toBe(0);
+    });
+
+    test("a batch tracks progress and dispatches success and finish callbacks", async () => {
+        const batch = await bus
+            .batch([new RecordingJob("a"), new RecordingJob("b"), new RecordingJob("c")])
+            .name("import")
+            .onSuccess(new RecordingJob("then"))
+            .onFailure(new RecordingJob("catch"))
+            .onFinish(new RecordingJob("finally"))
+            .dispatch();
+        expect(batch.totalJobs).toBe(3);
+        expect(batch.progress()).toBe(0);
+
+        await worker.runNextJob();
+        expect((await bus.findBatch(batch.id))?.progress()).toBe(33);
+
+        await work();
+        const finished = await bus.findBatch(batch.id);
+        expect(finished?.finished()).toBe(true);
+        expect(finished?.progress()).toBe(100);
+        expect(RecordingJob.log).toEqual(["a", "b", "c", "then", "finally"]);
+    });
+
+    test("a failure cancels the batch and dispatches the failure callback", async () => {
+        const batch = await bus
+            .batch([new RecordingJob("a", true), new RecordingJob("b")])
+            .onSuccess(new RecordingJob("then"))
+            .onFailure(new RecordingJob("catch"))
+            .onFinish(new RecordingJob("finally"))
+            .dispatch();
+
+        await work();
+
+        const result = await bus.findBatch(batch.id);
+        expect(result?.failedJobs).toBe(1);
+        expect(result?.cancelled()).toBe(true);
+        expect(result?.finished()).toBe(true);
+        expect(RecordingJob.log).toEqual(["catch", "finally"]);
+    });
+
+    test("cancelled batches skip the jobs that have not run yet", async () => {
+        const batch = await bus.batch([new RecordingJob("a"), new RecordingJob("b")]).dispatch();
+
+        await worker.runNextJob();
+        await bus.cancelBatch(batch.id);
+        await work();
+
+        expect(RecordingJob.log).toEqual(["a"]);
+        expect((await bus.findBatch(batch.id))?.finished()).toBe(true);
+    });
+});
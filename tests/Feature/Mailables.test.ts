@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import type { ArrayTransport } from "@ninots/mail";
+import { MakeMailCommand } from "@/app/Console/Commands/MakeMailCommand";
+import { SendVerificationEmailJob } from "@/app/Jobs/SendVerificationEmailJob";
+import { createMailManager } from "@/app/Mail/createMailServices";
+import { htmlToText } from "@/app/Mail/htmlToText";
+import { type Attachment, type Content, type Envelope, Mailable } from "@/app/Mail/Mailable";
+import { VerifyEmailMail, type VerifyEmailMailProps } from "@/resources/views/mail/verify-email";
+
+function arrayMailer() {
+    return createMailManager({
+        default: "array",
+        from: { address: "hello@example.com", name: "Ninots App" },
+        mailers: { array: { driver: "array" } },
+    });
+}
+
+class InvoiceMail extends Mailable<VerifyEmailMailProps> {
+    public envelope(): Envelope {
+        return {
+            subject: "Your invoice",
+            from: { address: "billing@ninots.test", name: "Billing" },
+            replyTo: "support@ninots.test",
+            cc: ["accounts@ninots.test"],
+            bcc: "audit@ninots.test",
+        };
+    }
+
+    public content(): Content<VerifyEmailMailProps> {
+        return {
+            view: VerifyEmailMail,
+            props: { url: "https://ninots.test/invoices/7?download=1&v=2", expiresInMinutes: 5 },
+        };
+    }
+
+    public override attachments(): Attachment[] {
+        return [{ filename: "invoice.csv", content: "id,total\n7,42.00\n", contentType: "text/csv" }];
+    }
+}
+
+describe("mailables", () => {
+    test("send renders the TSX view, a plain-text part, envelope and attachments", async () => {
+        const mail = arrayMailer();
+        await mail.send(new InvoiceMail().to("ada@ninots.test"));
+
+        const transport = mail.mailer("array").getTransport() as ArrayTransport;
+        expect(transport.messages).toHaveLength(1);
+        const message = transport.messages[0] as unknown as Record<string, unknown>;
+        expect(message.to).toBe("ada@ninots.test");
+        expect(message.subject).toBe("Your invoice");
+        expect(message.from).toEqual({ address: "billing@ninots.test", name: "Billing" });
+        expect(message.replyTo).toBe("support@ninots.test");
+        expect(message.cc).toEqual(["accounts@ninots.test"]);
+        expect(message.bcc).toBe("audit@ninots.test");
+        expect(String(message.html)).toContain("<title>Verify your email</title>");
+        expect(String(message.html)).toContain('href="https://ninots.test/invoices/7?download=1&amp;v=2"');
+        expect(String(message.text)).toContain("Verify email address (https://ninots.test/invoices/7?download=1&v=2)");
+        expect(String(message.text)).not.toContain("<");
+        expect(message.attachments).toEqual([
+            { filename: "invoice.csv", content: "id,total\n7,42.00\n", contentType: "text/csv" },
+        ]);
+    });
+
+    test("a mailable without recipients cannot be built", async () => {
+        await expect(new InvoiceMail().build()).rejects.toThrow("InvoiceMail has no recipients");
+    });
+
+    test("htmlToText drops styles, keeps paragraphs and list items", () => {
+        const text = htmlToText(
+            "<html><head><style>p { color: red; }</style></head><body><h1>Hi &amp; welcome</h1><p>One</p><ul><li>A</li><li>B</li></ul></body></html>",
+        );
+
+        expect(text).toBe("Hi & welcome\n\nOne\n\n- A\n- B");
+    });
+
+    test("the verification job sends VerifyEmailMail with the signed link", async () => {
+        const mail = arrayMailer();
+        const job = new SendVerificationEmailJob(1, "new@ninots.test").withMail(mail);
+        await job.handle();
+        SendVerificationEmailJob.resetHandledJobs();
+
+        const transport = mail.mailer("array").getTransport() as ArrayTransport;
+        const message = transport.messages[0];
+        expect(message?.subject).toBe("Verify your email");
+        expect(String(message?.html)).toContain("/email/verify/1/");
+        expect(String(message?.text)).toMatch(/Verify email address \(http[^)]+\/email\/verify\/1\//);
+    });
+});
+
+describe("nino make:mail", () => {
+    let root = "";
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), "ninots-make-mail-"));
+    });
+
+    afterEach(async () => {
+        await rm(root, { force: true, recursive: true });
+    });
+
+    test("scaffolds the mailable and its TSX view", async () => {
+        const kernel = new Kernel();
+        kernel.register(new MakeMailCommand({ paths: { basePath: root } }));
+
+        expect(await kernel.run(["make:mail", "OrderShipped"])).toBe(0);
+
+        const mailable = await readFile(join(root, "app/Mail/OrderShipped.ts"), "utf8");
+        expect(mailable).toContain("export class OrderShipped extends Mailable<OrderShippedProps>");
+        expect(mailable).toContain('from "@/resources/views/mail/order-shipped"');
+        const view = await readFile(join(root, "resources/views/mail/order-shipped.tsx"), "utf8");
+        expect(view).toContain("withLayout(MailLayout, OrderShippedPage");
+
+        expect(await kernel.run(["make:mail", "OrderShipped"])).toBe(1);
+        expect(await kernel.run(["make:mail", "order_shipped"])).toBe(1);
+        expect(existsSync(join(root, "app/Mail/order_shipped.ts"))).toBe(false);
+    });
+});
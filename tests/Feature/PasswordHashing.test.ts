@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Hasher } from "@/app/Hashing/Hasher";
+import { User } from "@/app/Models/User";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+describe("User password hashing + hidden attributes", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("password is stored as an argon2id hash on save", async () => {
+        const user = await User.factory().create({ password: "plain-secret" });
+
+        const rows = await getDatabaseManager()
+            .connection()
+            .query<{ password: string }>("SELECT password FROM users WHERE id = ?", [user.id]);
+        const stored = rows[0]?.password ?? "";
+
+        expect(stored.startsWith("$argon2id$")).toBe(true);
+        expect(await new Hasher().check("plain-secret", stored)).toBe(true);
+    });
+
+    test("saving again does not double-hash an existing hash", async () => {
+        const user = await User.factory().create({ password: "plain-secret" });
+        const first = String(user.getAttribute("password"));
+
+        user.fill({ name: "Renamed" });
+        await user.save();
+
+        expect(user.getAttribute("password")).toBe(first);
+    });
+
+    test("a password that only looks like a hash prefix is still hashed", async () => {
+        const user = await User.factory().create({ password: "$2y$hunter2-but-longer" });
+        const stored = String(user.getAttribute("password"));
+
+        expect(stored.startsWith("$argon2id$")).toBe(true);
+        expect(await new Hasher().check("$2y$hunter2-but-longer", stored)).toBe(true);
+        expect(new Hasher().isHashed("$argon2id$not-a-real-hash")).toBe(false);
+    });
+
+    test("bcrypt hasher verifies and flags argon hashes for rehash", async () => {
+        const bcrypt = new Hasher({ algorithm: "bcrypt", rounds: 4 });
+        const hash = await bcrypt.make("plain-secret");
+
+        expect(hash.startsWith("$2")).toBe(true);
+        expect(await bcrypt.check("plain-secret", hash)).toBe(true);
+        expect(bcrypt.needsRehash(await new Hasher().make("plain-secret"))).toBe(true);
+    });
+
+    test("GET /api/users never serializes the password", async () => {
+        await User.factory().create({ email: "hidden@ninots.test" });
+
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/api/users");
+            assertStatus(response, 200);
+
+            const body = (await response.json()) as { data: Record<string, unknown>[] };
+            expect(body.data[0]?.email).toBe("hidden@ninots.test");
+            expect(body.data[0]).not.toHaveProperty("password");
+        } finally {
+            t.stop();
+        }
+    });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { ArrayTransport } from "@ninots/mail";
+import { createPasswordBroker, PASSWORD_BROKER_KEY } from "@/app/Auth/createAuthServices";
+import { PASSWORD_RESET_MESSAGES, PasswordBroker } from "@/app/Auth/Passwords/PasswordBroker";
+import { EloquentUserProvider } from "@/app/Auth/UserProvider";
+import { Hasher } from "@/app/Hashing/Hasher";
+import { createMailManager } from "@/app/Mail/createMailServices";
+import { User } from "@/app/Models/User";
+import { createAppNotificationSender } from "@/app/Notifications/createNotificationServices";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp, responseText } from "../support/http";
+
+function arrayMailer() {
+    return createMailManager({
+        default: "array",
+        from: { address: "hello@example.com", name: "Ninots App" },
+        mailers: {
+            array: { driver: "array" },
+            log: { driver: "log" },
+            smtp: { driver: "smtp", host: "127.0.0.1", port: 2525 },
+        },
+    });
+}
+
+describe("password reset broker", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("emails a hashed, throttled, expiring reset token", async () => {
+        await User.factory().create({ email: "reset@ninots.test" });
+        const mail = arrayMailer();
+        let now = new Date("2026-01-01T00:00:00Z");
+        const broker = new PasswordBroker(
+            new EloquentUserProvider(new Hasher()),
+            createAppNotificationSender(mail),
+            { table: "password_reset_tokens", expire: 60, throttle: 60 },
+            () => now,
+        );
+
+        expect(await broker.sendResetLink("missing@ninots.test")).toBe("passwords.user");
+        expect(await broker.sendResetLink("reset@ninots.test")).toBe("passwords.sent");
+        expect(await broker.sendResetLink("reset@ninots.test")).toBe("passwords.throttled");
+
+        const transport = mail.mailer("array").getTransport() as ArrayTransport;
+        expect(transport.messages).toHaveLength(1);
+        const text = String(transport.messages[0]?.text ?? "");
+        const token = /\/reset-password\/([a-f0-9]+)\?email=reset%40ninots\.test/.exec(text)?.[1] ?? "";
+        expect(token).not.toBe("");
+
+        const rows = await getDatabaseManager()
+            .connection()
+            .query<{ token: string }>("SELECT token FROM password_reset_tokens WHERE email = ?", ["reset@ninots.test"]);
+        expect(rows[0]?.token).not.toBe(token);
+        expect(await broker.tokenExists("reset@ninots.test", token)).toBe(true);
+        // An unknown email reads like a bad token, so the reset form reveals no accounts.
+        expect(await broker.reset({ email: "missing@ninots.test", token, password: "new-password" })).toBe(
+            "passwords.token",
+        );
+
+        now = new Date("2026-01-01T01:00:00Z");
+        expect(await broker.tokenExists("reset@ninots.test", token)).toBe(false);
+        expect(await broker.sendResetLink("reset@ninots.test")).toBe("passwords.sent");
+    });
+
+    test("reset form updates the hashed password and consumes the token", async () => {
+        await User.factory().create({ email: "flow@ninots.test", password: "old-password" });
+
+        const t = await createTestApp();
+        try {
+            const broker = t.app.make<PasswordBroker>(PASSWORD_BROKER_KEY);
+            const token = await broker.createToken("flow@ninots.test");
+
+            const form = await t.get(`/reset-password/${token}?email=flow%40ninots.test`);
+            assertStatus(form, 200);
+            const html = await responseText(form);
+            expect(html).toContain(`value="${token}"`);
+
+            const csrf = /name="_token"\s+value="([^"]+)"/.exec(html)?.[1] ?? "";
+            const session = /ninots_session=([^;]+)/.exec(form.headers.get("set-cookie") ?? "")?.[1] ?? "";
+            const submit = (password: string) =>
+                t.post("/reset-password", {
+                    headers: {
+                        "Content-Type": "application/x-www-form-urlencoded",
+                        Cookie: `ninots_session=${session}`,
+                    },
+                    body: new URLSearchParams({
+                        _token: csrf,
+                        token,
+                        email: "flow@ninots.test",
+                        password,
+                        password_confirmation: password,
+                    }).toString(),
+                });
+
+            const response = await submit("brand-new-password");
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/login");
+
+            const user = await User.find(1);
+            expect(await new Hasher().check("brand-new-password", String(user?.getAttribute("password")))).toBe(true);
+
+            assertStatus(await submit("another-password"), 422);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("throttled and unknown emails get the same answer as a sent link", async () => {
+        await User.factory().create({ email: "known@ninots.test" });
+
+        const t = await createTestApp();
+        try {
+            const form = await t.get("/forgot-password");
+            const csrf = /name="_token"\s+value="([^"]+)"/.exec(await responseText(form))?.[1] ?? "";
+            const session = /ninots_session=([^;]+)/.exec(form.headers.get("set-cookie") ?? "")?.[1] ?? "";
+            const request = async (email: string) => {
+                const response = await t.post("/forgot-password", {
+                    headers: {
+                        "Content-Type": "application/x-www-form-urlencoded",
+                        Cookie: `ninots_session=${session}`,
+                    },
+                    body: new URLSearchParams({ _token: csrf, email }).toString(),
+                });
+                return { status: response.status, html: await responseText(response) };
+            };
+
+            const sent = await request("known@ninots.test");
+            const throttled = await request("known@ninots.test");
+            const unknown = await request("nobody@ninots.test");
+
+            expect(sent.status).toBe(200);
+            expect(throttled.status).toBe(200);
+            expect(unknown.status).toBe(200);
+            expect(throttled.html).toContain(PASSWORD_RESET_MESSAGES["passwords.sent"]);
+            expect(unknown.html).toContain(PASSWORD_RESET_MESSAGES["passwords.sent"]);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("container builds the users broker from config/auth", async () => {
+        const broker = createPasswordBroker(new Hasher(), createAppNotificationSender(arrayMailer()));
+        expect(await broker.tokenExists("nobody@ninots.test", "token")).toBe(false);
+    });
+});
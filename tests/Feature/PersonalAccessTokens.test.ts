@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Kernel } from "@ninots/console";
+import { TokenCreateCommand } from "@/app/Console/Commands/TokenCreateCommand";
+import { TokenRevokeCommand } from "@/app/Console/Commands/TokenRevokeCommand";
+import { registerAuthenticateMiddleware } from "@/app/Http/Middleware/Authenticate";
+import { registerTokenAbilitiesMiddleware } from "@/app/Http/Middleware/EnsureTokenAbilities";
+import { ParameterizedMiddlewareStack } from "@/app/Http/Middleware/ParameterizedMiddlewareStack";
+import { PersonalAccessToken } from "@/app/Models/PersonalAccessToken";
+import { User } from "@/app/Models/User";
+import { PersonalAccessTokenService } from "@/app/Services/PersonalAccessTokenService";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+describe("personal access tokens", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("tokens are stored hashed and resolve until they expire", async () => {
+        let now = new Date("2026-01-01T00:00:00Z");
+        const tokens = new PersonalAccessTokenService(() => now);
+        const user = await User.factory().create();
+
+        const { accessToken, plainTextToken } = await tokens.create(user, "deploy", {
+            abilities: ["user:read"],
+            expiresAt: new Date("2026-01-02T00:00:00Z"),
+        });
+
+        const secret = plainTextToken.split("|")[1] ?? "";
+        expect(accessToken.getAttribute("token")).not.toBe(secret);
+        expect((await tokens.findToken(plainTextToken))?.can("user:read")).toBe(true);
+        expect((await tokens.findToken(plainTextToken))?.can("user:write")).toBe(false);
+        expect(await tokens.findToken(`${String(accessToken.getAttribute("id"))}|wrong`)).toBeNull();
+
+        now = new Date("2026-01-03T00:00:00Z");
+        expect(await tokens.findToken(plainTextToken)).toBeNull();
+    });
+
+    test("a corrupt abilities column grants no abilities", () => {
+        const token = new PersonalAccessToken();
+        token.fill({ abilities: "[user:read" });
+
+        expect(token.abilities()).toEqual([]);
+        expect(token.can("user:read")).toBe(false);
+    });
+
+    test("bearer token authenticates /api/user and exposes abilities", async () => {
+        const user = await User.factory().create({ name: "Token User" });
+        const tokens = new PersonalAccessTokenService();
+        const readable = await tokens.create(user, "reader", { abilities: ["user:read"] });
+        const limited = await tokens.create(user, "writer", { abilities: ["user:write"] });
+
+        const t = await createTestApp();
+        try {
+            const guest = await t.get("/api/user");
+            assertStatus(guest, 401);
+
+            const response = await t.get("/api/user", {
+                headers: { Authorization: `Bearer ${readable.plainTextToken}` },
+            });
+            assertStatus(response, 200);
+            const body = (await response.json()) as { data: { name: string }; meta: { abilities: string[] } };
+            expect(body.data.name).toBe("Token User");
+            expect(body.meta.abilities).toEqual(["user:read"]);
+
+            const stored = await PersonalAccessToken.find(Number(readable.accessToken.getAttribute("id")));
+            expect(stored?.getAttribute("last_used_at")).toBeString();
+
+            const forbidden = await t.get("/api/user", {
+                headers: { Authorization: `Bearer ${limited.plainTextToken}` },
+            });
+            assertStatus(forbidden, 403);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("auth:<guard> and abilities:<a>,<b> resolve for any guard and ability list", () => {
+        const stack = new ParameterizedMiddlewareStack();
+        registerAuthenticateMiddleware(stack);
+        registerTokenAbilitiesMiddleware(stack);
+
+        expect(stack.get("auth:token")).toBeDefined();
+        expect(stack.get("abilities:user:read,user:write")).toBeDefined();
+        expect(() => stack.get("auth:nope")).toThrow("Auth guard [nope] is not defined");
+    });
+
+    test("token:create and token:revoke manage tokens for a user", async () => {
+        const user = await User.factory().create({ email: "cli@ninots.test" });
+        const output: string[] = [];
+        const kernel = new Kernel();
+        kernel.setOutput({
+            writeLine(text: string): void {
+                output.push(text);
+            },
+        });
+        const resolveTokens = () => new PersonalAccessTokenService();
+        kernel.register(new TokenCreateCommand({ resolveTokens }));
+        kernel.register(new TokenRevokeCommand({ resolveTokens }));
+
+        expect(await kernel.run(["token:create", "cli@ninots.test", "--name=ci", "--abilities=user:read"])).toBe(0);
+        const plainTextToken = output.find((line) => /^\d+\|[a-f0-9]+$/.test(line)) ?? "";
+        expect((await resolveTokens().findToken(plainTextToken))?.abilities()).toEqual(["user:read"]);
+
+        expect(await kernel.run(["token:create", "missing@ninots.test"])).toBe(1);
+
+        expect(await kernel.run(["token:revoke", "--user=cli@ninots.test"])).toBe(0);
+        expect(await resolveTokens().tokensFor(Number(user.getAttribute("id")))).toHaveLength(0);
+    });
+});
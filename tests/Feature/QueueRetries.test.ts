@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Kernel } from "@ninots/console";
+import { JobRegistry } from "@ninots/queue";
+import { QueueFailedCommand } from "@/app/Console/Commands/QueueFailedCommand";
+import { QueueFlushCommand } from "@/app/Console/Commands/QueueFlushCommand";
+import { QueueForgetCommand } from "@/app/Console/Commands/QueueForgetCommand";
+import { QueueRetryCommand } from "@/app/Console/Commands/QueueRetryCommand";
+import { DatabaseQueue } from "@/app/Queue/DatabaseQueue";
+import { FailedJobStore } from "@/app/Queue/FailedJobStore";
+import { JobTimeoutException, MaxAttemptsExceededException, type RetryableJob, Worker } from "@/app/Queue/Worker";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+/** Fails until it has run `succeedOn` times; records `failed()` calls. */
+class FlakyJob implements RetryableJob {
+    public static runs = 0;
+    public static failures: unknown[] = [];
+
+    public readonly jobName = "FlakyJob";
+    public readonly tries = 3;
+    public readonly backoff = [5, 30];
+
+    constructor(private readonly succeedOn: number) {}
+
+    public toData(): Record<string, unknown> {
+        return { succeedOn: this.succeedOn };
+    }
+
+    public async handle(): Promise<void> {
+        FlakyJob.runs += 1;
+        if (FlakyJob.runs < this.succeedOn) {
+            throw new Error(`run ${String(FlakyJob.runs)} failed`);
+        }
+    }
+
+    public failed(error: unknown): void {
+        FlakyJob.failures.push(error);
+    }
+}
+
+class SlowJob implements RetryableJob {
+    public readonly jobName = "SlowJob";
+    public readonly timeout = 0.05;
+
+    public toData(): Record<string, unknown> {
+        return {};
+    }
+
+    public async handle(): Promise<void> {
+        await Bun.sleep(200);
+    }
+}
+
+/** Stops as soon as its signal aborts; records what it saw. */
+class AbortableJob implements RetryableJob {
+    public static aborted: unknown[] = [];
+
+    public readonly jobName = "AbortableJob";
+    public readonly timeout = 0.05;
+    public readonly tries = 2;
+
+    public toData(): Record<string, unknown> {
+        return {};
+    }
+
+    public async handle(signal?: AbortSignal): Promise<void> {
+        await new Promise<void>((resolve) => signal?.addEventListener("abort", () => resolve(), { once: true }));
+        AbortableJob.aborted.push(signal?.reason);
+    }
+}
+
+/** Always fails, and so does its `failed()` hook. */
+class BrokenHookJob implements RetryableJob {
+    public readonly jobName = "BrokenHookJob";
+
+    public toData(): Record<string, unknown> {
+        return {};
+    }
+
+    public async handle(): Promise<void> {
+        throw new Error("handle failed");
+    }
+
+    public failed(): void {
+        throw new Error("hook failed");
+    }
+}
+
+describe("queue retries and failed jobs", () => {
+    let clock: Date;
+    let queue: DatabaseQueue;
+    let failedJobs: FailedJobStore;
+    let worker: Worker;
+
+    const advance = (seconds: number) => {
+        clock = new Date(clock.getTime() + seconds * 1000);
+    };
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        FlakyJob.runs = 0;
+        FlakyJob.failures = [];
+        AbortableJob.aborted = [];
+        clock = new Date("2026-01-01T12:00:00Z");
+        queue = new DatabaseQueue(
+            { driver: "sqlite", table: "jobs", queue: "default", retryAfter: 90 },
+            getDatabaseManager,
+            () => clock,
+        );
+        failedJobs = new FailedJobStore({ table: "failed_jobs" }, getDatabaseManager, () => clock);
+        const registry = new JobRegistry()
+            .register("FlakyJob", (data: Record<string, unknown>) => new FlakyJob(Number(data.succeedOn)))
+            .register("SlowJob", () => new SlowJob())
+            .register("AbortableJob", () => new AbortableJob())
+            .register("BrokenHookJob", () => new BrokenHookJob());
+        worker = new Worker({ connection: "database", queue, registry, failedJobs });
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("retries with per-attempt backoff until the job succeeds", async () => {
+        await queue.push(new FlakyJob(3));
+
+        expect(await worker.runNextJob()).toBe(true);
+        expect(await worker.runNextJob()).toBe(false);
+        advance(5);
+        expect(await worker.runNextJob()).toBe(true);
+        advance(29);
+        expect(await worker.runNextJob()).toBe(false);
+        advance(1);
+        expect(await worker.runNextJob()).toBe(true);
+
+        expect(FlakyJob.runs).toBe(3);
+        expect(await queue.size()).toBe(0);
+        expect(await failedJobs.all()).toHaveLength(0);
+    });
+
+    test("records the job in failed_jobs and calls failed() once tries run out", async () => {
+        await queue.push(new FlakyJob(10));
+
+        for (const wait of [0, 5, 30]) {
+            advance(wait);
+            await worker.runNextJob();
+        }
+
+        expect(await queue.size()).toBe(0);
+        const [failed] = await failedJobs.all();
+        expect(failed?.payload).toEqual({ jobName: "FlakyJob", data: { succeedOn: 10 } });
+        expect(failed?.queue).toBe("default");
+        expect(failed?.exception).toContain("run 3 failed");
+        expect(FlakyJob.failures).toHaveLength(1);
+    });
+
+    test("a job running past its timeout fails", async () => {
+        await queue.push(new SlowJob());
+        const errors: unknown[] = [];
+
+        await worker.runNextJob(undefined, (error) => errors.push(error));
+
+        expect(errors[0]).toBeInstanceOf(JobTimeoutException);
+        expect((await failedJobs.all())[0]?.exception).toContain("exceeded its 0.05s timeout");
+    });
+
+    test("a timed-out job is aborted and only released once it has stopped", async () => {
+        await queue.push(new AbortableJob());
+
+        await worker.runNextJob();
+
+        expect(AbortableJob.aborted).toHaveLength(1);
+        expect(AbortableJob.aborted[0]).toBeInstanceOf(JobTimeoutException);
+        expect(await queue.size()).toBe(1);
+        expect(await failedJobs.all()).toHaveLength(0);
+    });
+
+    test("a job handed out again after its reservation expired fails once tries are used up", async () => {
+        await queue.push(new FlakyJob(10));
+        // A worker reserved every attempt and died mid-run each time.
+        for (let attempt = 0; attempt < 3; attempt++) {
+            expect(await queue.pop()).not.toBeNull();
+            advance(91);
+        }
+        const errors: unknown[] = [];
+
+        expect(await worker.runNextJob(undefined, (error) => errors.push(error))).toBe(true);
+
+        expect(FlakyJob.runs).toBe(0);
+        expect(errors[0]).toBeInstanceOf(MaxAttemptsExceededException);
+        expect(await queue.size()).toBe(0);
+        expect((await failedJobs.all())[0]?.exception).toContain("attempted too many times");
+        expect(FlakyJob.failures).toHaveLength(1);
+    });
+
+    test("errors from failed() and the failed-job store are reported, not thrown", async () => {
+        await queue.push(new BrokenHookJob());
+        const errors: string[] = [];
+        const report = (error: unknown) => errors.push(error instanceof Error ? error.message : String(error));
+
+        await worker.runNextJob(undefined, report);
+        expect(errors).toEqual(["handle failed", "hook failed"]);
+        expect(await failedJobs.all()).toHaveLength(1);
+
+        await queue.push(new BrokenHookJob());
+        failedJobs.log = async () => {
+            throw new Error("store down");
+        };
+        errors.length = 0;
+
+        await worker.runNextJob(undefined, report);
+        expect(errors).toEqual(["handle failed", "store down", "hook failed"]);
+        expect(await queue.size()).toBe(0);
+    });
+
+    test("a failing delete is reported without retrying or failing a job that succeeded", async () => {
+        await queue.push(new FlakyJob(1));
+        const reserved = await queue.pop();
+        if (reserved === null) {
+            throw new Error("expected a reserved job");
+        }
+        const errors: string[] = [];
+        const report = (error: unknown) => errors.push(error instanceof Error ? error.message : String(error));
+
+        await worker.process({ ...reserved, delete: () => Promise.reject(new Error("store down")) }, report);
+
+        expect(FlakyJob.runs).toBe(1);
+        expect(errors).toEqual(["store down"]);
+        expect(await failedJobs.all()).toHaveLength(0);
+
+        await queue.push(new BrokenHookJob());
+        const broken = await queue.pop();
+        if (broken === null) {
+            throw new Error("expected a reserved job");
+        }
+        errors.length = 0;
+        await worker.process({ ...broken, delete: () => Promise.reject(new Error("store down")) }, report);
+        expect(errors).toEqual(["handle failed", "store down", "hook failed"]);
+    });
+
+    test("queue:failed, queue:retry, queue:forget and queue:flush manage failed jobs", async () => {
+        const output: string[] = [];
+        const kernel = new Kernel();
+        kernel.setOutput({
+            writeLine(text: string): void {
+                output.push(text);
+            },
+        });
+        const resolveFailedJobs = () => failedJobs;
+        kernel.register(new QueueFailedCommand({ resolveFailedJobs }));
+        kernel.register(new QueueRetryCommand({ resolveFailedJobs, resolveQueue: () => queue }));
+        kernel.register(new QueueForgetCommand({ resolveFailedJobs }));
+        kernel.register(new QueueFlushCommand({ resolveFailedJobs }));
+
+        for (const succeedOn of [1, 2, 3]) {
+            await failedJobs.log(
+                "database",
+                "default",
+                { jobName: "FlakyJob", data: { succeedOn } },
+                new Error("boom"),
+            );
+        }
+        const [third, second, first] = await failedJobs.all();
+
+        expect(await kernel.run(["queue:failed"])).toBe(0);
+        expect(output.filter((line) => line.includes("FlakyJob"))).toHaveLength(3);
+
+        expect(await kernel.run(["queue:retry", String(first?.id)])).toBe(0);
+        expect(await queue.size()).toBe(1);
+        expect((await queue.pop())?.data).toEqual({ succeedOn: 1 });
+
+        expect(await kernel.run(["queue:forget", String(second?.id)])).toBe(0);
+        expect(await kernel.run(["queue:forget", String(second?.id)])).toBe(1);
+        expect((await failedJobs.all()).map((job) => job.id)).toEqual([Number(third?.id)]);
+
+        expect(await kernel.run(["queue:flush"])).toBe(0);
+        expect(await failedJobs.all()).toHaveLength(0);
+        expect(await kernel.run(["queue:retry", "all"])).toBe(1);
+    });
+});
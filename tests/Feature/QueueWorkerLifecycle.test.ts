@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Kernel } from "@ninots/console";
+import { JobRegistry } from "@ninots/queue";
+import { QueueRestartCommand } from "@/app/Console/Commands/QueueRestartCommand";
+import { DatabaseQueue } from "@/app/Queue/DatabaseQueue";
+import { FailedJobStore } from "@/app/Queue/FailedJobStore";
+import { type RetryableJob, Worker, type WorkerOptions } from "@/app/Queue/Worker";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+/** Records its label when handled, optionally after `ms` of work. */
+class RecordJob implements RetryableJob {
+    public static handled: string[] = [];
+
+    public readonly jobName = "RecordJob";
+
+    constructor(
+        private readonly label: string,
+        private readonly ms = 0,
+    ) {}
+
+    public toData(): Record<string, unknown> {
+        return { label: this.label, ms: this.ms };
+    }
+
+    public async handle(): Promise<void> {
+        if (this.ms > 0) {
+            await Bun.sleep(this.ms);
+        }
+        RecordJob.handled.push(this.label);
+    }
+}
+
+class MemoryCache {
+    public readonly items = new Map<string, unknown>();
+
+    public async get<T>(key: string): Promise<T | undefined> {
+        return this.items.get(key) as T | undefined;
+    }
+
+    public async put(key: string, value: unknown): Promise<void> {
+        this.items.set(key, value);
+    }
+}
+
+describe("queue worker lifecycle", () => {
+    let queue: DatabaseQueue;
+    let cache: MemoryCache;
+
+    function worker(overrides: Partial<WorkerOptions> = {}): Worker {
+        const registry = new JobRegistry().register(
+            "RecordJob",
+            (data: Record<string, unknown>) => new RecordJob(String(data.label), Number(data.ms)),
+        );
+        return new Worker({
+            connection: "database",
+            queue,
+            registry,
+            failedJobs: new FailedJobStore({ table: "failed_jobs" }, getDatabaseManager),
+            cache,
+            ...overrides,
+        });
+    }
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        RecordJob.handled = [];
+        cache = new MemoryCache();
+        queue = new DatabaseQueue(
+            { driver: "sqlite", table: "jobs", queue: "default", retryAfter: 90 },
+            getDatabaseManager,
+        );
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("--stop-when-empty drains prioritized queues in order", async () => {
+        await queue.push(new RecordJob("low-1"), "low");
+        await queue.push(new RecordJob("high-1"), "high");
+        await queue.push(new RecordJob("low-2"), "low");
+        await queue.push(new RecordJob("high-2"), "high");
+
+        expect(await worker().run({ queue: "high, low", stopWhenEmpty: true })).toBe("empty");
+        expect(RecordJob.handled).toEqual(["high-1", "high-2", "low-1", "low-2"]);
+    });
+
+    test("--max-jobs stops after that many jobs, even with concurrency", async () => {
+        for (const label of ["a", "b", "c", "d", "e"]) {
+            await queue.push(new RecordJob(label, 20));
+        }
+
+        expect(await worker().run({ maxJobs: 3, concurrency: 2 })).toBe("max-jobs");
+        expect(RecordJob.handled).toHaveLength(3);
+        expect(await queue.size()).toBe(2);
+    });
+
+    test("concurrency runs jobs side by side", async () => {
+        for (const label of ["a", "b", "c", "d"]) {
+            await queue.push(new RecordJob(label, 100));
+        }
+
+        const started = performance.now();
+        await worker().run({ concurrency: 4, stopWhenEmpty: true });
+
+        expect(RecordJob.handled.sort()).toEqual(["a", "b", "c", "d"]);
+        expect(performance.now() - started).toBeLessThan(350);
+    });
+
+    test("--max-time and --memory stop the worker", async () => {
+        let clock = new Date("2026-01-01T12:00:00Z");
+        const timed = worker({
+            now: () => {
+                clock = new Date(clock.getTime() + 30_000);
+                return clock;
+            },
+        });
+        expect(await timed.run({ maxTime: 60, sleepMs: 1 })).toBe("max-time");
+
+        const hungry = worker({ memoryUsage: () => 200 * 1024 * 1024 });
+        await queue.push(new RecordJob("never"));
+        expect(await hungry.run({ memory: 128 })).toBe("memory");
+        expect(RecordJob.handled).toEqual([]);
+    });
+
+    test("an aborted worker finishes the in-flight job before stopping", async () => {
+        await queue.push(new RecordJob("in-flight", 100));
+        await queue.push(new RecordJob("next"));
+        const controller = new AbortController();
+
+        const running = worker().run({ signal: controller.signal, sleepMs: 10 });
+        await Bun.sleep(30);
+        controller.abort();
+
+        expect(await running).toBe("interrupted");
+        expect(RecordJob.handled).toEqual(["in-flight"]);
+        expect(await queue.size()).toBe(1);
+    });
+
+    test("queue:restart makes running workers exit after their current job", async () => {
+        await queue.push(new RecordJob("first", 50));
+        const running = worker().run({ sleepMs: 10 });
+        await Bun.sleep(10);
+
+        const kernel = new Kernel();
+        kernel.register(new QueueRestartCommand({ resolveCache: () => cache }));
+        expect(await kernel.run(["queue:restart"])).toBe(0);
+
+        expect(await running).toBe("restart");
+        expect(RecordJob.handled).toEqual(["first"]);
+    });
+
+    test("queue:restart warns when the default cache store is per-process", async () => {
+        const output: string[] = [];
+        const kernel = new Kernel();
+        kernel.setOutput({
+            writeLine(text: string): void {
+                output.push(text);
+            },
+        });
+        kernel.register(new QueueRestartCommand({ resolveCache: () => cache, sharedStore: false }));
+
+        expect(await kernel.run(["queue:restart"])).toBe(0);
+        expect(output.some((line) => line.includes("only reaches workers on this machine"))).toBe(true);
+        expect(cache.items.size).toBe(1);
+    });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EventDispatcher } from "@ninots/events";
+import { JobRegistry, type QueueableJob } from "@ninots/queue";
+import { EventListenerRegistrar } from "@/app/Events/EventListenerRegistrar";
+import { UserCreatedEvent } from "@/app/Events/UserCreatedEvent";
+import type { DispatchOptions } from "@/app/Queue/Bus";
+import { CallQueuedListener } from "@/app/Queue/CallQueuedListener";
+import { DatabaseQueue } from "@/app/Queue/DatabaseQueue";
+import { FailedJobStore } from "@/app/Queue/FailedJobStore";
+import type { ShouldQueue } from "@/app/Queue/ShouldQueue";
+import { Worker } from "@/app/Queue/Worker";
+import { getDatabaseManager } from "@/bootstrap/database";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+const handled: { listener: string; event: unknown }[] = [];
+
+class InlineListener {
+    public handle(event: UserCreatedEvent): void {
+        handled.push({ listener: "inline", event });
+    }
+}
+
+class QueuedListener implements ShouldQueue {
+    public readonly shouldQueue = true;
+    public readonly connection = "database";
+    public readonly queue = "emails";
+    public readonly tries = 2;
+
+    public handle(event: UserCreatedEvent): void {
+        handled.push({ listener: "queued", event });
+    }
+}
+
+class DelayedListener implements ShouldQueue {
+    public readonly shouldQueue = true;
+    public readonly delay = 300;
+
+    public handle(event: UserCreatedEvent): void {
+        handled.push({ listener: "delayed", event });
+    }
+}
+
+describe("queued event listeners", () => {
+    let dispatched: { job: QueueableJob; options: DispatchOptions; delay?: number | Date }[];
+    let dispatcher: EventDispatcher;
+    let registrar: EventListenerRegistrar;
+
+    beforeEach(() => {
+        handled.length = 0;
+        dispatched = [];
+        dispatcher = new EventDispatcher();
+        registrar = new EventListenerRegistrar(dispatcher, {
+            dispatch: async (job: QueueableJob, options: DispatchOptions = {}) => {
+                dispatched.push({ job, options });
+            },
+            later: async (delay: number | Date, job: QueueableJob, options: DispatchOptions = {}) => {
+                dispatched.push({ job, options, delay });
+            },
+        }).register([[UserCreatedEvent, [InlineListener, QueuedListener, DelayedListener]]]);
+    });
+
+    test("ShouldQueue listeners are dispatched as jobs with their connection, queue and delay", async () => {
+        await dispatcher.dispatch(new UserCreatedEvent(7, "dev@ninots.test"));
+
+        expect(handled.map((entry) => entry.listener)).toEqual(["inline"]);
+        expect(dispatched).toHaveLength(2);
+        expect(dispatched[0]?.job).toBeInstanceOf(CallQueuedListener);
+        expect(dispatched[0]?.options).toEqual({ connection: "database", queue: "emails" });
+        expect((dispatched[0]?.job as CallQueuedListener | undefined)?.tries).toBe(2);
+        expect(dispatched[1]?.delay).toBe(300);
+    });
+
+    test("the event round-trips through the job payload", async () => {
+        await dispatcher.dispatch(new UserCreatedEvent(7, "dev@ninots.test"));
+        const data = JSON.parse(JSON.stringify(dispatched[0]?.job.toData())) as Record<string, unknown>;
+
+        expect(data).toEqual({
+            listener: "QueuedListener",
+            event: "UserCreatedEvent",
+            payload: { userId: 7, email: "dev@ninots.test" },
+        });
+
+        await CallQueuedListener.fromData(data, registrar).handle();
+        const event = handled.at(-1)?.event;
+        expect(event).toBeInstanceOf(UserCreatedEvent);
+        expect(event).toEqual(new UserCreatedEvent(7, "dev@ninots.test"));
+    });
+
+    test("unknown listeners in a payload fail instead of running something else", () => {
+        expect(() =>
+            CallQueuedListener.fromData({ listener: "Missing", event: "UserCreatedEvent", payload: {} }, registrar),
+        ).toThrow("Queued listener [Missing] is not registered");
+    });
+
+    describe("on the database queue", () => {
+        beforeEach(async () => {
+            await setupTestDatabase();
+        });
+
+        afterEach(async () => {
+            await teardownTestDatabase();
+        });
+
+        test("a worker runs the queued listener through the job registry", async () => {
+            const queue = new DatabaseQueue(
+                { driver: "sqlite", table: "jobs", queue: "default", retryAfter: 90 },
+                getDatabaseManager,
+            );
+            await dispatcher.dispatch(new UserCreatedEvent(9, "queued@ninots.test"));
+            const [first] = dispatched;
+            await queue.push(first?.job as QueueableJob, "emails");
+
+            const registry = new JobRegistry().register("CallQueuedListener", (data: Record<string, unknown>) =>
+                CallQueuedListener.fromData(data, registrar),
+            );
+            const worker = new Worker({
+                connection: "database",
+                queue,
+                registry,
+                failedJobs: new FailedJobStore({ table: "failed_jobs" }, getDatabaseManager),
+            });
+
+            expect(await worker.runNextJob("emails")).toBe(true);
+            expect(handled.at(-1)).toEqual({
+                listener: "queued",
+                event: new UserCreatedEvent(9, "queued@ninots.test"),
+            });
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createCacheManager } from "@/app/Cache/createCacheServices";
+import { ParameterizedMiddlewareStack } from "@/app/Http/Middleware/ParameterizedMiddlewareStack";
+import { registerThrottleMiddleware, throttle } from "@/app/Http/Middleware/ThrottleRequests";
+import { Limit } from "@/app/RateLimiting/Limit";
+import { RateLimiter } from "@/app/RateLimiting/RateLimiter";
+import { ThrottleRequestsException } from "@/app/Exceptions/ThrottleRequestsException";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+function clock(start = 1_700_000_000_000): { now: () => number; advance: (seconds: number) => void } {
+    let current = start;
+    return {
+        now: () => current,
+        advance: (seconds: number) => {
+            current += seconds * 1000;
+        },
+    };
+}
+
+describe("RateLimiter algorithms", () => {
+    test("sliding window blocks past the limit and weights the previous window", async () => {
+        const time = clock(60_000 * 1000);
+        const limiter = new RateLimiter(createCacheManager(), time.now);
+        const limit = Limit.perMinute(3);
+
+        expect((await limiter.hit("k", limit)).remaining).toBe(2);
+        await limiter.hit("k", limit);
+        await limiter.hit("k", limit);
+
+        const blocked = await limiter.hit("k", limit);
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.retryAfter).toBe(60);
+
+        // Halfway into the next window, 3 * 0.5 = 1.5 weighted hits remain → one more fits
+        time.advance(90);
+        expect((await limiter.hit("k", limit)).allowed).toBe(true);
+        expect((await limiter.hit("k", limit)).allowed).toBe(false);
+    });
+
+    test("token bucket refills evenly over the decay period", async () => {
+        const time = clock();
+        const limiter = new RateLimiter(createCacheManager(), time.now);
+        const limit = Limit.perMinute(2).using("token-bucket");
+
+        expect((await limiter.hit("k", limit)).allowed).toBe(true);
+        expect((await limiter.hit("k", limit)).allowed).toBe(true);
+        const blocked = await limiter.hit("k", limit);
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.retryAfter).toBe(30);
+
+        time.advance(30);
+        expect((await limiter.hit("k", limit)).allowed).toBe(true);
+    });
+});
+
+describe("throttle middleware", () => {
+    test("inline spec sets X-RateLimit headers and throws a 429 when exceeded", async () => {
+        const middleware = throttle(new RateLimiter(createCacheManager()), "2,1");
+        const next = (): Response => new Response("ok");
+        const request = (): Request =>
+            new Request("http://localhost/contact", { headers: { "X-Forwarded-For": "10.0.0.1" } });
+
+        const first = await middleware(request(), next);
+        expect(first.headers.get("X-RateLimit-Limit")).toBe("2");
+        expect(first.headers.get("X-RateLimit-Remaining")).toBe("1");
+        await middleware(request(), next);
+
+        const error = await Promise.resolve(middleware(request(), next)).catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(ThrottleRequestsException);
+        expect((error as ThrottleRequestsException).status).toBe(429);
+        expect((error as ThrottleRequestsException).headers["Retry-After"]).toBeDefined();
+
+        // A different key has its own counter
+        const other = new Request("http://localhost/contact", { headers: { "X-Forwarded-For": "10.0.0.2" } });
+        expect((await middleware(other, next)).status).toBe(200);
+    });
+
+    test("routes sharing an inline spec keep separate budgets", async () => {
+        const middleware = throttle(new RateLimiter(createCacheManager()), "1,1");
+        const next = (): Response => new Response("ok");
+        const to = (path: string): Request =>
+            new Request(`http://localhost${path}`, { headers: { "X-Forwarded-For": "10.0.0.1" } });
+
+        expect((await middleware(to("/contact"), next)).status).toBe(200);
+        expect((await middleware(to("/login"), next)).status).toBe(200);
+        await expect(Promise.resolve(middleware(to("/contact"), next))).rejects.toBeInstanceOf(
+            ThrottleRequestsException,
+        );
+    });
+
+    test("inline specs resolve on first lookup without being registered up front", () => {
+        const stack = new ParameterizedMiddlewareStack();
+        registerThrottleMiddleware(stack, new RateLimiter(createCacheManager()));
+
+        expect(stack.get("throttle:10,1")).toBeDefined();
+        expect(() => stack.get("throttle:nope")).toThrow("Unknown rate limiter [nope]");
+    });
+
+    test("named limiter keys by the custom key", async () => {
+        const limiter = new RateLimiter(createCacheManager()).for("per-user", (request) =>
+            Limit.perMinute(1).by(request.headers.get("X-User-Id") ?? "guest"),
+        );
+        const middleware = throttle(limiter, "per-user");
+        const next = (): Response => new Response("ok");
+        const asUser = (id: string): Request => new Request("http://localhost/", { headers: { "X-User-Id": id } });
+
+        expect((await middleware(asUser("1"), next)).status).toBe(200);
+        expect((await middleware(asUser("2"), next)).status).toBe(200);
+        await expect(Promise.resolve(middleware(asUser("1"), next))).rejects.toBeInstanceOf(ThrottleRequestsException);
+    });
+
+    test("unknown limiter names are rejected at registration", () => {
+        expect(() => throttle(new RateLimiter(createCacheManager()), "nope")).toThrow("Unknown rate limiter [nope]");
+    });
+});
+
+describe("throttle on /api", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("api responses carry rate limit headers", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/api/users", { headers: { Accept: "application/json" } });
+
+            assertStatus(response, 200);
+            expect(response.headers.get("X-RateLimit-Limit")).toBe("60");
+            expect(response.headers.get("X-RateLimit-Remaining")).toBe("59");
+        } finally {
+            t.stop();
+        }
+    });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import { Kernel } from "@ninots/console";
+import type { QueueableJob } from "@ninots/queue";
+import { ScheduleListCommand } from "@/app/Console/Commands/ScheduleListCommand";
+import { ScheduleRunCommand } from "@/app/Console/Commands/ScheduleRunCommand";
+import { CronExpression } from "@/app/Console/Scheduling/CronExpression";
+import { Schedule } from "@/app/Console/Scheduling/Schedule";
+import type { SchedulerCache } from "@/app/Console/Scheduling/ScheduledEvent";
+import { registerConsoleRoutes } from "@/routes/console";
+
+class MemoryCache implements SchedulerCache {
+    public readonly items = new Map<string, unknown>();
+
+    public async add(key: string, value: unknown): Promise<boolean> {
+        if (this.items.has(key)) {
+            return false;
+        }
+        this.items.set(key, value);
+        return true;
+    }
+
+    public async forget(key: string): Promise<void> {
+        this.items.delete(key);
+    }
+}
+
+function makeSchedule(overrides: { environment?: string; timezone?: string } = {}) {
+    const commands: string[][] = [];
+    const jobs: QueueableJob[] = [];
+    const cache = new MemoryCache();
+    const schedule = new Schedule({
+        cache,
+        runCommand: async (argv) => {
+            commands.push(argv);
+            return 0;
+        },
+        dispatch: async (job) => {
+            jobs.push(job);
+        },
+        timezone: overrides.timezone ?? "UTC",
+        environment: overrides.environment ?? "production",
+    });
+    return { schedule, commands, jobs, cache };
+}
+
+describe("task scheduler", () => {
+    test("cron expressions support lists, ranges, steps and names", () => {
+        const cron = CronExpression.parse("*/15 9-17 * * mon-fri");
+
+        expect(cron.isDue(new Date("2026-03-10T09:45:00Z"))).toBe(true);
+        expect(cron.isDue(new Date("2026-03-10T09:50:00Z"))).toBe(false);
+        expect(cron.isDue(new Date("2026-03-14T09:45:00Z"))).toBe(false);
+        expect(cron.nextRunDate(new Date("2026-03-13T17:50:00Z")).toISOString()).toBe("2026-03-16T09:00:00.000Z");
+        expect(() => CronExpression.parse("61 * * * *")).toThrow();
+        expect(() => CronExpression.parse("* * *")).toThrow();
+    });
+
+    test("fluent helpers build the cron expression", () => {
+        const { schedule } = makeSchedule();
+
+        expect(
+            schedule
+                .call(() => {})
+                .everyFiveMinutes()
+                .getExpression(),
+        ).toBe("*/5 * * * *");
+        expect(
+            schedule
+                .call(() => {})
+                .dailyAt("02:30")
+                .getExpression(),
+        ).toBe("30 2 * * *");
+        expect(
+            schedule
+                .call(() => {})
+                .dailyAt("13:00")
+                .weekdays()
+                .getExpression(),
+        ).toBe("0 13 * * 1-5");
+        expect(
+            schedule
+                .call(() => {})
+                .weeklyOn("friday", "17:15")
+                .getExpression(),
+        ).toBe("15 17 * * 5");
+        expect(
+            schedule
+                .call(() => {})
+                .monthlyOn(15, "06:00")
+                .getExpression(),
+        ).toBe("0 6 15 * *");
+        expect(() => schedule.call(() => {}).dailyAt("25:00")).toThrow();
+    });
+
+    test("helpers only replace the fields they set", () => {
+        const { schedule } = makeSchedule();
+
+        expect(
+            schedule
+                .call(() => {})
+                .weekdays()
+                .dailyAt("08:00")
+                .getExpression(),
+        ).toBe("0 8 * * 1-5");
+        expect(
+            schedule
+                .call(() => {})
+                .weekends()
+                .hourlyAt(45)
+                .getExpression(),
+        ).toBe("45 * * * 0,6");
+        expect(
+            schedule
+                .call(() => {})
+                .cron("0 0 * 6 *")
+                .monthlyOn(1, "09:30")
+                .getExpression(),
+        ).toBe("30 9 1 6 *");
+    });
+
+    test("runs due commands, closures and jobs", async () => {
+        const { schedule, commands, jobs } = makeSchedule();
+        let called = 0;
+        const job = { handle: async () => {} } as unknown as QueueableJob;
+        schedule.command("session:gc").daily();
+        schedule.command("cache:clear").hourly();
+        schedule.call(() => {
+            called++;
+        });
+        schedule.job(job).everyFifteenMinutes();
+
+        const results = await schedule.runDueEvents(new Date("2026-03-10T00:00:00Z"));
+
+        expect(results).toHaveLength(4);
+        expect(commands).toEqual([["session:gc"], ["cache:clear"]]);
+        expect(called).toBe(1);
+        expect(jobs).toEqual([job]);
+
+        await schedule.runDueEvents(new Date("2026-03-10T00:05:00Z"));
+        expect(commands).toHaveLength(2);
+        expect(called).toBe(2);
+    });
+
+    test("timezones and environment filters decide whether an event is due", () => {
+        const { schedule } = makeSchedule({ environment: "staging", timezone: "Europe/Amsterdam" });
+        const amsterdam = schedule.call(() => {}).dailyAt("02:00");
+        const newYork = schedule
+            .call(() => {})
+            .dailyAt("02:00")
+            .timezone("America/New_York");
+        const productionOnly = schedule
+            .call(() => {})
+            .everyMinute()
+            .environments("production");
+
+        expect(schedule.dueEvents(new Date("2026-01-10T01:00:00Z"))).toEqual([amsterdam]);
+        expect(schedule.dueEvents(new Date("2026-01-10T07:00:00Z"))).toEqual([newYork]);
+        expect(productionOnly.isDue(new Date(), "production", "UTC")).toBe(true);
+    });
+
+    test("withoutOverlapping skips a run while the previous one holds the lock", async () => {
+        const { schedule, cache } = makeSchedule();
+        let runs = 0;
+        let finish = (): void => {};
+        const { promise: started, resolve: start } = Promise.withResolvers<void>();
+        const event = schedule
+            .call(async () => {
+                runs++;
+                start();
+                await new Promise<void>((resolve) => {
+                    finish = resolve;
+                });
+            })
+            .withoutOverlapping();
+
+        const first = event.run(cache);
+        await started;
+        expect(await event.run(cache)).toBe(false);
+
+        finish();
+        expect(await first).toBe(true);
+        expect(cache.items.size).toBe(0);
+        expect(runs).toBe(1);
+    });
+
+    test("a failing event is reported without stopping the others", async () => {
+        const { schedule } = makeSchedule();
+        const ran: string[] = [];
+        schedule.call(() => {
+            throw new Error("boom");
+        }, "Broken");
+        schedule.call(() => {
+            ran.push("second");
+        });
+
+        const kernel = new Kernel();
+        kernel.register(new ScheduleRunCommand({ resolveSchedule: () => schedule }));
+
+        expect(await kernel.run(["schedule:run"])).toBe(1);
+        expect(ran).toEqual(["second"]);
+    });
+
+    test("schedule:list shows each task with its next run", async () => {
+        const { schedule } = makeSchedule();
+        registerConsoleRoutes(schedule);
+        const lines: string[] = [];
+
+        const kernel = new Kernel();
+        kernel.setOutput({ writeLine: (text: string) => lines.push(text) });
+        kernel.register(
+            new ScheduleListCommand({ resolveSchedule: () => schedule, now: () => new Date("2026-03-10T12:00:00Z") }),
+        );
+
+        expect(await kernel.run(["schedule:list"])).toBe(0);
+        expect(lines.join("\n")).toContain("0 0 * * *");
+        expect(lines.join("\n")).toContain("Delete expired sessions");
+        expect(lines.join("\n")).toContain("Next due: 2026-03-11T00:00:00.000Z");
+    });
+});
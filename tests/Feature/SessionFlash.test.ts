@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { FileDriver, SessionManager } from "@ninots/session";
+import { startSessionStore } from "@/app/Session/createSessionServices";
+import { assertStatus, createTestApp, responseText } from "../support/http";
+
+const SESSION_COOKIE = "ninots_session";
+
+function sessionCookie(response: Response): string | undefined {
+    const header = response.headers.getSetCookie().find((cookie) => cookie.startsWith(`${SESSION_COOKIE}=`));
+    return header?.split(";")[0];
+}
+
+describe("session middleware, flash data and old input", () => {
+    const testDir = join(import.meta.dir, "..", "tmp-session-flash");
+    let manager: SessionManager;
+
+    beforeAll(async () => {
+        await mkdir(testDir, { recursive: true });
+        manager = new SessionManager(new FileDriver(testDir), {
+            cookie: SESSION_COOKIE,
+            driver: "file",
+            files: testDir,
+            httpOnly: true,
+            lifetime: 120,
+            path: "/",
+            sameSite: "lax",
+            secure: false,
+        });
+    });
+
+    afterAll(async () => {
+        await rm(testDir, { force: true, recursive: true });
+    });
+
+    test("flash data survives exactly one more request; now() only the current one", async () => {
+        const store = await startSessionStore(manager);
+        store.flash("status", "Saved!");
+        store.now("notice", "Just this request");
+        expect(store.get<string>("notice")).toBe("Just this request");
+
+        store.ageFlashData();
+        expect(store.get<string>("status")).toBe("Saved!");
+        expect(store.get("notice")).toBeUndefined();
+
+        store.ageFlashData();
+        expect(store.get("status")).toBeUndefined();
+        expect(store.all()).not.toHaveProperty("_flash");
+    });
+
+    test("reflash and keep carry flash data into another request", async () => {
+        const store = await startSessionStore(manager);
+        store.flash("status", "Saved!");
+        store.flash("warning", "Careful");
+        store.ageFlashData();
+
+        store.keep("warning");
+        store.ageFlashData();
+        expect(store.get("status")).toBeUndefined();
+        expect(store.get<string>("warning")).toBe("Careful");
+
+        store.reflash();
+        store.ageFlashData();
+        expect(store.get<string>("warning")).toBe("Careful");
+
+        store.ageFlashData();
+        expect(store.get("warning")).toBeUndefined();
+    });
+
+    test("flashInput keeps scalar fields but never tokens or passwords", async () => {
+        const store = await startSessionStore(manager);
+        store.flashInput({ _token: "csrf", email: "ada@ninots.test", password: "secret", remember: "on" });
+        store.ageFlashData();
+
+        expect(store.hasOldInput()).toBe(true);
+        expect(store.old<string>("email")).toBe("ada@ninots.test");
+        expect(store.old<string>("remember")).toBe("on");
+        expect(store.old("password")).toBeUndefined();
+        expect(store.old("_token")).toBeUndefined();
+        expect(store.old("name", "fallback")).toBe("fallback");
+    });
+
+    test("anonymous pages do not start a session", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/");
+
+            assertStatus(response, 200);
+            expect(sessionCookie(response)).toBeUndefined();
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("a failed contact submission redirects back with errors and the message", async () => {
+        const t = await createTestApp();
+        try {
+            const form = await t.get("/contact");
+            const cookie = sessionCookie(form) ?? "";
+            const token = (await responseText(form)).match(/name="_token"\s+value="([^"]+)"/)?.[1] ?? "";
+            expect(cookie).not.toBe("");
+
+            const draft = `Hello ${"there ".repeat(400)}`;
+            const response = await t.post("/contact", {
+                headers: { "Content-Type": "application/x-www-form-urlencoded", Cookie: cookie },
+                body: new URLSearchParams({ _token: token, message: draft }).toString(),
+            });
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/contact");
+
+            const back = await t.get("/contact", { headers: { Cookie: cookie } });
+            const html = await responseText(back);
+            expect(html).toContain('class="field-error"');
+            expect(html).toContain(draft.trim());
+
+            // Flash data is gone on the request after that.
+            const again = await responseText(await t.get("/contact", { headers: { Cookie: cookie } }));
+            expect(again).not.toContain('class="field-error"');
+            expect(again).not.toContain(draft.trim());
+        } finally {
+            t.stop();
+        }
+    });
+});
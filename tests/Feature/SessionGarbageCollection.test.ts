@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kernel } from "@ninots/console";
+import { CookieDriver, FileDriver } from "@ninots/session";
+import { SessionGcCommand } from "@/app/Console/Commands/SessionGcCommand";
+import { DatabaseSessionDriver } from "@/app/Session/DatabaseSessionDriver";
+import { OrmSessionConnection } from "@/app/Session/OrmSessionConnection";
+import { SessionGarbageCollector } from "@/app/Session/SessionGarbageCollector";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+describe("session garbage collection", () => {
+    let files: string;
+
+    beforeEach(async () => {
+        files = await mkdtemp(join(tmpdir(), "ninots-session-gc-"));
+    });
+
+    afterEach(async () => {
+        await rm(files, { force: true, recursive: true });
+    });
+
+    function collector(driver = new FileDriver(files), random = () => 0.5): SessionGarbageCollector {
+        return new SessionGarbageCollector(driver, { lifetime: 120, files, lottery: [2, 100] }, () => NOW, random);
+    }
+
+    test("removes file sessions idle longer than the lifetime", async () => {
+        const stale = new Date(NOW.getTime() - 121 * 60_000);
+        const fresh = new Date(NOW.getTime() - 60 * 60_000);
+        for (const [name, modified] of [
+            ["stale", stale],
+            ["fresh", fresh],
+            [".gitignore", stale],
+        ] as const) {
+            await writeFile(join(files, name), "{}");
+            await utimes(join(files, name), modified, modified);
+        }
+
+        expect(await collector().collect()).toBe(1);
+        expect((await readdir(files)).sort()).toEqual([".gitignore", "fresh"]);
+    });
+
+    test("removes expired database sessions", async () => {
+        await setupTestDatabase();
+        try {
+            let clock = new Date(NOW.getTime() - 3 * 60 * 60_000);
+            const driver = new DatabaseSessionDriver(
+                { table: "sessions", lifetime: 120, userKey: "login_session" },
+                new OrmSessionConnection(),
+                () => clock,
+            );
+            await driver.write("old", {});
+            clock = NOW;
+            await driver.write("new", {});
+
+            expect(await collector(driver).collect()).toBe(1);
+            expect(await driver.read("new")).toEqual({});
+            expect(await driver.gc()).toBe(0);
+        } finally {
+            await teardownTestDatabase();
+        }
+    });
+
+    test("drivers without server-side storage have nothing to collect", async () => {
+        expect(await collector(new CookieDriver()).collect()).toBe(0);
+    });
+
+    test("the lottery hits with the configured odds", () => {
+        expect(collector(undefined, () => 0.01).hitsLottery()).toBe(true);
+        expect(collector(undefined, () => 0.02).hitsLottery()).toBe(false);
+    });
+
+    test("session:gc reports how many sessions were removed", async () => {
+        const stale = new Date(NOW.getTime() - 200 * 60_000);
+        await writeFile(join(files, "stale"), "{}");
+        await utimes(join(files, "stale"), stale, stale);
+
+        const kernel = new Kernel();
+        kernel.register(new SessionGcCommand({ resolveCollector: () => collector() }));
+
+        expect(await kernel.run(["session:gc"])).toBe(0);
+        expect(await readdir(files)).toEqual([]);
+    });
+});
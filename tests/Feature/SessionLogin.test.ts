@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { User } from "@/app/Models/User";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp, responseText, type TestApp } from "../support/http";
+
+const SESSION_COOKIE = "ninots_session";
+const FORM_HEADERS = { "Content-Type": "application/x-www-form-urlencoded" };
+
+/**
+ * Minimal cookie jar: keeps the latest value per cookie name from `Set-Cookie`.
+ */
+class CookieJar {
+    private readonly cookies = new Map<string, string>();
+
+    public store(response: Response): void {
+        for (const header of response.headers.getSetCookie()) {
+            const [pair = ""] = header.split(";");
+            const separator = pair.indexOf("=");
+            const name = pair.slice(0, separator).trim();
+            const value = pair.slice(separator + 1).trim();
+            if (/Max-Age=0/i.test(header) || value === "") {
+                this.cookies.delete(name);
+            } else {
+                this.cookies.set(name, value);
+            }
+        }
+    }
+
+    public get(name: string): string | undefined {
+        return this.cookies.get(name);
+    }
+
+    public header(): string {
+        return [...this.cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+    }
+}
+
+async function csrfToken(t: TestApp, jar: CookieJar, path: string): Promise<string> {
+    const response = await t.get(path, { headers: { Cookie: jar.header() } });
+    jar.store(response);
+    const match = (await responseText(response)).match(/name="_token"\s+value="([^"]+)"/);
+    return match?.[1] ?? "";
+}
+
+async function submit(t: TestApp, jar: CookieJar, formPath: string, action: string, fields: Record<string, string>) {
+    const token = await csrfToken(t, jar, formPath);
+    const response = await t.post(action, {
+        headers: { ...FORM_HEADERS, Cookie: jar.header() },
+        body: new URLSearchParams({ _token: token, ...fields }).toString(),
+    });
+    jar.store(response);
+    return response;
+}
+
+describe("session login / logout / registration", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("guests are redirected from auth routes to /login", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/dashboard");
+
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/login");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("a malformed cookie is ignored instead of failing the request", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/dashboard", { headers: { Cookie: `${SESSION_COOKIE}=%E0%A4%A` } });
+
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/login");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("login regenerates the session id and logout ends the session", async () => {
+        await User.factory().create({ email: "ada@ninots.test", name: "Ada", password: "secret-password" });
+
+        const t = await createTestApp();
+        try {
+            const jar = new CookieJar();
+            const wrong = await submit(t, jar, "/login", "/login", {
+                email: "ada@ninots.test",
+                password: "wrong-password",
+            });
+            assertStatus(wrong, 422);
+            expect(await responseText(wrong)).toContain("These credentials do not match our records.");
+
+            const guestSession = jar.get(SESSION_COOKIE);
+            const login = await submit(t, jar, "/login", "/login", {
+                email: "ada@ninots.test",
+                password: "secret-password",
+            });
+            assertStatus(login, 302);
+            expect(login.headers.get("Location")).toBe("/dashboard");
+            expect(jar.get(SESSION_COOKIE)).toBeDefined();
+            expect(jar.get(SESSION_COOKIE)).not.toBe(guestSession);
+
+            const dashboard = await t.get("/dashboard", { headers: { Cookie: jar.header() } });
+            assertStatus(dashboard, 200);
+            expect(await responseText(dashboard)).toContain("Ada");
+
+            const guestOnly = await t.get("/login", { headers: { Cookie: jar.header() } });
+            assertStatus(guestOnly, 302);
+
+            const logout = await submit(t, jar, "/dashboard", "/logout", {});
+            assertStatus(logout, 302);
+
+            const after = await t.get("/dashboard", { headers: { Cookie: jar.header() } });
+            assertStatus(after, 302);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("remember me restores the user without a session", async () => {
+        await User.factory().create({ email: "grace@ninots.test", name: "Grace", password: "secret-password" });
+
+        const t = await createTestApp();
+        try {
+            const jar = new CookieJar();
+            await submit(t, jar, "/login", "/login", {
+                email: "grace@ninots.test",
+                password: "secret-password",
+                remember: "on",
+            });
+
+            const remember = jar.get("remember_session");
+            expect(remember).toBeDefined();
+
+            const response = await t.get("/dashboard", { headers: { Cookie: `remember_session=${remember}` } });
+            assertStatus(response, 200);
+            expect(await responseText(response)).toContain("Grace");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("registration creates the user and logs them in", async () => {
+        const t = await createTestApp();
+        try {
+            const jar = new CookieJar();
+            const response = await submit(t, jar, "/register", "/register", {
+                name: "Linus",
+                email: "linus@ninots.test",
+                password: "secret-password",
+                password_confirmation: "secret-password",
+            });
+
+            assertStatus(response, 302);
+            expect(response.headers.get("Location")).toBe("/dashboard");
+
+            const dashboard = await t.get("/dashboard", { headers: { Cookie: jar.header() } });
+            assertStatus(dashboard, 200);
+            expect(await responseText(dashboard)).toContain("Linus");
+        } finally {
+            t.stop();
+        }
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { ROUTER_KEY } from "@ninots/foundation";
+import type { Router } from "@ninots/routing";
+import { hasValidSignature, signedRoute, signUrl, temporarySignedRoute } from "@/app/Http/signedUrls";
+import { bootstrap, createAppServeOptions } from "@/bootstrap/app";
+import { assertStatus, responseText } from "../support/http";
+
+describe("signed routes", () => {
+    test("signedRoute and temporarySignedRoute sign the named route URL", async () => {
+        await bootstrap();
+        const now = new Date("2026-01-01T00:00:00Z");
+
+        const signed = signedRoute("users.show", { id: "5" });
+        expect(signed).toMatch(/^\/api\/users\/5\?signature=[0-9a-f]{64}$/);
+        expect(hasValidSignature(signed, now)).toBe(true);
+        expect(hasValidSignature(signed.replace("/5?", "/6?"), now)).toBe(false);
+
+        const temporary = temporarySignedRoute("home", new Date(now.getTime() + 60_000));
+        expect(temporary).toStartWith("/?expires=");
+        expect(hasValidSignature(temporary, now)).toBe(true);
+        expect(hasValidSignature(temporary, new Date(now.getTime() + 120_000))).toBe(false);
+        expect(hasValidSignature(temporary.replace(/expires=\d+/, "expires=9999999999"), now)).toBe(false);
+    });
+
+    test("signatures cover path and query but not the host", () => {
+        const signed = signUrl("https://example.test/downloads/report?format=csv");
+
+        expect(hasValidSignature(signed.replace("example.test", "cdn.example.test"))).toBe(true);
+        expect(hasValidSignature(signed.replace("format=csv", "format=pdf"))).toBe(false);
+        expect(hasValidSignature("https://example.test/downloads/report?format=csv")).toBe(false);
+    });
+
+    test("signed middleware rejects tampered and expired URLs with 403", async () => {
+        const app = await bootstrap();
+        const router = app.make<Router>(ROUTER_KEY);
+        router.group({ middleware: ["web", "signed"] }, () => {
+            router.get("/downloads/report", (request: Request) => {
+                return new Response(`report.${new URL(request.url).searchParams.get("format")}`);
+            });
+        });
+
+        const server = Bun.serve({ ...createAppServeOptions(app), port: 0, hostname: "127.0.0.1" });
+        const get = (path: string, headers: HeadersInit = {}) =>
+            fetch(`http://127.0.0.1:${server.port}${path}`, { headers });
+        try {
+            const signed = signUrl("/downloads/report?format=csv", new Date(Date.now() + 60_000));
+            const ok = await get(signed);
+            assertStatus(ok, 200);
+            expect(await responseText(ok)).toBe("report.csv");
+
+            assertStatus(await get(signed.replace("format=csv", "format=pdf")), 403);
+            assertStatus(await get("/downloads/report?format=csv"), 403);
+
+            const expired = await get(signUrl("/downloads/report?format=csv", new Date(Date.now() - 1000)), {
+                Accept: "application/json",
+            });
+            assertStatus(expired, 403);
+            expect(((await expired.json()) as { message: string }).message).toBe("Invalid signature.");
+        } finally {
+            server.stop();
+        }
+    });
+});
@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { OAuthManager, OAuthProvider, OAuthUser } from "@ninots/social-auth";
+import type { Server } from "bun";
+import { OAUTH_MANAGER_KEY } from "@/app/Auth/createOAuthServices";
+import { codeChallenge } from "@/app/Auth/OAuth/pkce";
+import { SocialAccount } from "@/app/Models/SocialAccount";
+import { User } from "@/app/Models/User";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp, responseText, type TestApp } from "../support/http";
+
+type FakeIdentity = { id: number; login: string; name: string; email: string };
+
+/**
+ * Local stand-in for github.com + api.github.com: hands out one code per
+ * authorization and checks the PKCE verifier against the recorded challenge.
+ */
+class FakeGitHub {
+    public readonly server: Server<undefined>;
+    private readonly codes = new Map<string, { challenge: string; identity: FakeIdentity }>();
+    private readonly tokens = new Map<string, FakeIdentity>();
+
+    constructor() {
+        this.server = Bun.serve({
+            port: 0,
+            hostname: "127.0.0.1",
+            fetch: (request) => this.handle(request),
+        });
+    }
+
+    public get url(): string {
+        return `http://127.0.0.1:${this.server.port}`;
+    }
+
+    /**
+     * Simulate the user approving the authorization at `location`; returns the callback query.
+     */
+    public approve(location: string, identity: FakeIdentity): string {
+        const query = new URL(location).searchParams;
+        const code = `code-${identity.id}-${this.codes.size}`;
+        this.codes.set(code, { challenge: query.get("code_challenge") ?? "", identity });
+        return new URLSearchParams({ code, state: query.get("state") ?? "" }).toString();
+    }
+
+    public stop(): void {
+        this.server.stop(true);
+    }
+
+    private async handle(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+
+        if (request.method === "POST" && url.pathname === "/login/oauth/access_token") {
+            const form = new URLSearchParams(await request.text());
+            const grant = this.codes.get(form.get("code") ?? "");
+            if (grant === undefined || codeChallenge(form.get("code_verifier") ?? "") !== grant.challenge) {
+                return Response.json({ error: "bad_verification_code" });
+            }
+            this.codes.delete(form.get("code") ?? "");
+            const token = `gho_${grant.identity.id}`;
+            this.tokens.set(token, grant.identity);
+            return Response.json({ access_token: token, token_type: "bearer" });
+        }
+
+        const identity = this.tokens.get(request.headers.get("Authorization")?.replace("Bearer ", "") ?? "");
+        if (identity === undefined) {
+            return Response.json({ message: "Bad credentials" }, { status: 401 });
+        }
+        if (url.pathname === "/user") {
+            return Response.json({ id: identity.id, login: identity.login, name: identity.name, avatar_url: null });
+        }
+        if (url.pathname === "/user/emails") {
+            return Response.json([{ email: identity.email, primary: true, verified: true }]);
+        }
+        return new Response("Not Found", { status: 404 });
+    }
+}
+
+function cookieHeader(response: Response, previous = ""): string {
+    const cookies = new Map(
+        previous
+            .split("; ")
+            .filter(Boolean)
+            .map((pair) => pair.split("=") as [string, string]),
+    );
+    for (const header of response.headers.getSetCookie()) {
+        const [pair = ""] = header.split(";");
+        const [name = "", value = ""] = pair.split("=");
+        cookies.set(name, value);
+    }
+    return [...cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
+/**
+ * GitHub-shaped provider pointed at {@link FakeGitHub}, registered on the package manager.
+ */
+class FakeGitHubProvider implements OAuthProvider {
+    constructor(
+        private readonly fake: FakeGitHub,
+        private readonly redirectUri: string,
+    ) {}
+
+    public getAuthorizationUrl(state: string, codeChallenge?: string): string {
+        const url = new URL("/login/oauth/authorize", this.fake.url);
+        url.search = new URLSearchParams({
+            client_id: "client-id",
+            redirect_uri: this.redirectUri,
+            state,
+            code_challenge: codeChallenge ?? "",
+            code_challenge_method: "S256",
+        }).toString();
+        return url.toString();
+    }
+
+    public async getAccessToken(code: string, codeVerifier?: string): Promise<string> {
+        const response = await fetch(`${this.fake.url}/login/oauth/access_token`, {
+            method: "POST",
+            headers: { Accept: "application/json" },
+            body: new URLSearchParams({ code, code_verifier: codeVerifier ?? "" }),
+        });
+        const payload = (await response.json()) as { access_token?: string; error?: string };
+        if (payload.access_token === undefined) {
+            throw new Error(`token exchange failed: ${payload.error}`);
+        }
+        return payload.access_token;
+    }
+
+    public async getUser(accessToken: string): Promise<OAuthUser> {
+        const headers = { Authorization: `Bearer ${accessToken}` };
+        const user = (await (await fetch(`${this.fake.url}/user`, { headers })).json()) as FakeIdentity;
+        const emails = (await (await fetch(`${this.fake.url}/user/emails`, { headers })).json()) as { email: string }[];
+        return {
+            id: String(user.id),
+            nickname: user.login,
+            name: user.name,
+            email: emails[0]?.email ?? null,
+            avatar: null,
+        };
+    }
+}
+
+function registerProvider(t: TestApp, fake: FakeGitHub, name = "github"): void {
+    t.app
+        .make<OAuthManager>(OAUTH_MANAGER_KEY)
+        .extend(name, new FakeGitHubProvider(fake, `${t.baseUrl}/auth/${name}/callback`));
+}
+
+/**
+ * Run redirect → approve → callback; returns the callback response and the cookies after it.
+ */
+async function signIn(t: TestApp, fake: FakeGitHub, identity: FakeIdentity, provider = "github", cookies = "") {
+    const redirect = await t.get(`/auth/${provider}/redirect`, { headers: { Cookie: cookies } });
+    assertStatus(redirect, 302);
+    const jar = cookieHeader(redirect, cookies);
+
+    const query = fake.approve(redirect.headers.get("Location") ?? "", identity);
+    const callback = await t.get(`/auth/${provider}/callback?${query}`, { headers: { Cookie: jar } });
+    return { callback, cookies: cookieHeader(callback, jar) };
+}
+
+const ADA: FakeIdentity = { id: 101, login: "ada", name: "Ada Lovelace", email: "ada@ninots.test" };
+
+describe("OAuth social login", () => {
+    let fake: FakeGitHub;
+
+    beforeEach(async () => {
+        await setupTestDatabase();
+        fake = new FakeGitHub();
+    });
+
+    afterEach(async () => {
+        fake.stop();
+        await teardownTestDatabase();
+    });
+
+    test("redirect sends state and an S256 PKCE challenge to the provider", async () => {
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            const response = await t.get("/auth/github/redirect");
+
+            assertStatus(response, 302);
+            const location = new URL(response.headers.get("Location") ?? "");
+            expect(location.origin + location.pathname).toBe(`${fake.url}/login/oauth/authorize`);
+            expect(location.searchParams.get("client_id")).toBe("client-id");
+            expect(location.searchParams.get("state")).toMatch(/^[0-9a-f]{40}$/);
+            expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+            expect(location.searchParams.get("code_challenge")).toMatch(/^[\w-]{43}$/);
+            expect(response.headers.getSetCookie().join()).toContain("ninots_session=");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("callback creates the user, links the identity and logs in", async () => {
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            const { callback, cookies } = await signIn(t, fake, ADA);
+
+            assertStatus(callback, 302);
+            expect(callback.headers.get("Location")).toBe("/dashboard");
+
+            const users = (await User.all()).all();
+            expect(users).toHaveLength(1);
+            expect(users[0]?.getAttribute("email")).toBe("ada@ninots.test");
+
+            const accounts = (await SocialAccount.all()).all();
+            expect(accounts).toHaveLength(1);
+            expect(accounts[0]?.getAttribute("provider")).toBe("github");
+            expect(accounts[0]?.getAttribute("provider_user_id")).toBe("101");
+
+            const dashboard = await t.get("/dashboard", { headers: { Cookie: cookies } });
+            assertStatus(dashboard, 200);
+            expect(await responseText(dashboard)).toContain("Ada Lovelace");
+
+            // Signing in again reuses the linked account.
+            await signIn(t, fake, ADA);
+            expect((await User.all()).all()).toHaveLength(1);
+            expect((await SocialAccount.all()).all()).toHaveLength(1);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("an existing user with the same verified email is linked, not duplicated", async () => {
+        const existing = await User.factory().create({ email: "ada@ninots.test", name: "Ada" });
+
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            const { callback } = await signIn(t, fake, ADA);
+
+            assertStatus(callback, 302);
+            expect((await User.all()).all()).toHaveLength(1);
+            const [account] = (await SocialAccount.all()).all();
+            expect(Number(account?.getAttribute("user_id"))).toBe(Number(existing.getAttribute("id")));
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("a signed-in user can link a second provider", async () => {
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            registerProvider(t, fake, "github-enterprise");
+
+            const first = await signIn(t, fake, ADA);
+            const second = await signIn(
+                t,
+                fake,
+                { id: 7, login: "ada-corp", name: "Ada (Corp)", email: "ada@corp.test" },
+                "github-enterprise",
+                first.cookies,
+            );
+
+            assertStatus(second.callback, 302);
+            expect((await User.all()).all()).toHaveLength(1);
+            const providers = (await SocialAccount.all())
+                .all()
+                .map((account: SocialAccount) => account.getAttribute("provider"));
+            expect(providers).toEqual(["github", "github-enterprise"]);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("linking an identity that belongs to another user is rejected, not a silent account switch", async () => {
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            await signIn(t, fake, ADA);
+            const grace = await signIn(t, fake, {
+                id: 202,
+                login: "grace",
+                name: "Grace Hopper",
+                email: "grace@ninots.test",
+            });
+
+            const { callback, cookies } = await signIn(t, fake, ADA, "github", grace.cookies);
+            assertStatus(callback, 409);
+
+            const dashboard = await t.get("/dashboard", { headers: { Cookie: cookies } });
+            expect(await responseText(dashboard)).toContain("Grace Hopper");
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("a callback with a forged or replayed state is rejected", async () => {
+        const t = await createTestApp();
+        try {
+            registerProvider(t, fake);
+            const redirect = await t.get("/auth/github/redirect");
+            const cookies = cookieHeader(redirect);
+            const query = new URLSearchParams(fake.approve(redirect.headers.get("Location") ?? "", ADA));
+
+            const forged = await t.get(`/auth/github/callback?code=${query.get("code")}&state=forged`, {
+                headers: { Cookie: cookies },
+            });
+            assertStatus(forged, 400);
+
+            // The state was consumed by the first callback, so replaying the real one fails too.
+            const replayed = await t.get(`/auth/github/callback?${query}`, { headers: { Cookie: cookies } });
+            assertStatus(replayed, 400);
+            expect((await User.all()).all()).toHaveLength(0);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("unknown providers answer 404", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/auth/myspace/redirect");
+
+            assertStatus(response, 404);
+        } finally {
+            t.stop();
+        }
+    });
+});
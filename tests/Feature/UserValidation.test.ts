@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { User } from "@/app/Models/User";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+const JSON_HEADERS = { "Content-Type": "application/json", Accept: "application/json" };
+
+type ErrorBag = { message: string; errors: Record<string, string[]> };
+
+describe("users API form request validation", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("POST /api/users returns a 422 error bag keyed by field", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.post("/api/users", {
+                headers: JSON_HEADERS,
+                body: JSON.stringify({ email: "not-an-email", password: "short" }),
+            });
+
+            assertStatus(response, 422);
+            const body = (await response.json()) as ErrorBag;
+            expect(body.message).toBe("The given data was invalid.");
+            expect(body.errors.email).toEqual(["The email must be valid"]);
+            expect(body.errors.name).toBeDefined();
+            expect(body.errors.password).toEqual(["The password must have at least 8 characters"]);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("unique:users and confirmed run against the database and input", async () => {
+        await User.factory().create({ email: "taken@ninots.test" });
+
+        const t = await createTestApp();
+        try {
+            const response = await t.post("/api/users", {
+                headers: JSON_HEADERS,
+                body: JSON.stringify({
+                    email: "taken@ninots.test",
+                    name: "Taken",
+                    password: "secret-password",
+                    password_confirmation: "different-password",
+                }),
+            });
+
+            assertStatus(response, 422);
+            const body = (await response.json()) as ErrorBag;
+            expect(body.errors.email).toEqual(["This email is already in use"]);
+            expect(body.errors.password).toEqual(["The password confirmation does not match."]);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("valid payload creates the user with only validated fields", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.post("/api/users", {
+                headers: JSON_HEADERS,
+                body: JSON.stringify({
+                    email: "new@ninots.test",
+                    name: "New User",
+                    password: "secret-password",
+                    password_confirmation: "secret-password",
+                    metadata: { role: "admin" },
+                }),
+            });
+
+            assertStatus(response, 201);
+            const created = await User.find(1);
+            expect(created?.email).toBe("new@ninots.test");
+            expect(created?.getAttribute("metadata") ?? null).toBeNull();
+        } finally {
+            t.stop();
+        }
+    });
+});
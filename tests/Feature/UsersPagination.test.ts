@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { SocialAccount } from "@/app/Models/SocialAccount";
+import { User } from "@/app/Models/User";
+import { Cursor } from "@/app/Pagination/Cursor";
+import { setupTestDatabase, teardownTestDatabase } from "@/tests/support/database";
+import { assertStatus, createTestApp } from "../support/http";
+
+type Page = {
+    data: { id: number; email: string }[];
+    meta: Record<string, unknown>;
+    links: Record<string, string | null>;
+};
+
+describe("users.index pagination", () => {
+    beforeEach(async () => {
+        await setupTestDatabase();
+        await User.factory(5).create();
+    });
+
+    afterEach(async () => {
+        await teardownTestDatabase();
+    });
+
+    test("?page= and ?per_page= return {data, meta, links} with a Link header", async () => {
+        const t = await createTestApp();
+        try {
+            const response = await t.get("/api/users?per_page=2&page=2");
+            assertStatus(response, 200);
+
+            const body = (await response.json()) as Page;
+            expect(body.data.map((user) => user.id)).toEqual([3, 4]);
+            expect(body.meta).toMatchObject({ current_page: 2, per_page: 2, total: 5, last_page: 3, from: 3, to: 4 });
+            expect(body.links.prev).toBe(`${t.baseUrl}/api/users?per_page=2&page=1`);
+            expect(body.links.next).toBe(`${t.baseUrl}/api/users?per_page=2&page=3`);
+
+            const link = response.headers.get("Link") ?? "";
+            expect(link).toContain(`<${t.baseUrl}/api/users?per_page=2&page=3>; rel="next"`);
+            expect(link).toContain('rel="first"');
+            expect(link).toContain('rel="last"');
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("?per_page= is capped", async () => {
+        const t = await createTestApp();
+        try {
+            const body = (await (await t.get("/api/users?per_page=5000")).json()) as Page;
+            expect(body.meta.per_page).toBe(100);
+            expect(body.data).toHaveLength(5);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("?cursor= walks forward and back by keyset", async () => {
+        const t = await createTestApp();
+        try {
+            const first = (await (await t.get("/api/users?per_page=2&cursor=")).json()) as Page;
+            expect(first.data.map((user) => user.id)).toEqual([1, 2]);
+            expect(first.meta.prev_cursor).toBeNull();
+
+            const second = (await (await t.get(String(first.links.next))).json()) as Page;
+            expect(second.data.map((user) => user.id)).toEqual([3, 4]);
+
+            const back = (await (await t.get(String(second.links.prev))).json()) as Page;
+            expect(back.data.map((user) => user.id)).toEqual([1, 2]);
+        } finally {
+            t.stop();
+        }
+    });
+
+    test("static paginators query the subclass's own table", async () => {
+        const account = new SocialAccount();
+        account.fill({ user_id: 1, provider: "github", provider_user_id: "42" });
+        await account.save();
+
+        const accounts = await SocialAccount.paginate(10, { path: "/accounts" });
+        expect(accounts.toJSON().meta).toMatchObject({ total: 1 });
+        expect((await User.simplePaginate(10, { path: "/users" })).count()).toBe(5);
+    });
+
+    test("malformed cursors decode to null", () => {
+        expect(Cursor.decode("not-base64-json")).toBeNull();
+        expect(Cursor.decode(new Cursor(7, "next").encode())).toEqual(new Cursor(7, "next"));
+    });
+});
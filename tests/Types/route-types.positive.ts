@@ -5,6 +5,7 @@
  */
 
 import type { RouteRegistry } from "@ninots/routing";
+import type { signedRoute, temporarySignedRoute } from "@/app/Http/signedUrls";
 import type { Equal, Expect } from "./expect";
 
 type _home = Expect<Equal<RouteRegistry["home"], Record<never, never>>>;
@@ -15,4 +16,18 @@ type HasRequiredParams<Name extends keyof RouteRegistry> = [keyof RouteRegistry[
 type _homeOptional = Expect<Equal<HasRequiredParams<"home">, false>>;
 type _showRequired = Expect<Equal<HasRequiredParams<"users.show">, true>>;
 
-export type PositiveStarterRouteTypes = [_home, _show, _homeOptional, _showRequired];
+type _signedShow = Expect<Equal<Parameters<typeof signedRoute<"users.show">>, ["users.show", { id: string }]>>;
+type _signedHome = Expect<Equal<Parameters<typeof signedRoute<"home">>, ["home", Record<never, never>?]>>;
+type _temporaryShow = Expect<
+    Equal<Parameters<typeof temporarySignedRoute<"users.show">>, ["users.show", Date, { id: string }]>
+>;
+
+export type PositiveStarterRouteTypes = [
+    _home,
+    _show,
+    _homeOptional,
+    _showRequired,
+    _signedShow,
+    _signedHome,
+    _temporaryShow,
+];
@@ -2,13 +2,32 @@
 export {};
 declare module "@ninots/routing" {
     interface RouteRegistry {
+        "api.user": Record<never, never>;
         "contact.create": Record<never, never>;
         "contact.store": Record<never, never>;
+        "dashboard": Record<never, never>;
         "home": Record<never, never>;
+        "login": Record<never, never>;
+        "login.store": Record<never, never>;
+        "logout": Record<never, never>;
+        "notifications.index": Record<never, never>;
+        "notifications.read": { id: string };
+        "notifications.read-all": Record<never, never>;
+        "oauth.callback": { provider: string };
+        "oauth.redirect": { provider: string };
+        "password.email": Record<never, never>;
+        "password.request": Record<never, never>;
+        "password.reset": { token: string };
+        "password.store": Record<never, never>;
+        "register": Record<never, never>;
+        "register.store": Record<never, never>;
         "users.destroy": { id: string };
         "users.index": Record<never, never>;
         "users.show": { id: string };
         "users.store": Record<never, never>;
         "users.update": { id: string };
+        "verification.notice": Record<never, never>;
+        "verification.send": Record<never, never>;
+        "verification.verify": { id: string; hash: string };
     }
 }